@@ -6,21 +6,48 @@ import "@openzeppelin/contracts-upgradeable/utils/PausableUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/utils/ReentrancyGuardUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
 import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/cryptography/EIP712Upgradeable.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/cryptography/SignatureChecker.sol";
 
 contract PolygonBridge is 
     Initializable,
     AccessControlUpgradeable,
     PausableUpgradeable,
     ReentrancyGuardUpgradeable,
-    UUPSUpgradeable
+    UUPSUpgradeable,
+    EIP712Upgradeable
 {
     using SafeERC20 for IERC20;
 
     bytes32 public constant RELAYER_ROLE = keccak256("RELAYER_ROLE");
     bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+    bytes32 public constant FEE_MANAGER_ROLE = keccak256("FEE_MANAGER_ROLE");
 
+    // Volume caps refill linearly over this window, i.e. they cap any rolling
+    // 24h period.
+    uint256 public constant VOLUME_WINDOW = 1 days;
+
+    // Upper bound for any bridge fee (5%), and the most a fee may move in a
+    // single update so users are never surprised by a sudden jump.
+    uint256 public constant MAX_FEE_BASIS_POINTS = 500;
+    uint256 public constant MAX_FEE_CHANGE_BASIS_POINTS = 50;
+
+    bytes32 public constant BRIDGE_INTENT_TYPEHASH = keccak256(
+        "BridgeIntent(address sender,address token,uint256 amount,string tonRecipient,uint256 maxRelayerFee,uint256 nonce,uint256 deadline)"
+    );
+
+    bytes32 public constant TRANSFER_ATTESTATION_TYPEHASH = keccak256(
+        "TransferAttestation(bytes32 transferId,bytes32 tonTxHash,uint64 tonLt)"
+    );
+
+    /// @dev `minBridgeAmount`, `maxBridgeAmount` and `feeBasisPoints` mirror the
+    ///      native POL entry of the token registry (`tokenConfigs[address(0)]`),
+    ///      which is what bridgeToTON enforces; writing either side updates both.
     struct BridgeConfig {
         uint256 minBridgeAmount;
         uint256 maxBridgeAmount;
@@ -29,6 +56,15 @@ contract PolygonBridge is
         bool enabled;
     }
 
+    /// @dev Amounts are in the token's own units (`decimals`).
+    struct TokenConfig {
+        uint256 minAmount;
+        uint256 maxAmount;
+        uint256 feeBasisPoints;
+        uint8 decimals;
+        bool enabled;
+    }
+
     struct Transfer {
         address sender;
         address token;
@@ -37,16 +73,106 @@ contract PolygonBridge is
         uint256 timestamp;
         uint256 confirmations;
         bool completed;
+        uint256 fee;
+        bool refunded;
+        // TON payout the relayers attested to: wallet transaction hash and
+        // logical time, fixed by the first confirmation.
+        bytes32 tonTxHash;
+        uint64 tonLt;
+    }
+
+    struct Release {
+        address token;
+        address recipient;
+        uint256 amount;
+        uint256 confirmations;
+        bool executed;
+    }
+
+    /// @dev Signed by `sender` (EIP-712) and submitted by anyone, who is paid
+    ///      up to `maxRelayerFee` of `amount`; the rest is bridged.
+    struct BridgeIntent {
+        address sender;
+        address token;
+        uint256 amount;
+        string tonRecipient;
+        uint256 maxRelayerFee;
+        uint256 nonce;
+        uint256 deadline;
+    }
+
+    /// @dev EIP-2612 permit; a zero `deadline` means "use the existing allowance".
+    struct PermitSignature {
+        uint256 deadline;
+        uint8 v;
+        bytes32 r;
+        bytes32 s;
+    }
+
+    /// @dev One entry of a confirmTransfers batch: the TON payout of `transferId`.
+    struct TransferConfirmation {
+        bytes32 transferId;
+        bytes32 tonTxHash;
+        uint64 tonLt;
+    }
+
+    /// @dev `used` decays by `cap / VOLUME_WINDOW` per second since `updatedAt`.
+    ///      A zero cap means unlimited.
+    struct VolumeLimit {
+        uint256 cap;
+        uint256 used;
+        uint256 updatedAt;
     }
 
     BridgeConfig public config;
     address public wrappedTON;
     uint256 public transferNonce;
     
-    mapping(address => bool) public supportedTokens;
+    /// @custom:oz-renamed-from supportedTokens
+    mapping(address => bool) private __deprecatedSupportedTokens;
     mapping(bytes32 => Transfer) public transfers;
     mapping(bytes32 => mapping(address => bool)) public hasConfirmed;
 
+    // Principal locked by bridgeToTON, per token; the upper bound for releases.
+    mapping(address => uint256) public lockedLiquidity;
+    // TON -> Polygon releases, keyed by the hash of the TON deposit transaction.
+    mapping(bytes32 => Release) public releases;
+    mapping(bytes32 => mapping(address => bool)) public hasConfirmedRelease;
+
+    // Fees taken by bridgeToTON, per token, kept apart from lockedLiquidity.
+    mapping(address => uint256) public accruedFees;
+    // Default destination of withdrawFees.
+    address public treasury;
+
+    // Token registry; address(0) is native POL.
+    mapping(address => TokenConfig) public tokenConfigs;
+    address[] private configuredTokens;
+    mapping(address => bool) private isConfiguredToken;
+
+    // Outbound: Polygon -> TON payouts, counted when confirmTransfer completes
+    // a transfer. Inbound: TON -> Polygon, counted when a release executes.
+    mapping(address => VolumeLimit) public outboundLimits;
+    mapping(address => VolumeLimit) public inboundLimits;
+    // Set when a cap was hit; keeps the bridge paused until resetCircuitBreaker.
+    bool public circuitBreakerTripped;
+
+    // Next valid BridgeIntent nonce per sender.
+    mapping(address => uint256) public intentNonces;
+
+    // Tokens whose balances change without transfers; locked amounts would
+    // drift from the Transfer records, so they can never be bridged.
+    mapping(address => bool) public rebasingTokens;
+
+    // Seconds after which an unconfirmed transfer can be refunded to its
+    // sender (0 = refunds disabled); refundFees also returns the bridge fee.
+    uint256 public transferExpiry;
+    bool public refundFees;
+
+    // Every RELAYER_ROLE holder, kept in sync by _grantRole/_revokeRole;
+    // relayerIndex is the position in `relayers` plus one.
+    address[] private relayers;
+    mapping(address => uint256) private relayerIndex;
+
     event BridgeInitiated(
         bytes32 indexed transferId,
         address indexed sender,
@@ -55,10 +181,39 @@ contract PolygonBridge is
         string tonRecipient,
         uint256 fee
     );
-    event BridgeConfirmed(bytes32 indexed transferId, address indexed relayer);
-    event BridgeCompleted(bytes32 indexed transferId);
+    event BridgeConfirmed(
+        bytes32 indexed transferId,
+        address indexed relayer,
+        bytes32 tonTxHash,
+        uint64 tonLt
+    );
+    event BridgeCompleted(bytes32 indexed transferId, bytes32 tonTxHash, uint64 tonLt);
     event TokenSupported(address indexed token, bool supported);
+    event TokenConfigUpdated(address indexed token, TokenConfig newConfig);
+    event RebasingTokenMarked(address indexed token, bool rebasing);
     event ConfigUpdated(BridgeConfig newConfig);
+    event TreasuryUpdated(address indexed oldTreasury, address indexed newTreasury);
+    event FeesWithdrawn(address indexed token, address indexed to, uint256 amount);
+    event VolumeCapsUpdated(address indexed token, uint256 outboundCap, uint256 inboundCap);
+    event CircuitBreakerTripped(address indexed token, bool outbound, uint256 amount);
+    event CircuitBreakerReset(address indexed admin);
+    event RelayerAdded(address indexed relayer);
+    event RelayerRemoved(address indexed relayer);
+    event RefundPolicyUpdated(uint256 transferExpiry, bool refundFees);
+    event BridgeRefunded(
+        bytes32 indexed transferId,
+        address indexed sender,
+        address indexed token,
+        uint256 amount
+    );
+    event IntentExecuted(address indexed sender, uint256 nonce, address indexed submitter, uint256 relayerFee);
+    event ReleaseConfirmed(bytes32 indexed tonTxHash, address indexed relayer);
+    event ReleaseExecuted(
+        bytes32 indexed tonTxHash,
+        address indexed token,
+        address indexed recipient,
+        uint256 amount
+    );
 
     error InsufficientAmount();
     error ExceedsMaxAmount();
@@ -67,32 +222,101 @@ contract PolygonBridge is
     error AlreadyConfirmed();
     error AlreadyCompleted();
     error BridgeDisabled();
+    error TokenNotConfigured();
+    error RebasingTokenUnsupported(address token);
+    error InvalidRelease();
+    error ReleaseMismatch();
+    error AlreadyReleased();
+    error InsufficientLiquidity();
+    error InsufficientFees();
+    error InvalidRecipient();
+    error CircuitBreakerActive();
+    error PermitFailed();
+    error IntentExpired();
+    error InvalidNonce();
+    error InvalidSignature();
+    error RelayerFeeTooHigh();
+    error NotTransferSender();
+    error InvalidTonPayout();
+    error PayoutMismatch();
+    error InvalidSignerOrder();
+    error InsufficientSignatures();
+    error AlreadyRefunded();
+    error RefundNotAvailable();
+    error InvalidThreshold();
+    error InvalidAmountRange();
+    error FeeTooHigh();
+    error FeeChangeTooLarge();
+    error RelayerExists();
+    error RelayerNotFound();
 
     /// @custom:oz-upgrades-unsafe-allow constructor
     constructor() {
         _disableInitializers();
     }
 
+    /// @notice `_relayers` form the initial relayer set; `_config.relayerThreshold`
+    ///         must lie in [1, _relayers.length], as in updateConfig.
     function initialize(
         address _admin,
         address _wrappedTON,
-        BridgeConfig memory _config
+        BridgeConfig memory _config,
+        address[] calldata _relayers
     ) external initializer {
-        require(_admin != address(0), "Invalid admin");
-        require(_wrappedTON != address(0), "Invalid wTON");
+        if (_admin == address(0) || _wrappedTON == address(0)) revert InvalidRecipient();
 
         __AccessControl_init();
         __Pausable_init();
         __ReentrancyGuard_init();
         __UUPSUpgradeable_init();
+        __EIP712_init(_EIP712Name(), _EIP712Version());
 
         _grantRole(DEFAULT_ADMIN_ROLE, _admin);
         _grantRole(PAUSER_ROLE, _admin);
+        _grantRole(FEE_MANAGER_ROLE, _admin);
 
         wrappedTON = _wrappedTON;
         config = _config;
+        for (uint256 i = 0; i < _relayers.length; i++) {
+            _enrollRelayer(_relayers[i]);
+        }
+        _checkThreshold(_config.relayerThreshold);
 
-        supportedTokens[address(0)] = true;
+        _setTokenConfig(address(0), TokenConfig({
+            minAmount: _config.minBridgeAmount,
+            maxAmount: _config.maxBridgeAmount,
+            feeBasisPoints: _config.feeBasisPoints,
+            decimals: 18,
+            enabled: true
+        }));
+    }
+
+    /**
+     * @notice Migrate a proxy deployed before the token registry existed:
+     *         register native POL and every ERC-20 in `legacyTokens` from
+     *         `config` (enabled if the old implementation supported it),
+     *         account what the bridge holds of each as locked principal, and
+     *         enroll the `legacyRelayers` already holding RELAYER_ROLE in the
+     *         relayer set. The old implementation could not enumerate tokens
+     *         or role holders, so the caller passes them (scripts/helpers/
+     *         upgrade.ts reads them from its events). Run by the upgrade
+     *         (scripts/upgradeBridge.ts); tokens and liquidity that are
+     *         already there are left alone.
+     */
+    function initializeV2(
+        address[] calldata legacyTokens,
+        address[] calldata legacyRelayers
+    ) external reinitializer(2) onlyRole(DEFAULT_ADMIN_ROLE) {
+        _migrateToken(address(0), 18, true);
+        for (uint256 i = 0; i < legacyTokens.length; i++) {
+            address token = legacyTokens[i];
+            if (token == address(0)) revert UnsupportedToken();
+            _migrateToken(token, IERC20Metadata(token).decimals(), __deprecatedSupportedTokens[token]);
+        }
+        for (uint256 i = 0; i < legacyRelayers.length; i++) {
+            if (!hasRole(RELAYER_ROLE, legacyRelayers[i])) revert RelayerNotFound();
+            _addRelayer(legacyRelayers[i]);
+        }
     }
 
     function bridgeToTON(
@@ -100,62 +324,438 @@ contract PolygonBridge is
         address token,
         uint256 amount
     ) external payable whenNotPaused nonReentrant {
-        if (!config.enabled) revert BridgeDisabled();
-        if (!supportedTokens[token]) revert UnsupportedToken();
-        if (amount < config.minBridgeAmount) revert InsufficientAmount();
-        if (amount > config.maxBridgeAmount) revert ExceedsMaxAmount();
+        _bridgeToTON(msg.sender, tonRecipient, token, amount, 0);
+    }
 
-        uint256 fee = (amount * config.feeBasisPoints) / 10000;
-        uint256 netAmount = amount - fee;
+    /**
+     * @notice Bridge an EIP-2612 token without a prior `approve`: the permit
+     *         signed by the caller is applied and the tokens pulled in one call.
+     * @dev A failing permit is ignored when the allowance is already in place,
+     *      so a front-run permit cannot block the bridge call.
+     */
+    function bridgeToTONWithPermit(
+        string calldata tonRecipient,
+        address token,
+        uint256 amount,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external whenNotPaused nonReentrant {
+        if (token == address(0)) revert UnsupportedToken();
+
+        _applyPermit(token, msg.sender, amount, PermitSignature(deadline, v, r, s));
+        _bridgeToTON(msg.sender, tonRecipient, token, amount, 0);
+    }
+
+    /**
+     * @notice Bridge on behalf of a user who signed a BridgeIntent, so they
+     *         need no POL for gas. The caller is paid `relayerFee` (at most
+     *         the signed `maxRelayerFee`) out of the bridged tokens.
+     * @param permit Optional EIP-2612 permit from the sender (deadline 0: none).
+     */
+    function bridgeWithIntent(
+        BridgeIntent calldata intent,
+        bytes calldata signature,
+        uint256 relayerFee,
+        PermitSignature calldata permit
+    ) external whenNotPaused nonReentrant {
+        if (intent.token == address(0)) revert UnsupportedToken();
+        if (block.timestamp > intent.deadline) revert IntentExpired();
+        if (intent.nonce != intentNonces[intent.sender]) revert InvalidNonce();
+        if (relayerFee > intent.maxRelayerFee || relayerFee >= intent.amount) {
+            revert RelayerFeeTooHigh();
+        }
 
+        bytes32 digest = _hashTypedDataV4(keccak256(abi.encode(
+            BRIDGE_INTENT_TYPEHASH,
+            intent.sender,
+            intent.token,
+            intent.amount,
+            keccak256(bytes(intent.tonRecipient)),
+            intent.maxRelayerFee,
+            intent.nonce,
+            intent.deadline
+        )));
+        if (!SignatureChecker.isValidSignatureNow(intent.sender, digest, signature)) {
+            revert InvalidSignature();
+        }
+        intentNonces[intent.sender]++;
+
+        if (permit.deadline != 0) {
+            _applyPermit(intent.token, intent.sender, intent.amount, permit);
+        }
+        emit IntentExecuted(intent.sender, intent.nonce, msg.sender, relayerFee);
+        _bridgeToTON(intent.sender, intent.tonRecipient, intent.token, intent.amount, relayerFee);
+    }
+
+    /// @dev A failing permit is fine as long as the allowance is already there.
+    function _applyPermit(
+        address token,
+        address owner,
+        uint256 amount,
+        PermitSignature memory permit
+    ) internal {
+        try IERC20Permit(token).permit(
+            owner, address(this), amount, permit.deadline, permit.v, permit.r, permit.s
+        ) {
+        } catch {
+            if (IERC20(token).allowance(owner, address(this)) < amount) {
+                revert PermitFailed();
+            }
+        }
+    }
+
+    /// @dev Pull `amount` from `from`; returns what the bridge received.
+    function _collect(address from, address token, uint256 amount) internal returns (uint256) {
         if (token == address(0)) {
             require(msg.value == amount, "Incorrect ETH amount");
-        } else {
-            IERC20(token).safeTransferFrom(msg.sender, address(this), amount);
+            return amount;
         }
 
+        uint256 balanceBefore = IERC20(token).balanceOf(address(this));
+        IERC20(token).safeTransferFrom(from, address(this), amount);
+        return IERC20(token).balanceOf(address(this)) - balanceBefore;
+    }
+
+    /// @dev Validate, pull `amount` from `sender`, pay `relayerFee` of it to
+    ///      the caller and record the rest as a transfer to TON.
+    function _bridgeToTON(
+        address sender,
+        string calldata tonRecipient,
+        address token,
+        uint256 amount,
+        uint256 relayerFee
+    ) internal {
+        if (!config.enabled) revert BridgeDisabled();
+        if (rebasingTokens[token]) revert RebasingTokenUnsupported(token);
+        TokenConfig memory tokenConfig = tokenConfigs[token];
+        if (!tokenConfig.enabled) revert UnsupportedToken();
+        if (amount < tokenConfig.minAmount) revert InsufficientAmount();
+        if (amount > tokenConfig.maxAmount) revert ExceedsMaxAmount();
+
+        // Fee-on-transfer tokens deliver less than `amount`; fees and the
+        // recorded transfer are based on what actually arrived.
+        uint256 received = _collect(sender, token, amount);
+        if (received <= relayerFee) revert InsufficientAmount();
+        uint256 bridged = received - relayerFee;
+        if (relayerFee > 0) {
+            IERC20(token).safeTransfer(msg.sender, relayerFee);
+        }
+
+        uint256 fee = (bridged * tokenConfig.feeBasisPoints) / 10000;
+        uint256 netAmount = bridged - fee;
+
+        lockedLiquidity[token] += netAmount;
+        accruedFees[token] += fee;
+
         bytes32 transferId = keccak256(
-            abi.encodePacked(msg.sender, token, amount, tonRecipient, transferNonce++)
+            abi.encodePacked(sender, token, amount, tonRecipient, transferNonce++)
         );
 
         transfers[transferId] = Transfer({
-            sender: msg.sender,
+            sender: sender,
             token: token,
             amount: netAmount,
             tonRecipient: tonRecipient,
             timestamp: block.timestamp,
             confirmations: 0,
-            completed: false
+            completed: false,
+            fee: fee,
+            refunded: false,
+            tonTxHash: bytes32(0),
+            tonLt: 0
         });
 
-        emit BridgeInitiated(transferId, msg.sender, token, netAmount, tonRecipient, fee);
+        emit BridgeInitiated(transferId, sender, token, netAmount, tonRecipient, fee);
+    }
+
+    /**
+     * @notice Confirm that the TON payout for `transferId` was made in the TON
+     *         transaction `tonTxHash` at logical time `tonLt`.
+     * @dev The first confirmation fixes the payout; later relayers must attest
+     *      to the same one. A confirmation that would complete the transfer
+     *      beyond the outbound cap is not counted; it trips the circuit
+     *      breaker instead and can be repeated once an admin has reset it.
+     *      The payout is still recorded, so the transfer cannot be refunded.
+     */
+    function confirmTransfer(
+        bytes32 transferId,
+        bytes32 tonTxHash,
+        uint64 tonLt
+    ) external onlyRole(RELAYER_ROLE) whenNotPaused {
+        Transfer storage transfer = _confirmableTransfer(transferId, tonTxHash, tonLt);
+        if (hasConfirmed[transferId][msg.sender]) revert AlreadyConfirmed();
+
+        if (!_reserveOutbound(transfer, transfer.confirmations + 1, tonTxHash, tonLt)) return;
+        _recordConfirmation(transferId, msg.sender, tonTxHash, tonLt);
+    }
+
+    /**
+     * @notice Confirm many transfers in one transaction.
+     * @dev Transfers that are completed, refunded or already confirmed by the
+     *      caller are skipped rather than reverting the batch. If a
+     *      confirmation trips the circuit breaker the rest of the batch is left
+     *      unconfirmed. Returns the number of confirmations recorded.
+     */
+    function confirmTransfers(
+        TransferConfirmation[] calldata batch
+    ) external onlyRole(RELAYER_ROLE) whenNotPaused returns (uint256 confirmed) {
+        for (uint256 i = 0; i < batch.length; i++) {
+            TransferConfirmation calldata c = batch[i];
+            Transfer storage transfer = transfers[c.transferId];
+            if (transfer.completed || transfer.refunded || hasConfirmed[c.transferId][msg.sender]) {
+                continue;
+            }
+            _confirmableTransfer(c.transferId, c.tonTxHash, c.tonLt);
+
+            if (!_reserveOutbound(transfer, transfer.confirmations + 1, c.tonTxHash, c.tonLt)) {
+                return confirmed;
+            }
+            _recordConfirmation(c.transferId, msg.sender, c.tonTxHash, c.tonLt);
+            confirmed++;
+        }
+    }
+
+    /**
+     * @notice Confirm a transfer with TransferAttestations that relayers
+     *         signed off-chain, so a single transaction reaches the threshold.
+     * @dev Anyone may submit. Signatures must come from RELAYER_ROLE accounts
+     *      in ascending signer order, which also rules out duplicates; signers
+     *      that already confirmed on-chain are not counted twice.
+     */
+    function confirmTransferWithSignatures(
+        bytes32 transferId,
+        bytes32 tonTxHash,
+        uint64 tonLt,
+        bytes[] calldata signatures
+    ) external whenNotPaused {
+        Transfer storage transfer = _confirmableTransfer(transferId, tonTxHash, tonLt);
+        bytes32 digest = _hashTypedDataV4(keccak256(abi.encode(
+            TRANSFER_ATTESTATION_TYPEHASH,
+            transferId,
+            tonTxHash,
+            tonLt
+        )));
+
+        address[] memory signers = new address[](signatures.length);
+        uint256 newSigners;
+        address lastSigner;
+        for (uint256 i = 0; i < signatures.length; i++) {
+            address signer = ECDSA.recover(digest, signatures[i]);
+            if (signer <= lastSigner) revert InvalidSignerOrder();
+            if (!hasRole(RELAYER_ROLE, signer)) revert InvalidSignature();
+            lastSigner = signer;
+            if (!hasConfirmed[transferId][signer]) signers[newSigners++] = signer;
+        }
+
+        uint256 confirmations = transfer.confirmations + newSigners;
+        if (confirmations < config.relayerThreshold) revert InsufficientSignatures();
+
+        if (!_reserveOutbound(transfer, confirmations, tonTxHash, tonLt)) return;
+        for (uint256 i = 0; i < newSigners; i++) {
+            _recordConfirmation(transferId, signers[i], tonTxHash, tonLt);
+        }
     }
 
-    function confirmTransfer(bytes32 transferId) external onlyRole(RELAYER_ROLE) {
+    /**
+     * @notice Return an expired transfer that was never paid out to its sender.
+     * @dev Available `transferExpiry` seconds after the transfer was made, as
+     *      long as no relayer has confirmed a TON payout for it and the bridge
+     *      is not paused. The fee is returned too when `refundFees` is set, as
+     *      far as it has not been withdrawn.
+     */
+    function refund(bytes32 transferId) external nonReentrant {
         Transfer storage transfer = transfers[transferId];
         if (transfer.timestamp == 0) revert TransferNotFound();
+        if (msg.sender != transfer.sender) revert NotTransferSender();
         if (transfer.completed) revert AlreadyCompleted();
-        if (hasConfirmed[transferId][msg.sender]) revert AlreadyConfirmed();
+        if (transfer.refunded) revert AlreadyRefunded();
+        if (!isRefundable(transferId)) revert RefundNotAvailable();
 
-        hasConfirmed[transferId][msg.sender] = true;
-        transfer.confirmations++;
+        transfer.refunded = true;
+        lockedLiquidity[transfer.token] -= transfer.amount;
 
-        emit BridgeConfirmed(transferId, msg.sender);
+        uint256 amount = transfer.amount;
+        if (refundFees) {
+            uint256 fee = transfer.fee < accruedFees[transfer.token]
+                ? transfer.fee
+                : accruedFees[transfer.token];
+            accruedFees[transfer.token] -= fee;
+            amount += fee;
+        }
+        _send(transfer.token, transfer.sender, amount);
 
-        if (transfer.confirmations >= config.relayerThreshold) {
-            transfer.completed = true;
-            emit BridgeCompleted(transferId);
+        emit BridgeRefunded(transferId, transfer.sender, transfer.token, amount);
+    }
+
+    /**
+     * @notice Confirm a TON deposit that releases locked POL/ERC-20 on Polygon.
+     * @dev The first confirmation fixes the release parameters; later relayers
+     *      must confirm the same ones. Assets move once `relayerThreshold`
+     *      relayers have confirmed, and a TON transaction is released at most once.
+     *      Like confirmTransfer, a confirmation that would execute the release
+     *      beyond the inbound cap trips the circuit breaker and is not recorded.
+     */
+    function confirmRelease(
+        bytes32 tonTxHash,
+        address token,
+        address recipient,
+        uint256 amount
+    ) external onlyRole(RELAYER_ROLE) whenNotPaused nonReentrant {
+        if (tonTxHash == bytes32(0) || recipient == address(0) || amount == 0) {
+            revert InvalidRelease();
+        }
+
+        Release storage release = releases[tonTxHash];
+        if (release.executed) revert AlreadyReleased();
+        if (hasConfirmedRelease[tonTxHash][msg.sender]) revert AlreadyConfirmed();
+
+        if (
+            release.confirmations > 0 &&
+            (release.token != token || release.recipient != recipient || release.amount != amount)
+        ) {
+            revert ReleaseMismatch();
+        }
+
+        bool executes = release.confirmations + 1 >= config.relayerThreshold;
+        if (executes) {
+            if (amount > lockedLiquidity[token]) revert InsufficientLiquidity();
+            if (!_consumeVolume(inboundLimits[token], amount)) {
+                _tripCircuitBreaker(token, false, amount);
+                return;
+            }
+        }
+
+        if (release.confirmations == 0) {
+            release.token = token;
+            release.recipient = recipient;
+            release.amount = amount;
+        }
+
+        hasConfirmedRelease[tonTxHash][msg.sender] = true;
+        release.confirmations++;
+
+        emit ReleaseConfirmed(tonTxHash, msg.sender);
+
+        if (executes) {
+            release.executed = true;
+            lockedLiquidity[token] -= amount;
+
+            _send(token, recipient, amount);
+
+            emit ReleaseExecuted(tonTxHash, token, recipient, amount);
         }
     }
 
+    /**
+     * @notice Withdraw accrued fees. Only `accruedFees` can leave this way,
+     *         never the principal backing transfers and releases.
+     * @param to Recipient; address(0) sends to the treasury.
+     */
+    function withdrawFees(
+        address token,
+        address to,
+        uint256 amount
+    ) external onlyRole(FEE_MANAGER_ROLE) nonReentrant {
+        if (to == address(0)) to = treasury;
+        if (to == address(0)) revert InvalidRecipient();
+        if (amount > accruedFees[token]) revert InsufficientFees();
+
+        accruedFees[token] -= amount;
+        _send(token, to, amount);
+
+        emit FeesWithdrawn(token, to, amount);
+    }
+
+    function addRelayer(address relayer) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _enrollRelayer(relayer);
+    }
+
+    /// @notice Remove a relayer; reverts if fewer than `relayerThreshold` would remain.
+    function removeRelayer(address relayer) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (relayerIndex[relayer] == 0) revert RelayerNotFound();
+        _revokeRole(RELAYER_ROLE, relayer);
+    }
+
+    /// @notice Replace `oldRelayer` with `newRelayer` without changing the count.
+    function rotateRelayer(address oldRelayer, address newRelayer) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (relayerIndex[oldRelayer] == 0) revert RelayerNotFound();
+        _enrollRelayer(newRelayer);
+        _revokeRole(RELAYER_ROLE, oldRelayer);
+    }
+
+    function setTreasury(address newTreasury) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        emit TreasuryUpdated(treasury, newTreasury);
+        treasury = newTreasury;
+    }
+
+    /// @notice Replace the global config; its limits and fee become the native
+    ///         POL token config. Requires min <= max, a fee within
+    ///         MAX_FEE_BASIS_POINTS that moves by at most
+    ///         MAX_FEE_CHANGE_BASIS_POINTS, and a threshold in [1, relayer count].
     function updateConfig(BridgeConfig calldata newConfig) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _checkThreshold(newConfig.relayerThreshold);
+        TokenConfig memory pol = tokenConfigs[address(0)];
+        pol.minAmount = newConfig.minBridgeAmount;
+        pol.maxAmount = newConfig.maxBridgeAmount;
+        pol.feeBasisPoints = newConfig.feeBasisPoints;
+        pol.decimals = 18;
+        _setTokenConfig(address(0), pol);
+
         config = newConfig;
         emit ConfigUpdated(newConfig);
     }
 
+    function setTokenConfig(
+        address token,
+        TokenConfig calldata newConfig
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _setTokenConfig(token, newConfig);
+    }
+
+    /// @notice Enable or disable a token that already has a configuration.
     function setSupportedToken(address token, bool supported) external onlyRole(DEFAULT_ADMIN_ROLE) {
-        supportedTokens[token] = supported;
-        emit TokenSupported(token, supported);
+        if (!isConfiguredToken[token]) revert TokenNotConfigured();
+        TokenConfig memory tokenConfig = tokenConfigs[token];
+
+        tokenConfig.enabled = supported;
+        _setTokenConfig(token, tokenConfig);
+    }
+
+    /// @notice Mark a token as rebasing; marked tokens are disabled and
+    ///         bridging them reverts with RebasingTokenUnsupported.
+    function setRebasingToken(address token, bool rebasing) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        rebasingTokens[token] = rebasing;
+        emit RebasingTokenMarked(token, rebasing);
+
+        if (rebasing && tokenConfigs[token].enabled) {
+            TokenConfig memory tokenConfig = tokenConfigs[token];
+            tokenConfig.enabled = false;
+            _setTokenConfig(token, tokenConfig);
+        }
+    }
+
+    function supportedTokens(address token) external view returns (bool) {
+        return tokenConfigs[token].enabled;
+    }
+
+    function getTokenConfig(address token) external view returns (TokenConfig memory) {
+        return tokenConfigs[token];
+    }
+
+    /// @notice Every token that has ever been configured, enabled or not.
+    function getConfiguredTokens() external view returns (address[] memory) {
+        return configuredTokens;
+    }
+
+    /// @notice Every account currently holding RELAYER_ROLE, in no particular order.
+    function getRelayers() external view returns (address[] memory) {
+        return relayers;
+    }
+
+    function relayerCount() external view returns (uint256) {
+        return relayers.length;
     }
 
     function pause() external onlyRole(PAUSER_ROLE) {
@@ -163,12 +763,283 @@ contract PolygonBridge is
     }
 
     function unpause() external onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (circuitBreakerTripped) revert CircuitBreakerActive();
         _unpause();
     }
 
+    /// @notice Set how long a transfer may stay unconfirmed before its sender
+    ///         can refund it (0 disables refunds).
+    function setRefundPolicy(uint256 expiry, bool includeFee) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        transferExpiry = expiry;
+        refundFees = includeFee;
+        emit RefundPolicyUpdated(expiry, includeFee);
+    }
+
+    /// @notice Set rolling 24h volume caps for a token (0 = unlimited).
+    function setVolumeCaps(
+        address token,
+        uint256 outboundCap,
+        uint256 inboundCap
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        outboundLimits[token].cap = outboundCap;
+        inboundLimits[token].cap = inboundCap;
+        emit VolumeCapsUpdated(token, outboundCap, inboundCap);
+    }
+
+    /// @notice Clear a tripped circuit breaker: forget the volume used in the
+    ///         current window for every token and unpause.
+    function resetCircuitBreaker() external onlyRole(DEFAULT_ADMIN_ROLE) {
+        for (uint256 i = 0; i < configuredTokens.length; i++) {
+            address token = configuredTokens[i];
+            outboundLimits[token].used = 0;
+            inboundLimits[token].used = 0;
+        }
+        circuitBreakerTripped = false;
+        if (paused()) _unpause();
+
+        emit CircuitBreakerReset(msg.sender);
+    }
+
+    /// @notice Outbound (Polygon -> TON) volume still available in the window.
+    function remainingOutboundCapacity(address token) external view returns (uint256) {
+        return _remainingCapacity(outboundLimits[token]);
+    }
+
+    /// @notice Inbound (TON -> Polygon) volume still available in the window.
+    function remainingInboundCapacity(address token) external view returns (uint256) {
+        return _remainingCapacity(inboundLimits[token]);
+    }
+
     function getTransfer(bytes32 transferId) external view returns (Transfer memory) {
         return transfers[transferId];
     }
 
+    /// @notice Whether `transferId` is past its expiry and still refundable.
+    /// @dev A transfer with a recorded TON payout or any confirmation has been
+    ///      paid out on TON and is never refundable. Nothing is refundable
+    ///      while the bridge is paused: confirmations are held then, so a
+    ///      transfer already paid on TON may not be recorded yet.
+    function isRefundable(bytes32 transferId) public view returns (bool) {
+        Transfer storage transfer = transfers[transferId];
+        return
+            !paused() &&
+            transferExpiry != 0 &&
+            transfer.timestamp != 0 &&
+            !transfer.completed &&
+            !transfer.refunded &&
+            transfer.confirmations == 0 &&
+            transfer.tonTxHash == bytes32(0) &&
+            block.timestamp >= transfer.timestamp + transferExpiry;
+    }
+
+    function getRelease(bytes32 tonTxHash) external view returns (Release memory) {
+        return releases[tonTxHash];
+    }
+
+    /// @dev The transfer, if it can still be confirmed with this TON payout.
+    function _confirmableTransfer(
+        bytes32 transferId,
+        bytes32 tonTxHash,
+        uint64 tonLt
+    ) internal view returns (Transfer storage transfer) {
+        transfer = transfers[transferId];
+        if (transfer.timestamp == 0) revert TransferNotFound();
+        if (transfer.completed) revert AlreadyCompleted();
+        if (transfer.refunded) revert AlreadyRefunded();
+        if (tonTxHash == bytes32(0)) revert InvalidTonPayout();
+        if (
+            transfer.tonTxHash != bytes32(0) &&
+            (transfer.tonTxHash != tonTxHash || transfer.tonLt != tonLt)
+        ) {
+            revert PayoutMismatch();
+        }
+    }
+
+    /// @dev False, after tripping the circuit breaker, if reaching
+    ///      `confirmations` would complete the transfer beyond the outbound cap.
+    ///      The TON payout is recorded either way: it has been made, so the
+    ///      transfer must not become refundable while the breaker is tripped.
+    function _reserveOutbound(
+        Transfer storage transfer,
+        uint256 confirmations,
+        bytes32 tonTxHash,
+        uint64 tonLt
+    ) internal returns (bool) {
+        if (confirmations < config.relayerThreshold) return true;
+        if (_consumeVolume(outboundLimits[transfer.token], transfer.amount)) return true;
+        if (transfer.tonTxHash == bytes32(0)) {
+            transfer.tonTxHash = tonTxHash;
+            transfer.tonLt = tonLt;
+        }
+        _tripCircuitBreaker(transfer.token, true, transfer.amount);
+        return false;
+    }
+
+    function _recordConfirmation(
+        bytes32 transferId,
+        address relayer,
+        bytes32 tonTxHash,
+        uint64 tonLt
+    ) internal {
+        Transfer storage transfer = transfers[transferId];
+        if (transfer.tonTxHash == bytes32(0)) {
+            transfer.tonTxHash = tonTxHash;
+            transfer.tonLt = tonLt;
+        }
+        hasConfirmed[transferId][relayer] = true;
+        transfer.confirmations++;
+
+        emit BridgeConfirmed(transferId, relayer, tonTxHash, tonLt);
+
+        if (!transfer.completed && transfer.confirmations >= config.relayerThreshold) {
+            transfer.completed = true;
+            emit BridgeCompleted(transferId, tonTxHash, tonLt);
+        }
+    }
+
+    /// @dev The old implementation applied `config` to every token and kept
+    ///      fees in the principal, so all of the balance counts as locked.
+    function _migrateToken(address token, uint8 decimals, bool enabled) internal {
+        if (!isConfiguredToken[token]) {
+            _setTokenConfig(token, TokenConfig({
+                minAmount: config.minBridgeAmount,
+                maxAmount: config.maxBridgeAmount,
+                feeBasisPoints: config.feeBasisPoints,
+                decimals: decimals,
+                enabled: enabled
+            }));
+        }
+        if (lockedLiquidity[token] == 0) {
+            uint256 balance = token == address(0)
+                ? address(this).balance
+                : IERC20(token).balanceOf(address(this));
+            lockedLiquidity[token] = balance - accruedFees[token];
+        }
+    }
+
+    /// @dev Token configs follow the same rules as updateConfig; a token's
+    ///      first config is only held to the fee cap.
+    function _setTokenConfig(address token, TokenConfig memory newConfig) internal {
+        if (newConfig.enabled && rebasingTokens[token]) revert RebasingTokenUnsupported(token);
+        _checkLimits(newConfig.minAmount, newConfig.maxAmount, newConfig.feeBasisPoints);
+        if (isConfiguredToken[token]) {
+            _checkFeeChange(tokenConfigs[token].feeBasisPoints, newConfig.feeBasisPoints);
+        } else {
+            isConfiguredToken[token] = true;
+            configuredTokens.push(token);
+        }
+        bool wasEnabled = tokenConfigs[token].enabled;
+        tokenConfigs[token] = newConfig;
+        if (token == address(0)) {
+            config.minBridgeAmount = newConfig.minAmount;
+            config.maxBridgeAmount = newConfig.maxAmount;
+            config.feeBasisPoints = newConfig.feeBasisPoints;
+        }
+
+        emit TokenConfigUpdated(token, newConfig);
+        if (wasEnabled != newConfig.enabled) {
+            emit TokenSupported(token, newConfig.enabled);
+        }
+    }
+
+    function _checkLimits(uint256 minAmount, uint256 maxAmount, uint256 feeBasisPoints) internal pure {
+        if (minAmount > maxAmount) revert InvalidAmountRange();
+        if (feeBasisPoints > MAX_FEE_BASIS_POINTS) revert FeeTooHigh();
+    }
+
+    function _checkThreshold(uint256 threshold) internal view {
+        if (threshold == 0 || threshold > relayers.length) revert InvalidThreshold();
+    }
+
+    function _checkFeeChange(uint256 oldFee, uint256 newFee) internal pure {
+        uint256 change = newFee > oldFee ? newFee - oldFee : oldFee - newFee;
+        if (change > MAX_FEE_CHANGE_BASIS_POINTS) revert FeeChangeTooLarge();
+    }
+
+    /// @dev Fixed domain rather than the initializer-set one, so proxies
+    ///      initialized before intents existed sign the same domain.
+    function _EIP712Name() internal pure override returns (string memory) {
+        return "PolygonBridge";
+    }
+
+    function _EIP712Version() internal pure override returns (string memory) {
+        return "1";
+    }
+
+    function _currentUsage(VolumeLimit memory limit) internal view returns (uint256) {
+        uint256 decayed = ((block.timestamp - limit.updatedAt) * limit.cap) / VOLUME_WINDOW;
+        return decayed >= limit.used ? 0 : limit.used - decayed;
+    }
+
+    function _remainingCapacity(VolumeLimit memory limit) internal view returns (uint256) {
+        if (limit.cap == 0) return type(uint256).max;
+        uint256 used = _currentUsage(limit);
+        return used >= limit.cap ? 0 : limit.cap - used;
+    }
+
+    /// @dev Returns false, without consuming anything, if `amount` exceeds the cap.
+    function _consumeVolume(VolumeLimit storage limit, uint256 amount) internal returns (bool) {
+        if (limit.cap == 0) return true;
+
+        uint256 used = _currentUsage(limit);
+        if (used + amount > limit.cap) return false;
+
+        limit.used = used + amount;
+        limit.updatedAt = block.timestamp;
+        return true;
+    }
+
+    function _tripCircuitBreaker(address token, bool outbound, uint256 amount) internal {
+        circuitBreakerTripped = true;
+        _pause();
+        emit CircuitBreakerTripped(token, outbound, amount);
+    }
+
+    function _send(address token, address to, uint256 amount) internal {
+        if (token == address(0)) {
+            (bool sent, ) = to.call{value: amount}("");
+            require(sent, "POL transfer failed");
+        } else {
+            IERC20(token).safeTransfer(to, amount);
+        }
+    }
+
+    function _grantRole(bytes32 role, address account) internal override returns (bool granted) {
+        granted = super._grantRole(role, account);
+        if (granted && role == RELAYER_ROLE) _addRelayer(account);
+    }
+
+    /// @dev Any way a relayer loses the role (revoke, renounce, removal,
+    ///      rotation) must leave at least `relayerThreshold` relayers.
+    function _revokeRole(bytes32 role, address account) internal override returns (bool revoked) {
+        revoked = super._revokeRole(role, account);
+        if (role != RELAYER_ROLE || relayerIndex[account] == 0) return revoked;
+
+        uint256 index = relayerIndex[account] - 1;
+        address last = relayers[relayers.length - 1];
+        relayers[index] = last;
+        relayerIndex[last] = index + 1;
+        relayers.pop();
+        delete relayerIndex[account];
+
+        if (relayers.length < config.relayerThreshold) revert InvalidThreshold();
+        emit RelayerRemoved(account);
+    }
+
+    function _enrollRelayer(address relayer) internal {
+        if (relayer == address(0)) revert InvalidRecipient();
+        if (relayerIndex[relayer] != 0) revert RelayerExists();
+        // Also enrolls accounts that held the role before the set existed.
+        _grantRole(RELAYER_ROLE, relayer);
+        _addRelayer(relayer);
+    }
+
+    function _addRelayer(address relayer) internal {
+        if (relayerIndex[relayer] != 0) return;
+        relayers.push(relayer);
+        relayerIndex[relayer] = relayers.length;
+        emit RelayerAdded(relayer);
+    }
+
     function _authorizeUpgrade(address newImplementation) internal override onlyRole(DEFAULT_ADMIN_ROLE) {}
 }
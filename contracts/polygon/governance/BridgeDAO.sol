@@ -21,35 +21,38 @@ contract BridgeDAO is
     GovernorTimelockControlUpgradeable,
     UUPSUpgradeable
 {
+    /// @dev Bootstrap key that may upgrade the DAO alongside governance until
+    ///      it renounces (or hands over) the role. Zero once renounced.
     address private _admin;
+    address private _pendingAdmin;
+
+    event AdminTransferStarted(address indexed previousAdmin, address indexed newAdmin);
+    event AdminTransferred(address indexed previousAdmin, address indexed newAdmin);
 
     /// @custom:oz-upgrades-unsafe-allow constructor
     constructor() {
         _disableInitializers();
     }
 
+    /**
+     * @param _token   IVotes token whose delegated balances are the voting power.
+     * @param _timelock Separately deployed timelock (see BridgeTimelock) that
+     *                 executes passed proposals; the DAO must be granted its
+     *                 PROPOSER_ROLE.
+     */
     function initialize(
-        address _bridge,
-        address _token
+        IVotes _token,
+        TimelockControllerUpgradeable _timelock
     ) external initializer {
         __Governor_init("BridgeDAO");
         __GovernorSettings_init(1, 50400, 0);
         __GovernorCountingSimple_init();
-        __GovernorVotes_init(IVotes(_token));
+        __GovernorVotes_init(_token);
         __GovernorVotesQuorumFraction_init(4);
+        __GovernorTimelockControl_init(_timelock);
         __UUPSUpgradeable_init();
 
-        _admin = msg.sender;
-
-        address[] memory proposers = new address[](1);
-        address[] memory executors = new address[](1);
-        proposers[0] = address(this);
-        executors[0] = address(0);
-
-        TimelockControllerUpgradeable timelock = new TimelockControllerUpgradeable();
-        timelock.initialize(2 days, proposers, executors, address(this));
-        
-        __GovernorTimelockControl_init(timelock);
+        _setAdmin(msg.sender);
     }
 
     function votingDelay() public view override(GovernorUpgradeable, GovernorSettingsUpgradeable) returns (uint256) {
@@ -109,7 +112,50 @@ contract BridgeDAO is
         return super._executor();
     }
 
-    function _authorizeUpgrade(address newImplementation) internal override {
+    function admin() external view returns (address) {
+        return _admin;
+    }
+
+    function pendingAdmin() external view returns (address) {
+        return _pendingAdmin;
+    }
+
+    /// @notice Start handing the admin role to `newAdmin`, who must call
+    ///         acceptAdmin. Passing address(0) cancels a pending handover.
+    function transferAdmin(address newAdmin) external {
+        require(msg.sender == _admin, "Only admin");
+        _pendingAdmin = newAdmin;
+        emit AdminTransferStarted(_admin, newAdmin);
+    }
+
+    function acceptAdmin() external {
+        require(msg.sender == _pendingAdmin, "Only pending admin");
+        _setAdmin(msg.sender);
+    }
+
+    /// @notice Give up the admin role for good. Afterwards the DAO can only be
+    ///         upgraded by a proposal executed through the timelock.
+    function renounceAdmin() external {
         require(msg.sender == _admin, "Only admin");
+        _setAdmin(address(0));
+    }
+
+    /// @notice Governance can strip the admin role without its cooperation.
+    function revokeAdmin() external onlyGovernance {
+        _setAdmin(address(0));
+    }
+
+    function _setAdmin(address newAdmin) private {
+        address previousAdmin = _admin;
+        _admin = newAdmin;
+        delete _pendingAdmin;
+        emit AdminTransferred(previousAdmin, newAdmin);
+    }
+
+    /// @dev Upgrades come from the timelock executing a passed proposal, or
+    ///      from the admin while one is still set.
+    function _authorizeUpgrade(address) internal override {
+        if (msg.sender == _admin) return;
+        _checkGovernance();
     }
 }
@@ -0,0 +1,33 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import "@openzeppelin/contracts-upgradeable/governance/TimelockControllerUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+
+/**
+ * @title BridgeTimelock
+ * @notice Timelock that holds DEFAULT_ADMIN_ROLE on PolygonBridge and
+ *         WrappedTON once governance is in place. BridgeDAO is its proposer;
+ *         queued operations can be executed by anyone after the delay.
+ */
+contract BridgeTimelock is Initializable, TimelockControllerUpgradeable, UUPSUpgradeable {
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    function initialize(
+        uint256 minDelay,
+        address[] memory proposers,
+        address[] memory executors,
+        address admin
+    ) public override initializer {
+        __TimelockController_init(minDelay, proposers, executors, admin);
+        __UUPSUpgradeable_init();
+    }
+
+    /// @dev The timelock administers itself, so only a passed proposal can
+    ///      upgrade it.
+    function _authorizeUpgrade(address newImplementation) internal override onlyRole(DEFAULT_ADMIN_ROLE) {}
+}
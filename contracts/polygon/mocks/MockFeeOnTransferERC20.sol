@@ -0,0 +1,28 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/// @dev Test-only deflationary ERC-20: every transfer burns `feeBasisPoints`
+///      of the amount, so recipients get less than was sent.
+contract MockFeeOnTransferERC20 is ERC20 {
+    uint256 public immutable feeBasisPoints;
+
+    constructor(string memory name, string memory symbol, uint256 feeBasisPoints_) ERC20(name, symbol) {
+        feeBasisPoints = feeBasisPoints_;
+    }
+
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+
+    function _update(address from, address to, uint256 value) internal override {
+        if (from == address(0) || to == address(0)) {
+            super._update(from, to, value);
+            return;
+        }
+        uint256 fee = (value * feeBasisPoints) / 10000;
+        super._update(from, address(0), fee);
+        super._update(from, to, value - fee);
+    }
+}
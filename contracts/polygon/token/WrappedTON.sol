@@ -20,6 +20,7 @@ contract WrappedTON is
     bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
 
     address public bridge;
+    mapping(bytes32 => bool) public processedTonTx;
 
     event BridgeUpdated(address indexed oldBridge, address indexed newBridge);
     event TokensMinted(address indexed to, uint256 amount, bytes32 tonTxHash);
@@ -55,7 +56,10 @@ contract WrappedTON is
     ) external onlyRole(MINTER_ROLE) {
         require(to != address(0), "Invalid recipient");
         require(amount > 0, "Invalid amount");
+        require(tonTxHash != bytes32(0), "Invalid TON tx");
+        require(!processedTonTx[tonTxHash], "TON tx already minted");
 
+        processedTonTx[tonTxHash] = true;
         _mint(to, amount);
         emit TokensMinted(to, amount, tonTxHash);
     }
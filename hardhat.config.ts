@@ -3,6 +3,11 @@ import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
 import "@openzeppelin/hardhat-upgrades";
 import "dotenv/config";
+import { createRequire } from "module";
+
+// Local task modules are loaded through require so ts-node compiles them.
+const require = createRequire(import.meta.url);
+require("./tasks/governance");
 
 const PRIVATE_KEY = process.env.PRIVATE_KEY ?? "";
 const ETHERSCAN_API_KEY = process.env.ETHERSCAN_API_KEY ?? process.env.POLYGONSCAN_API_KEY ?? "";
@@ -18,6 +23,10 @@ const config: HardhatUserConfig = {
       evmVersion: "cancun",
     },
   },
+  // Tests live in tests/, not hardhat's default test/.
+  paths: {
+    tests: "./tests",
+  },
   networks: {
     hardhat: {
       chainId: 31337,
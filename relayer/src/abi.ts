@@ -6,28 +6,110 @@
 export const POLYGON_BRIDGE_ABI = [
     // Events
     "event BridgeInitiated(bytes32 indexed transferId, address indexed sender, address indexed token, uint256 amount, string tonRecipient, uint256 fee)",
-    "event BridgeConfirmed(bytes32 indexed transferId, address indexed relayer)",
-    "event BridgeCompleted(bytes32 indexed transferId)",
+    "event BridgeConfirmed(bytes32 indexed transferId, address indexed relayer, bytes32 tonTxHash, uint64 tonLt)",
+    "event BridgeCompleted(bytes32 indexed transferId, bytes32 tonTxHash, uint64 tonLt)",
     "event TokenSupported(address indexed token, bool supported)",
+    "event TokenConfigUpdated(address indexed token, (uint256 minAmount,uint256 maxAmount,uint256 feeBasisPoints,uint8 decimals,bool enabled) newConfig)",
+    "event RebasingTokenMarked(address indexed token, bool rebasing)",
+    "event TreasuryUpdated(address indexed oldTreasury, address indexed newTreasury)",
+    "event FeesWithdrawn(address indexed token, address indexed to, uint256 amount)",
+    "event VolumeCapsUpdated(address indexed token, uint256 outboundCap, uint256 inboundCap)",
+    "event CircuitBreakerTripped(address indexed token, bool outbound, uint256 amount)",
+    "event CircuitBreakerReset(address indexed admin)",
+    "event RelayerAdded(address indexed relayer)",
+    "event RelayerRemoved(address indexed relayer)",
+    "event RefundPolicyUpdated(uint256 transferExpiry, bool refundFees)",
+    "event BridgeRefunded(bytes32 indexed transferId, address indexed sender, address indexed token, uint256 amount)",
+    "event IntentExecuted(address indexed sender, uint256 nonce, address indexed submitter, uint256 relayerFee)",
+    "event ReleaseConfirmed(bytes32 indexed tonTxHash, address indexed relayer)",
+    "event ReleaseExecuted(bytes32 indexed tonTxHash, address indexed token, address indexed recipient, uint256 amount)",
     "event ConfigUpdated((uint256 minBridgeAmount,uint256 maxBridgeAmount,uint256 feeBasisPoints,uint256 relayerThreshold,bool enabled) newConfig)",
 
     // Read-only functions
     "function RELAYER_ROLE() view returns (bytes32)",
     "function PAUSER_ROLE() view returns (bytes32)",
+    "function FEE_MANAGER_ROLE() view returns (bytes32)",
+    "function VOLUME_WINDOW() view returns (uint256)",
+    "function MAX_FEE_BASIS_POINTS() view returns (uint256)",
+    "function MAX_FEE_CHANGE_BASIS_POINTS() view returns (uint256)",
+    "function paused() view returns (bool)",
+    "function BRIDGE_INTENT_TYPEHASH() view returns (bytes32)",
+    "function TRANSFER_ATTESTATION_TYPEHASH() view returns (bytes32)",
+    "function intentNonces(address sender) view returns (uint256)",
+    "function eip712Domain() view returns (bytes1 fields, string name, string version, uint256 chainId, address verifyingContract, bytes32 salt, uint256[] extensions)",
+    "function circuitBreakerTripped() view returns (bool)",
+    "function outboundLimits(address token) view returns (uint256 cap,uint256 used,uint256 updatedAt)",
+    "function inboundLimits(address token) view returns (uint256 cap,uint256 used,uint256 updatedAt)",
+    "function remainingOutboundCapacity(address token) view returns (uint256)",
+    "function remainingInboundCapacity(address token) view returns (uint256)",
     "function config() view returns (uint256 minBridgeAmount,uint256 maxBridgeAmount,uint256 feeBasisPoints,uint256 relayerThreshold,bool enabled)",
     "function wrappedTON() view returns (address)",
     "function transferNonce() view returns (uint256)",
     "function supportedTokens(address token) view returns (bool)",
+    "function rebasingTokens(address token) view returns (bool)",
+    "function transferExpiry() view returns (uint256)",
+    "function refundFees() view returns (bool)",
+    "function isRefundable(bytes32 transferId) view returns (bool)",
+    "function tokenConfigs(address token) view returns (uint256 minAmount,uint256 maxAmount,uint256 feeBasisPoints,uint8 decimals,bool enabled)",
+    "function getTokenConfig(address token) view returns (tuple(uint256 minAmount,uint256 maxAmount,uint256 feeBasisPoints,uint8 decimals,bool enabled))",
+    "function getConfiguredTokens() view returns (address[])",
     "function hasConfirmed(bytes32 transferId, address relayer) view returns (bool)",
+    "function hasRole(bytes32 role, address account) view returns (bool)",
+    "function getRelayers() view returns (address[])",
+    "function relayerCount() view returns (uint256)",
+    "function lockedLiquidity(address token) view returns (uint256)",
+    "function accruedFees(address token) view returns (uint256)",
+    "function treasury() view returns (address)",
+    "function hasConfirmedRelease(bytes32 tonTxHash, address relayer) view returns (bool)",
+    "function getRelease(bytes32 tonTxHash) view returns (tuple(address token,address recipient,uint256 amount,uint256 confirmations,bool executed))",
 
     // NOTE: Transfer is a struct; represent it as a tuple.
-    "function getTransfer(bytes32 transferId) view returns (tuple(address sender,address token,uint256 amount,string tonRecipient,uint256 timestamp,uint256 confirmations,bool completed))",
+    "function getTransfer(bytes32 transferId) view returns (tuple(address sender,address token,uint256 amount,string tonRecipient,uint256 timestamp,uint256 confirmations,bool completed,uint256 fee,bool refunded,bytes32 tonTxHash,uint64 tonLt))",
 
     // State-changing functions
     "function bridgeToTON(string tonRecipient, address token, uint256 amount) payable",
-    "function confirmTransfer(bytes32 transferId)",
+    "function bridgeToTONWithPermit(string tonRecipient, address token, uint256 amount, uint256 deadline, uint8 v, bytes32 r, bytes32 s)",
+    "function bridgeWithIntent((address sender,address token,uint256 amount,string tonRecipient,uint256 maxRelayerFee,uint256 nonce,uint256 deadline) intent, bytes signature, uint256 relayerFee, (uint256 deadline,uint8 v,bytes32 r,bytes32 s) permit)",
+    "function confirmTransfer(bytes32 transferId, bytes32 tonTxHash, uint64 tonLt)",
+    "function confirmTransfers((bytes32 transferId,bytes32 tonTxHash,uint64 tonLt)[] batch) returns (uint256 confirmed)",
+    "function confirmTransferWithSignatures(bytes32 transferId, bytes32 tonTxHash, uint64 tonLt, bytes[] signatures)",
+    "function refund(bytes32 transferId)",
+    "function confirmRelease(bytes32 tonTxHash, address token, address recipient, uint256 amount)",
+    "function withdrawFees(address token, address to, uint256 amount)",
+    "function addRelayer(address relayer)",
+    "function removeRelayer(address relayer)",
+    "function rotateRelayer(address oldRelayer, address newRelayer)",
+    "function setTreasury(address newTreasury)",
     "function updateConfig((uint256 minBridgeAmount,uint256 maxBridgeAmount,uint256 feeBasisPoints,uint256 relayerThreshold,bool enabled) newConfig)",
+    "function setTokenConfig(address token, (uint256 minAmount,uint256 maxAmount,uint256 feeBasisPoints,uint8 decimals,bool enabled) newConfig)",
     "function setSupportedToken(address token, bool supported)",
+    "function setRebasingToken(address token, bool rebasing)",
+    "function setRefundPolicy(uint256 expiry, bool includeFee)",
+    "function setVolumeCaps(address token, uint256 outboundCap, uint256 inboundCap)",
+    "function resetCircuitBreaker()",
     "function pause()",
     "function unpause()",
 ];
+
+// Minimal ABI for WrappedTON used by the relayer.
+// Matches contracts/polygon/token/WrappedTON.sol exactly.
+
+export const WRAPPED_TON_ABI = [
+    // Events
+    "event TokensMinted(address indexed to, uint256 amount, bytes32 tonTxHash)",
+    "event TokensBurned(address indexed from, uint256 amount, string tonRecipient)",
+    "event BridgeUpdated(address indexed oldBridge, address indexed newBridge)",
+
+    // Read-only functions
+    "function MINTER_ROLE() view returns (bytes32)",
+    "function hasRole(bytes32 role, address account) view returns (bool)",
+    "function bridge() view returns (address)",
+    "function decimals() view returns (uint8)",
+    "function balanceOf(address account) view returns (uint256)",
+    "function processedTonTx(bytes32 tonTxHash) view returns (bool)",
+
+    // State-changing functions
+    "function mint(address to, uint256 amount, bytes32 tonTxHash)",
+    "function burnForBridge(uint256 amount, string tonRecipient)",
+];
+
@@ -0,0 +1,148 @@
+// relayer/src/attestations.ts
+import fs from "fs";
+import path from "path";
+import { ethers } from "ethers";
+
+// Off-chain relayer attestations for PolygonBridge.confirmTransferWithSignatures.
+// Only a transfer's designated payer (see payer.ts) pays it on TON. It signs
+// an EIP-712 TransferAttestation for its payout and drops it in a directory
+// shared by all relayers (a mounted volume, a synced folder, ...). The others
+// verify the payer's payout on TON and add their own signature; once the
+// threshold is reached the payer submits every signature in one transaction.
+//
+//   <dir>/<transferId>/<signer>.json
+
+export const TRANSFER_ATTESTATION_TYPES = {
+    TransferAttestation: [
+        { name: "transferId", type: "bytes32" },
+        { name: "tonTxHash", type: "bytes32" },
+        { name: "tonLt", type: "uint64" },
+    ],
+};
+
+/** The TON payout a transfer was paid with. */
+export interface TransferPayout {
+    transferId: string;
+    // 0x-prefixed hash of the paying wallet's TON transaction.
+    tonTxHash: string;
+    tonLt: string;
+    // TON wallet that made the payout, so peers can look the transaction up.
+    payoutWallet: string;
+}
+
+export interface TransferAttestation extends TransferPayout {
+    signer: string;
+    signature: string;
+}
+
+async function attestationDomain(
+    bridge: ethers.Contract
+): Promise<ethers.TypedDataDomain> {
+    const domain = await bridge.eip712Domain();
+    return {
+        name: domain.name,
+        version: domain.version,
+        chainId: domain.chainId,
+        verifyingContract: domain.verifyingContract,
+    };
+}
+
+function attestationMessage(payout: TransferPayout) {
+    return {
+        transferId: payout.transferId,
+        tonTxHash: payout.tonTxHash,
+        tonLt: BigInt(payout.tonLt),
+    };
+}
+
+export async function signTransferAttestation(
+    signer: ethers.Signer,
+    bridge: ethers.Contract,
+    payout: TransferPayout
+): Promise<TransferAttestation> {
+    const signature = await signer.signTypedData(
+        await attestationDomain(bridge),
+        TRANSFER_ATTESTATION_TYPES,
+        attestationMessage(payout)
+    );
+    return { ...payout, signer: await signer.getAddress(), signature };
+}
+
+/**
+ * Signatures for confirmTransferWithSignatures, ordered by signer: only
+ * attestations of this exact payout, correctly signed by relayers that have
+ * not confirmed the transfer on-chain yet.
+ */
+export async function collectSignatures(
+    bridge: ethers.Contract,
+    attestations: TransferAttestation[],
+    payout: TransferPayout
+): Promise<string[]> {
+    const domain = await attestationDomain(bridge);
+    const relayerRole = await bridge.RELAYER_ROLE();
+    const bySigner = new Map<string, string>();
+
+    for (const a of attestations) {
+        if (
+            a.transferId !== payout.transferId ||
+            a.tonTxHash.toLowerCase() !== payout.tonTxHash.toLowerCase() ||
+            a.tonLt !== payout.tonLt
+        ) {
+            continue;
+        }
+
+        let signer: string;
+        try {
+            signer = ethers.verifyTypedData(
+                domain,
+                TRANSFER_ATTESTATION_TYPES,
+                attestationMessage(payout),
+                a.signature
+            );
+        } catch {
+            continue;
+        }
+        if (bySigner.has(signer)) continue;
+        if (!(await bridge.hasRole(relayerRole, signer))) continue;
+        if (await bridge.hasConfirmed(payout.transferId, signer)) continue;
+        bySigner.set(signer, a.signature);
+    }
+
+    return [...bySigner.keys()]
+        .sort((a, b) => (BigInt(a) < BigInt(b) ? -1 : 1))
+        .map((signer) => bySigner.get(signer)!);
+}
+
+/** Shared directory of attestations, one file per transfer and signer. */
+export class AttestationStore {
+    constructor(private readonly dir: string) {}
+
+    publish(attestation: TransferAttestation): void {
+        const transferDir = path.join(this.dir, attestation.transferId);
+        fs.mkdirSync(transferDir, { recursive: true });
+
+        // Written to a temp file and renamed so peers never read half a file.
+        const file = path.join(transferDir, `${attestation.signer}.json`);
+        const tmp = `${file}.tmp`;
+        fs.writeFileSync(tmp, JSON.stringify(attestation, null, 2));
+        fs.renameSync(tmp, file);
+    }
+
+    list(transferId: string): TransferAttestation[] {
+        const transferDir = path.join(this.dir, transferId);
+        if (!fs.existsSync(transferDir)) return [];
+
+        const attestations: TransferAttestation[] = [];
+        for (const name of fs.readdirSync(transferDir)) {
+            if (!name.endsWith(".json")) continue;
+            try {
+                attestations.push(
+                    JSON.parse(fs.readFileSync(path.join(transferDir, name), "utf-8"))
+                );
+            } catch {
+                // A peer's file that does not parse is ignored, not fatal.
+            }
+        }
+        return attestations;
+    }
+}
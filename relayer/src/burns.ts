@@ -0,0 +1,225 @@
+// relayer/src/burns.ts
+import { ethers } from "ethers";
+import { Address } from "@ton/core";
+import { BurnRecord, BurnStatus, CheckpointStore } from "./checkpointStore";
+import {
+    ChainReader,
+    ScanHeadOptions,
+    checkLogCanonical,
+    getScanHead,
+} from "./reorgGuard";
+import { TonPayoutOutcome, getPayoutOutcome, sendNativeTon } from "./tonService";
+import { getDesignatedPayer } from "./payer";
+
+// wTON -> TON redemption: every TokensBurned log emitted by
+// WrappedTON.burnForBridge is paid out once, in native TON, by its designated
+// payer (see payer.ts); the other relayers record it as skipped. wTON has 9
+// decimals like TON, so the burned amount is paid 1:1.
+
+const PENDING_BURN_STATUSES: BurnStatus[] = ["detected", "payout_sent"];
+
+export interface BurnPayoutContext {
+    wrappedTON: ethers.Contract;
+    relayerAddress: string;
+    provider: ChainReader;
+    store: CheckpointStore;
+    scanHead: ScanHeadOptions;
+}
+
+/** Record a TokensBurned log in the ledger; returns the stored record. */
+export function recordBurnLog(
+    ctx: BurnPayoutContext,
+    log: ethers.Log
+): BurnRecord | undefined {
+    const parsed = ctx.wrappedTON.interface.parseLog(log);
+    if (!parsed || parsed.name !== "TokensBurned") return undefined;
+
+    const { from, amount, tonRecipient } = parsed.args as any;
+    return ctx.store.recordBurn({
+        burnId: `${log.transactionHash}:${log.index}`,
+        txHash: log.transactionHash,
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        from,
+        amount: amount.toString(),
+        tonRecipient,
+    });
+}
+
+/**
+ * Drive one burn through its ledger from wherever it stopped. Like
+ * processTransfer, each step is persisted before the next side effect.
+ */
+export async function processBurn(
+    ctx: BurnPayoutContext,
+    burnId: string
+): Promise<void> {
+    for (;;) {
+        const record = ctx.store.getBurn(burnId);
+        if (!record) {
+            throw new Error(`Burn ${burnId} is not in the ledger`);
+        }
+
+        let advanced: boolean;
+        switch (record.status) {
+            case "detected":
+                advanced = await payBurn(ctx, record);
+                break;
+            case "payout_sent":
+                advanced = await reconcileBurnPayout(ctx, record);
+                break;
+            default:
+                return;
+        }
+
+        if (!advanced) return;
+    }
+}
+
+/** Retry every burn that has not been paid yet (failed sends, restarts). */
+export async function recoverPendingBurns(ctx: BurnPayoutContext): Promise<void> {
+    for (const record of ctx.store.listBurns(PENDING_BURN_STATUSES)) {
+        try {
+            await processBurn(ctx, record.burnId);
+        } catch (err: any) {
+            console.error(`Recovery of burn ${record.burnId} failed:`, err.message || err);
+            ctx.store.updateBurn(record.burnId, {
+                lastError: err.message || String(err),
+            });
+        }
+    }
+}
+
+async function payBurn(ctx: BurnPayoutContext, record: BurnRecord): Promise<boolean> {
+    const { store, provider, wrappedTON } = ctx;
+    const { burnId } = record;
+
+    const status = await checkLogCanonical(provider, {
+        txHash: record.txHash,
+        blockHash: record.blockHash,
+        address: await wrappedTON.getAddress(),
+        topics: [
+            wrappedTON.interface.getEvent("TokensBurned")!.topicHash,
+            ethers.zeroPadValue(record.from, 32),
+        ],
+    });
+    if (status.kind === "missing") {
+        console.error(
+            `🚨 TokensBurned ${burnId} (block ${record.blockNumber}) is no longer on the canonical chain. Not paying.\n`
+        );
+        store.transitionBurn(burnId, "reorged");
+        return false;
+    }
+    if (status.kind === "moved") {
+        store.updateBurn(burnId, {
+            blockNumber: status.blockNumber,
+            blockHash: status.blockHash,
+        });
+    }
+    if (status.blockNumber > (await getScanHead(provider, ctx.scanHead))) {
+        return false;
+    }
+
+    try {
+        Address.parseFriendly(record.tonRecipient);
+    } catch {
+        console.error(
+            `⚠️  Burn ${burnId} names an invalid TON recipient "${record.tonRecipient}". Needs operator review.\n`
+        );
+        store.transitionBurn(burnId, "invalid", {
+            lastError: "Invalid TON recipient",
+        });
+        return false;
+    }
+
+    const payer = getDesignatedPayer(ctx.store, burnId, record.blockNumber);
+    if (payer.toLowerCase() !== ctx.relayerAddress.toLowerCase()) {
+        console.log(`  ↳ Burn ${burnId} is paid by relayer ${payer}. Skipping.\n`);
+        store.transitionBurn(burnId, "skipped", { payer });
+        return false;
+    }
+
+    const amountTon = ethers.formatUnits(record.amount, 9);
+    console.log("🔥 Redeeming wTON burn:");
+    console.log("  burnId:       ", burnId);
+    console.log("  from:         ", record.from);
+    console.log("  amount (TON): ", amountTon);
+    console.log("  tonRecipient: ", record.tonRecipient, "\n");
+
+    const result = await sendNativeTon(record.tonRecipient, amountTon, {
+        beforeSend: ({ seqno, validUntil }) => {
+            store.transitionBurn(burnId, "payout_sent", {
+                attempts: record.attempts + 1,
+                payoutSeqno: seqno,
+                payoutValidUntil: validUntil,
+            });
+        },
+    });
+
+    if (result.success) {
+        console.log(`✅ [TON] Burn ${burnId} paid. tx: ${result.tonTxId}\n`);
+        store.transitionBurn(burnId, "paid", {
+            tonTxId: result.tonTxId,
+            tonLt: result.tonLt,
+            lastError: undefined,
+        });
+        return false;
+    }
+
+    if (result.bounced) {
+        console.log(`🚫 [TON] Recipient bounced the payout for burn ${burnId}.\n`);
+        store.transitionBurn(burnId, "payout_bounced", {
+            tonTxId: result.tonTxId,
+            tonLt: result.tonLt,
+            lastError: result.errorMessage,
+        });
+        return false;
+    }
+
+    // Still payout_sent if the message went out; recovery settles it.
+    store.updateBurn(burnId, { lastError: result.errorMessage });
+    return false;
+}
+
+async function reconcileBurnPayout(
+    ctx: BurnPayoutContext,
+    record: BurnRecord
+): Promise<boolean> {
+    const { store } = ctx;
+    const { burnId, payoutSeqno, payoutValidUntil } = record;
+
+    if (payoutSeqno === undefined || payoutValidUntil === undefined) {
+        throw new Error(`Burn ${burnId} is payout_sent without a seqno`);
+    }
+
+    const outcome: TonPayoutOutcome = await getPayoutOutcome(
+        { seqno: payoutSeqno, validUntil: payoutValidUntil },
+        record.tonRecipient
+    );
+
+    switch (outcome.kind) {
+        case "pending":
+            return false;
+        case "landed":
+            console.log(`✅ [TON] Burn ${burnId} paid. tx: ${outcome.txHash}\n`);
+            store.transitionBurn(burnId, "paid", {
+                tonTxId: outcome.txHash,
+                tonLt: outcome.lt,
+                lastError: undefined,
+            });
+            return false;
+        case "bounced":
+            store.transitionBurn(burnId, "payout_bounced", {
+                tonTxId: outcome.txHash,
+                tonLt: outcome.lt,
+            });
+            return false;
+        case "failed":
+        case "expired":
+            store.transitionBurn(burnId, "detected", {
+                payoutSeqno: undefined,
+                payoutValidUntil: undefined,
+            });
+            return true;
+    }
+}
@@ -0,0 +1,613 @@
+// relayer/src/checkpointStore.ts
+import fs from "fs";
+import path from "path";
+
+// Durable relayer state: the last fully processed Polygon block, the payout
+// ledger (the processing state of every transfer the relayer has seen), the
+// TON-side deposit cursor and deposit ledger, the burn ledger, and the
+// PolygonBridge relayer set history payers are picked from. Persisted
+// as a single JSON file that is rewritten atomically (tmp file + rename), so
+// a crash mid-write leaves the previous state intact. Finished ledger entries
+// are moved out to an append-only `<file>.archive.jsonl` after a retention
+// window (see archiveFinished), so the live file stays small.
+
+/**
+ * Payout ledger states. A transfer only moves forward along
+ *
+ *   detected -> payout_sent -> payout_confirmed -> polygon_confirmed
+ *
+ * with these exceptions: `payout_sent` falls back to `detected` once the
+ * signed TON message has provably expired or was processed without sending
+ * anything, and moves to `payout_bounced` (terminal, needs an operator) when
+ * the recipient bounced the TON back; `detected` moves to `skipped` when the
+ * transfer was already completed on Polygon by others, and straight to
+ * `payout_confirmed` when another relayer's payout is recorded on Polygon
+ * but the transfer still needs this relayer's confirmation; `detected` or
+ * `payout_confirmed` move to `refunded` (terminal) when the sender took the
+ * transfer back on Polygon after it expired; and any settled state moves to
+ * `reorged` when the originating BridgeInitiated log disappears from the
+ * canonical chain. (`payout_sent` is settled first, since its message may
+ * still land.)
+ */
+export type TransferStatus =
+    | "detected"
+    | "payout_sent"
+    | "payout_confirmed"
+    | "polygon_confirmed"
+    | "payout_bounced"
+    | "skipped"
+    | "refunded"
+    | "reorged";
+
+const TRANSITIONS: Record<TransferStatus, TransferStatus[]> = {
+    detected: ["payout_sent", "payout_confirmed", "skipped", "refunded", "reorged"],
+    payout_sent: ["payout_confirmed", "detected", "payout_bounced"],
+    payout_confirmed: ["polygon_confirmed", "refunded", "reorged"],
+    polygon_confirmed: ["reorged"],
+    payout_bounced: [],
+    skipped: ["reorged"],
+    refunded: [],
+    reorged: [],
+};
+
+// Settled without anything left for an operator; archivable.
+const FINISHED_STATUSES: TransferStatus[] = [
+    "polygon_confirmed",
+    "skipped",
+    "refunded",
+    "reorged",
+];
+
+export const PENDING_STATUSES: TransferStatus[] = [
+    "detected",
+    "payout_sent",
+    "payout_confirmed",
+];
+
+export interface TransferRecord {
+    transferId: string;
+    blockNumber: number;
+    blockHash?: string;
+    txHash: string;
+    status: TransferStatus;
+    attempts: number;
+    updatedAt: string;
+    // Set when entering payout_sent: identifies the signed TON message.
+    payoutSeqno?: number;
+    payoutValidUntil?: number;
+    // Real TON transaction hash (hex) and logical time of the payout.
+    tonTxId?: string;
+    tonLt?: string;
+    // TON wallet that made the payout, when another relayer paid it.
+    payoutWallet?: string;
+    // Set when entering payout_confirmed: batched confirmations are aged
+    // from here, since updatedAt moves with every retry.
+    queuedAt?: string;
+    polygonTxHash?: string;
+    // Set when the log vanished after TON was already paid out.
+    paidBeforeReorg?: boolean;
+    // Set when the sender refunded a transfer TON was already paid for.
+    paidBeforeRefund?: boolean;
+    lastError?: string;
+}
+
+type TransferPatch = Partial<Omit<TransferRecord, "transferId" | "status">>;
+
+/**
+ * TON deposits to the bridge wallet (TON -> Polygon). A deposit is recorded
+ * as `detected` when first seen. A `mint` deposit becomes `minted` once
+ * WrappedTON has minted for its TON transaction. A `release` deposit becomes
+ * `confirmed` once this relayer's PolygonBridge.confirmRelease landed and
+ * `released` once the relayer threshold was reached and the locked assets
+ * were sent. Deposits without a usable instruction are recorded as `invalid`
+ * and never acted on.
+ */
+export type DepositStatus =
+    | "detected"
+    | "minted"
+    | "confirmed"
+    | "released"
+    | "invalid";
+
+export type DepositKind = "mint" | "release";
+
+const TERMINAL_DEPOSIT_STATUSES: DepositStatus[] = ["minted", "released", "invalid"];
+
+export interface DepositRecord {
+    // Hex hash of the TON transaction that credited the bridge wallet.
+    tonTxHash: string;
+    lt: string;
+    sender: string;
+    amountNano: string;
+    comment: string;
+    // Missing on records written before releases existed: those are mints.
+    kind?: DepositKind;
+    evmRecipient?: string;
+    // Release only: locked asset to send (zero address for POL).
+    token?: string;
+    status: DepositStatus;
+    // Masterchain seqno when the deposit was first seen; confirmations are
+    // counted from here.
+    seenAtMcSeqno: number;
+    attempts: number;
+    updatedAt: string;
+    polygonTxHash?: string;
+    lastError?: string;
+}
+
+export interface TonCursor {
+    lt: string;
+    hash: string;
+}
+
+/**
+ * wTON burns (WrappedTON.burnForBridge) redeemed in native TON. Same payout
+ * discipline as transfers, without the Polygon confirmation step:
+ *
+ *   detected -> payout_sent -> paid
+ *
+ * `payout_sent` falls back to `detected` when the message provably did not go
+ * out and moves to `payout_bounced` when the recipient bounced it; `detected`
+ * moves to `invalid` for an unusable TON recipient, to `skipped` when another
+ * relayer is its designated payer, and to `reorged` when the TokensBurned log
+ * leaves the canonical chain.
+ */
+export type BurnStatus =
+    | "detected"
+    | "payout_sent"
+    | "paid"
+    | "payout_bounced"
+    | "invalid"
+    | "skipped"
+    | "reorged";
+
+const BURN_TRANSITIONS: Record<BurnStatus, BurnStatus[]> = {
+    detected: ["payout_sent", "invalid", "skipped", "reorged"],
+    payout_sent: ["paid", "detected", "payout_bounced"],
+    paid: [],
+    payout_bounced: [],
+    invalid: [],
+    skipped: [],
+    reorged: [],
+};
+
+export interface BurnRecord {
+    // `${txHash}:${logIndex}` of the TokensBurned log.
+    burnId: string;
+    txHash: string;
+    blockNumber: number;
+    blockHash: string;
+    from: string;
+    // wTON base units (9 decimals), i.e. nanoTON.
+    amount: string;
+    tonRecipient: string;
+    status: BurnStatus;
+    // Relayer that pays the burn on TON, once looked up.
+    payer?: string;
+    attempts: number;
+    updatedAt: string;
+    payoutSeqno?: number;
+    payoutValidUntil?: number;
+    tonTxId?: string;
+    tonLt?: string;
+    lastError?: string;
+}
+
+// Burns that need nothing more; `payout_bounced` stays for an operator.
+const FINISHED_BURN_STATUSES: BurnStatus[] = ["paid", "invalid", "skipped", "reorged"];
+
+type BurnPatch = Partial<Omit<BurnRecord, "burnId" | "status">>;
+
+/**
+ * RelayerAdded / RelayerRemoved on PolygonBridge, as scanned. Together with
+ * the set read when the history was seeded they give the relayer set at any
+ * later block without an archive node.
+ */
+export interface RelayerSetChange {
+    blockNumber: number;
+    logIndex: number;
+    relayer: string;
+    added: boolean;
+}
+
+interface RelayerSetHistory {
+    // getRelayers() as of `seedBlock`; changes up to that block are in it.
+    seedBlock: number;
+    seed: string[];
+    changes: RelayerSetChange[];
+}
+
+// Stores written before the payout ledger used processed/failed.
+function migrateLegacyStatuses(
+    transfers: Record<string, any>
+): Record<string, TransferRecord> {
+    for (const record of Object.values(transfers)) {
+        if (record.status === "processed") record.status = "polygon_confirmed";
+        if (record.status === "failed") record.status = "detected";
+    }
+    return transfers;
+}
+
+interface CheckpointState {
+    version: 1;
+    lastProcessedBlock: number;
+    transfers: Record<string, TransferRecord>;
+    // Newest bridge-wallet transaction already recorded.
+    tonDepositCursor?: TonCursor;
+    deposits: Record<string, DepositRecord>;
+    burns: Record<string, BurnRecord>;
+    relayerSet?: RelayerSetHistory;
+}
+
+export class CheckpointStore {
+    private constructor(
+        private readonly filePath: string,
+        private state: CheckpointState
+    ) {}
+
+    /**
+     * Open the store at `filePath`. If no store exists yet, a fresh one is
+     * created with its checkpoint set to `seedBlock()` — this is the only
+     * place RELAYER_START_BLOCK (or the chain head) is consulted.
+     */
+    static async open(
+        filePath: string,
+        seedBlock: () => Promise<number>
+    ): Promise<{ store: CheckpointStore; created: boolean }> {
+        if (fs.existsSync(filePath)) {
+            const raw = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+            if (raw.version !== 1 || typeof raw.lastProcessedBlock !== "number") {
+                throw new Error(`Unrecognised checkpoint store format in ${filePath}`);
+            }
+            return {
+                store: new CheckpointStore(filePath, {
+                    version: 1,
+                    lastProcessedBlock: raw.lastProcessedBlock,
+                    transfers: migrateLegacyStatuses(raw.transfers ?? {}),
+                    tonDepositCursor: raw.tonDepositCursor,
+                    deposits: raw.deposits ?? {},
+                    burns: raw.burns ?? {},
+                    relayerSet: raw.relayerSet,
+                }),
+                created: false,
+            };
+        }
+
+        const store = new CheckpointStore(filePath, {
+            version: 1,
+            lastProcessedBlock: await seedBlock(),
+            transfers: {},
+            deposits: {},
+            burns: {},
+        });
+        store.flush();
+        return { store, created: true };
+    }
+
+    get lastProcessedBlock(): number {
+        return this.state.lastProcessedBlock;
+    }
+
+    /** Advance the checkpoint. Never moves backwards. */
+    setLastProcessedBlock(block: number): void {
+        if (block <= this.state.lastProcessedBlock) return;
+        this.state.lastProcessedBlock = block;
+        this.flush();
+    }
+
+    getTransfer(transferId: string): TransferRecord | undefined {
+        return this.state.transfers[transferId.toLowerCase()];
+    }
+
+    /** Record a transfer the first time it is seen; returns the stored record. */
+    recordDetected(
+        transferId: string,
+        log: { blockNumber: number; blockHash: string; txHash: string }
+    ): TransferRecord {
+        const key = transferId.toLowerCase();
+        const existing = this.state.transfers[key];
+        if (existing) return existing;
+
+        const record: TransferRecord = {
+            transferId: key,
+            blockNumber: log.blockNumber,
+            blockHash: log.blockHash,
+            txHash: log.txHash,
+            status: "detected",
+            attempts: 0,
+            updatedAt: new Date().toISOString(),
+        };
+        this.state.transfers[key] = record;
+        this.flush();
+        return record;
+    }
+
+    listTransfers(statuses: TransferStatus[], fromBlock = 0): TransferRecord[] {
+        return Object.values(this.state.transfers)
+            .filter((r) => statuses.includes(r.status) && r.blockNumber >= fromBlock)
+            .sort((a, b) => a.blockNumber - b.blockNumber);
+    }
+
+    /** Update bookkeeping fields without changing the ledger state. */
+    updateTransfer(transferId: string, patch: TransferPatch): TransferRecord {
+        const existing = this.requireTransfer(transferId);
+        return this.write({ ...existing, ...patch });
+    }
+
+    /** Move a transfer to `next`, rejecting transitions the ledger forbids. */
+    transition(
+        transferId: string,
+        next: TransferStatus,
+        patch: TransferPatch = {}
+    ): TransferRecord {
+        const existing = this.requireTransfer(transferId);
+        if (!TRANSITIONS[existing.status].includes(next)) {
+            throw new Error(
+                `Illegal ledger transition ${existing.status} -> ${next} for ${transferId}`
+            );
+        }
+        const queued =
+            next === "payout_confirmed" ? { queuedAt: new Date().toISOString() } : {};
+        return this.write({ ...existing, ...patch, ...queued, status: next });
+    }
+
+    get tonDepositCursor(): TonCursor | undefined {
+        return this.state.tonDepositCursor;
+    }
+
+    setTonDepositCursor(cursor: TonCursor): void {
+        this.state.tonDepositCursor = cursor;
+        this.flush();
+    }
+
+    getDeposit(tonTxHash: string): DepositRecord | undefined {
+        return this.state.deposits[tonTxHash.toLowerCase()];
+    }
+
+    /** Record a deposit the first time it is seen; returns the stored record. */
+    recordDeposit(
+        deposit: Omit<DepositRecord, "attempts" | "updatedAt">
+    ): DepositRecord {
+        const key = deposit.tonTxHash.toLowerCase();
+        const existing = this.state.deposits[key];
+        if (existing) return existing;
+
+        const record: DepositRecord = {
+            ...deposit,
+            tonTxHash: key,
+            attempts: 0,
+            updatedAt: new Date().toISOString(),
+        };
+        this.state.deposits[key] = record;
+        this.flush();
+        return record;
+    }
+
+    listDeposits(statuses: DepositStatus[]): DepositRecord[] {
+        return Object.values(this.state.deposits)
+            .filter((r) => statuses.includes(r.status))
+            .sort((a, b) => (BigInt(a.lt) < BigInt(b.lt) ? -1 : 1));
+    }
+
+    updateDeposit(
+        tonTxHash: string,
+        patch: Partial<Omit<DepositRecord, "tonTxHash">>
+    ): DepositRecord {
+        const key = tonTxHash.toLowerCase();
+        const existing = this.state.deposits[key];
+        if (!existing) {
+            throw new Error(`Unknown deposit ${tonTxHash}`);
+        }
+        if (
+            TERMINAL_DEPOSIT_STATUSES.includes(existing.status) &&
+            patch.status &&
+            patch.status !== existing.status
+        ) {
+            throw new Error(
+                `Deposit ${tonTxHash} is already ${existing.status}; cannot move to ${patch.status}`
+            );
+        }
+        const updated = { ...existing, ...patch, updatedAt: new Date().toISOString() };
+        this.state.deposits[key] = updated;
+        this.flush();
+        return updated;
+    }
+
+    getBurn(burnId: string): BurnRecord | undefined {
+        return this.state.burns[burnId.toLowerCase()];
+    }
+
+    /** Record a burn the first time it is seen; returns the stored record. */
+    recordBurn(
+        burn: Omit<BurnRecord, "status" | "attempts" | "updatedAt">
+    ): BurnRecord {
+        const key = burn.burnId.toLowerCase();
+        const existing = this.state.burns[key];
+        if (existing) return existing;
+
+        const record: BurnRecord = {
+            ...burn,
+            burnId: key,
+            status: "detected",
+            attempts: 0,
+            updatedAt: new Date().toISOString(),
+        };
+        this.state.burns[key] = record;
+        this.flush();
+        return record;
+    }
+
+    listBurns(statuses: BurnStatus[]): BurnRecord[] {
+        return Object.values(this.state.burns)
+            .filter((r) => statuses.includes(r.status))
+            .sort((a, b) => a.blockNumber - b.blockNumber);
+    }
+
+    updateBurn(burnId: string, patch: BurnPatch): BurnRecord {
+        const existing = this.requireBurn(burnId);
+        return this.writeBurn({ ...existing, ...patch });
+    }
+
+    transitionBurn(burnId: string, next: BurnStatus, patch: BurnPatch = {}): BurnRecord {
+        const existing = this.requireBurn(burnId);
+        if (!BURN_TRANSITIONS[existing.status].includes(next)) {
+            throw new Error(
+                `Illegal burn transition ${existing.status} -> ${next} for ${burnId}`
+            );
+        }
+        return this.writeBurn({ ...existing, ...patch, status: next });
+    }
+
+    get hasRelayerSet(): boolean {
+        return this.state.relayerSet !== undefined;
+    }
+
+    /** Start the relayer set history; a no-op once it exists. */
+    seedRelayerSet(seedBlock: number, relayers: string[]): void {
+        if (this.state.relayerSet) return;
+        this.state.relayerSet = { seedBlock, seed: relayers, changes: [] };
+        this.flush();
+    }
+
+    /** Record a scanned relayer set change; repeated logs are ignored. */
+    recordRelayerSetChange(change: RelayerSetChange): void {
+        const history = this.requireRelayerSet();
+        if (change.blockNumber <= history.seedBlock) return;
+        const seen = history.changes.some(
+            (c) => c.blockNumber === change.blockNumber && c.logIndex === change.logIndex
+        );
+        if (seen) return;
+        history.changes.push(change);
+        history.changes.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+        this.flush();
+    }
+
+    /**
+     * The relayer set an event emitted in block `blockNumber` is assigned
+     * from: the set at the end of the previous block, so changes later in the
+     * same block cannot make relayers disagree. Blocks up to the seed use the
+     * seed set; without a block this is the latest known set.
+     */
+    relayersAt(blockNumber = Number.POSITIVE_INFINITY): string[] {
+        const history = this.requireRelayerSet();
+        const set = new Set(history.seed.map((r) => r.toLowerCase()));
+        for (const change of history.changes) {
+            if (change.blockNumber >= blockNumber) break;
+            if (change.added) set.add(change.relayer.toLowerCase());
+            else set.delete(change.relayer.toLowerCase());
+        }
+        return [...set];
+    }
+
+    /**
+     * Move finished transfers, burns and deposits last updated before
+     * `before` out of the live state and append them to the archive file.
+     * Transfers and burns are only archived once their log is older than
+     * `belowBlock`, so nothing the reorg sweep or a rescan can still reach
+     * is forgotten. Entries an operator has to look at (bounced payouts,
+     * payouts made before a reorg or refund) are kept. Returns the number of
+     * entries archived.
+     */
+    archiveFinished(before: Date, belowBlock: number): number {
+        const cutoff = before.getTime();
+        const expired = (r: { updatedAt: string }) => Date.parse(r.updatedAt) < cutoff;
+        const lines: string[] = [];
+
+        for (const [key, r] of Object.entries(this.state.transfers)) {
+            if (
+                FINISHED_STATUSES.includes(r.status) &&
+                !r.paidBeforeReorg &&
+                !r.paidBeforeRefund &&
+                r.blockNumber < belowBlock &&
+                expired(r)
+            ) {
+                lines.push(JSON.stringify({ kind: "transfer", record: r }));
+                delete this.state.transfers[key];
+            }
+        }
+        for (const [key, r] of Object.entries(this.state.burns)) {
+            if (
+                FINISHED_BURN_STATUSES.includes(r.status) &&
+                r.blockNumber < belowBlock &&
+                expired(r)
+            ) {
+                lines.push(JSON.stringify({ kind: "burn", record: r }));
+                delete this.state.burns[key];
+            }
+        }
+        for (const [key, r] of Object.entries(this.state.deposits)) {
+            if (TERMINAL_DEPOSIT_STATUSES.includes(r.status) && expired(r)) {
+                lines.push(JSON.stringify({ kind: "deposit", record: r }));
+                delete this.state.deposits[key];
+            }
+        }
+
+        if (lines.length === 0) return 0;
+        // Archive first: a crash in between leaves an entry in both files,
+        // never in neither.
+        this.appendArchive(lines);
+        this.flush();
+        return lines.length;
+    }
+
+    private requireRelayerSet(): RelayerSetHistory {
+        if (!this.state.relayerSet) {
+            throw new Error("Relayer set history has not been seeded");
+        }
+        return this.state.relayerSet;
+    }
+
+    private requireBurn(burnId: string): BurnRecord {
+        const existing = this.state.burns[burnId.toLowerCase()];
+        if (!existing) {
+            throw new Error(`Unknown burn ${burnId}`);
+        }
+        return existing;
+    }
+
+    private writeBurn(record: BurnRecord): BurnRecord {
+        const updated = { ...record, updatedAt: new Date().toISOString() };
+        this.state.burns[record.burnId] = updated;
+        this.flush();
+        return updated;
+    }
+
+    private requireTransfer(transferId: string): TransferRecord {
+        const existing = this.state.transfers[transferId.toLowerCase()];
+        if (!existing) {
+            throw new Error(`Unknown transfer ${transferId}`);
+        }
+        return existing;
+    }
+
+    private write(record: TransferRecord): TransferRecord {
+        const updated = { ...record, updatedAt: new Date().toISOString() };
+        this.state.transfers[record.transferId] = updated;
+        this.flush();
+        return updated;
+    }
+
+    private appendArchive(lines: string[]): void {
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+        const fd = fs.openSync(`${this.filePath}.archive.jsonl`, "a");
+        try {
+            fs.writeSync(fd, lines.map((line) => `${line}\n`).join(""));
+            fs.fsyncSync(fd);
+        } finally {
+            fs.closeSync(fd);
+        }
+    }
+
+    private flush(): void {
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+        const tmp = `${this.filePath}.tmp`;
+        const fd = fs.openSync(tmp, "w");
+        try {
+            fs.writeSync(fd, JSON.stringify(this.state, null, 2));
+            fs.fsyncSync(fd);
+        } finally {
+            fs.closeSync(fd);
+        }
+        fs.renameSync(tmp, this.filePath);
+    }
+}
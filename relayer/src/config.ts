@@ -1,6 +1,9 @@
 // relayer/src/config.ts
 import dotenv from "dotenv";
 import path from "path";
+import { ethers } from "ethers";
+import { Address } from "@ton/core";
+import type { ScanBlockTag } from "./reorgGuard";
 
 // Load the ROOT .env (one level above /relayer)
 dotenv.config({ path: path.join(__dirname, "..", "..", ".env") });
@@ -22,10 +25,157 @@ const START_BLOCK_ENV = process.env.RELAYER_START_BLOCK
     ? parseInt(process.env.RELAYER_START_BLOCK, 10)
     : NaN;
 
-// If RELAYER_START_BLOCK not set or invalid, the relayer will start from "latest" on first run.
+// Only used to seed a fresh checkpoint store. If not set or invalid, a fresh
+// store starts from "latest". Once the store exists it is ignored.
 export const RELAYER_START_BLOCK = Number.isNaN(START_BLOCK_ENV)
     ? undefined
     : START_BLOCK_ENV;
 
+// Durable checkpoint store (last processed block + per-transfer state)
+export const RELAYER_STATE_FILE =
+    process.env.RELAYER_STATE_FILE ||
+    path.join(__dirname, "..", "data", "relayer-state.json");
+
+// Reorg protection. With RELAYER_BLOCK_TAG=latest (default) the relayer stays
+// RELAYER_CONFIRMATIONS blocks behind the head; "safe" or "finalized" scan only
+// up to that block tag instead. Recorded logs newer than the last
+// RELAYER_REORG_LOOKBACK blocks are re-checked against the canonical chain.
+function parseBlockTag(value: string | undefined): ScanBlockTag {
+    if (!value) return "latest";
+    if (value === "latest" || value === "safe" || value === "finalized") {
+        return value;
+    }
+    throw new Error(`Invalid RELAYER_BLOCK_TAG: ${value}`);
+}
+
+export const RELAYER_BLOCK_TAG = parseBlockTag(process.env.RELAYER_BLOCK_TAG);
+
+export const RELAYER_CONFIRMATIONS = parseInt(
+    process.env.RELAYER_CONFIRMATIONS || "32",
+    10
+);
+
+export const RELAYER_REORG_LOOKBACK = parseInt(
+    process.env.RELAYER_REORG_LOOKBACK || "256",
+    10
+);
+
+// Finished ledger entries (paid, skipped, refunded, reorged, invalid) are
+// moved from RELAYER_STATE_FILE to RELAYER_STATE_FILE.archive.jsonl once they
+// have been settled this many days and their log is beyond the reorg lookback.
+export const RELAYER_LEDGER_RETENTION_DAYS = parseFloat(
+    process.env.RELAYER_LEDGER_RETENTION_DAYS || "7"
+);
+
+// eth_getLogs chunking. The chunk size is halved (down to the minimum) when the
+// RPC rejects a range; up to RELAYER_LOG_CONCURRENCY chunks are fetched in
+// parallel while catching up.
+export const RELAYER_LOG_CHUNK_SIZE = parseInt(
+    process.env.RELAYER_LOG_CHUNK_SIZE || "2000",
+    10
+);
+
+export const RELAYER_LOG_MIN_CHUNK_SIZE = parseInt(
+    process.env.RELAYER_LOG_MIN_CHUNK_SIZE || "10",
+    10
+);
+
+export const RELAYER_LOG_CONCURRENCY = parseInt(
+    process.env.RELAYER_LOG_CONCURRENCY || "3",
+    10
+);
+
+// TON -> Polygon deposits. Defaults to watching the relayer's own TON wallet.
+// TON_DEPOSIT_START_LT seeds the TON cursor the first time only, like
+// RELAYER_START_BLOCK does for Polygon.
+export const TON_BRIDGE_WALLET = process.env.TON_BRIDGE_WALLET || undefined;
+
+export const TON_DEPOSIT_CONFIRMATIONS = parseInt(
+    process.env.TON_DEPOSIT_CONFIRMATIONS || "10",
+    10
+);
+
+export const TON_DEPOSIT_START_LT = process.env.TON_DEPOSIT_START_LT || undefined;
+
+// Bridge rates in whole tokens per TON, e.g. "POL=1,0xToken=0.25" (see
+// rates.ts). TON -> Polygon releases and Polygon -> TON payouts both use them;
+// a token without a rate is neither released (the deposit is recorded as
+// invalid) nor paid out (the transfer is held). Intent relayer fees are
+// converted from POL through them too. Every relayer must use the same rates,
+// or their confirmations disagree on the amount.
+function parseReleaseRates(value: string): Record<string, bigint> {
+    const rates: Record<string, bigint> = {};
+    for (const entry of value.split(",").filter((e) => e.trim())) {
+        const [token, rate] = entry.split("=").map((p) => p.trim());
+        const address =
+            token.toUpperCase() === "POL" ? ethers.ZeroAddress : token;
+        if (!ethers.isAddress(address) || !rate) {
+            throw new Error(`Invalid RELAYER_RELEASE_RATES entry: ${entry}`);
+        }
+        // 18-decimal fixed point.
+        const parsed = ethers.parseUnits(rate, 18);
+        if (parsed <= 0n) {
+            throw new Error(`Invalid RELAYER_RELEASE_RATES rate: ${entry}`);
+        }
+        rates[address.toLowerCase()] = parsed;
+    }
+    return rates;
+}
+
+export const RELAYER_RELEASE_RATES = parseReleaseRates(
+    process.env.RELAYER_RELEASE_RATES || "POL=1"
+);
+
+// HTTP endpoint accepting signed bridge intents (POST /intents). Disabled
+// unless a port is set; binds to localhost unless told otherwise.
+export const RELAYER_INTENT_PORT = parseInt(
+    process.env.RELAYER_INTENT_PORT || "0",
+    10
+);
+
+export const RELAYER_INTENT_HOST = process.env.RELAYER_INTENT_HOST || "127.0.0.1";
+
+// Directory shared by all relayers for exchanging signed transfer
+// attestations (see attestations.ts). Unset: every relayer confirms on-chain
+// with its own transaction.
+export const RELAYER_ATTESTATION_DIR =
+    process.env.RELAYER_ATTESTATION_DIR || undefined;
+
+// TON wallet of every relayer that pays transfers, including this one, e.g.
+// "0xRelayerA=EQ...,0xRelayerB=EQ...". A transfer whose payout another
+// relayer already recorded on Polygon is confirmed once its TON transaction is
+// found in one of these wallets.
+function parseRelayerTonWallets(value: string): Record<string, string> {
+    const wallets: Record<string, string> = {};
+    for (const entry of value.split(",").filter((e) => e.trim())) {
+        const [relayer, wallet] = entry.split("=").map((p) => p.trim());
+        const validWallet =
+            !!wallet && (Address.isFriendly(wallet) || Address.isRaw(wallet));
+        if (!ethers.isAddress(relayer) || !validWallet) {
+            throw new Error(`Invalid RELAYER_TON_WALLETS entry: ${entry}`);
+        }
+        wallets[relayer.toLowerCase()] = wallet;
+    }
+    return wallets;
+}
+
+export const RELAYER_TON_WALLETS = parseRelayerTonWallets(
+    process.env.RELAYER_TON_WALLETS || ""
+);
+
+// Completed TON payouts are confirmed on Polygon in confirmTransfers batches
+// of up to RELAYER_CONFIRM_BATCH_SIZE, flushed when full or when the oldest
+// has waited RELAYER_CONFIRM_BATCH_MAX_AGE_MS. A size of 1 confirms each payout
+// on its own. Not used together with RELAYER_ATTESTATION_DIR.
+export const RELAYER_CONFIRM_BATCH_SIZE = parseInt(
+    process.env.RELAYER_CONFIRM_BATCH_SIZE || "20",
+    10
+);
+
+export const RELAYER_CONFIRM_BATCH_MAX_AGE_MS = parseInt(
+    process.env.RELAYER_CONFIRM_BATCH_MAX_AGE_MS || "30000",
+    10
+);
+
 // Polling interval in ms
 export const POLL_INTERVAL = 10_000;
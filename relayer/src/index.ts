@@ -6,9 +6,51 @@ import {
     RELAYER_PRIVATE_KEY,
     POLL_INTERVAL,
     RELAYER_START_BLOCK,
+    RELAYER_STATE_FILE,
+    RELAYER_BLOCK_TAG,
+    RELAYER_CONFIRMATIONS,
+    RELAYER_REORG_LOOKBACK,
+    RELAYER_LEDGER_RETENTION_DAYS,
+    RELAYER_LOG_CHUNK_SIZE,
+    RELAYER_LOG_MIN_CHUNK_SIZE,
+    RELAYER_LOG_CONCURRENCY,
+    TON_BRIDGE_WALLET,
+    TON_DEPOSIT_CONFIRMATIONS,
+    TON_DEPOSIT_START_LT,
+    RELAYER_INTENT_PORT,
+    RELAYER_INTENT_HOST,
+    RELAYER_ATTESTATION_DIR,
+    RELAYER_CONFIRM_BATCH_SIZE,
+    RELAYER_CONFIRM_BATCH_MAX_AGE_MS,
+    RELAYER_RELEASE_RATES,
+    RELAYER_TON_WALLETS,
 } from "./config";
-import { POLYGON_BRIDGE_ABI } from "./abi";
-import { sendNativeTon } from "./tonService";
+import { POLYGON_BRIDGE_ABI, WRAPPED_TON_ABI } from "./abi";
+import { CheckpointStore } from "./checkpointStore";
+import {
+    PayoutContext,
+    flushConfirmations,
+    processTransfer,
+    recoverPendingTransfers,
+    sweepForReorgs,
+} from "./payouts";
+import {
+    BurnPayoutContext,
+    processBurn,
+    recordBurnLog,
+    recoverPendingBurns,
+} from "./burns";
+import { getScanHead } from "./reorgGuard";
+import { LogScanner } from "./logScanner";
+import { Address } from "@ton/core";
+import { createClient, getRelayerWalletAddress } from "./tonService";
+import {
+    DepositWatcherContext,
+    pollTonDeposits,
+    seedTonDepositCursor,
+} from "./tonDeposits";
+import { startIntentServer } from "./intentServer";
+import { AttestationStore } from "./attestations";
 
 async function main() {
     if (!RELAYER_PRIVATE_KEY) {
@@ -28,120 +70,327 @@ async function main() {
         wallet
     );
 
-    let lastBlock: number;
-    if (typeof RELAYER_START_BLOCK === "number") {
-        lastBlock = RELAYER_START_BLOCK - 1;
+    const { store, created } = await CheckpointStore.open(
+        RELAYER_STATE_FILE,
+        async () =>
+            typeof RELAYER_START_BLOCK === "number"
+                ? RELAYER_START_BLOCK - 1
+                : provider.getBlockNumber()
+    );
+
+    if (created) {
         console.log(
-            "Starting from configured RELAYER_START_BLOCK:",
-            RELAYER_START_BLOCK,
-            "\n"
+            typeof RELAYER_START_BLOCK === "number"
+                ? "Seeded new checkpoint store from RELAYER_START_BLOCK:"
+                : "Seeded new checkpoint store from latest block:",
+            store.lastProcessedBlock + 1
         );
     } else {
-        lastBlock = await provider.getBlockNumber();
-        console.log("Starting from latest block:", lastBlock, "\n");
+        console.log(
+            "Resuming from checkpoint store, last processed block:",
+            store.lastProcessedBlock
+        );
     }
+    console.log("Checkpoint store:", RELAYER_STATE_FILE, "\n");
 
-    async function poll() {
-        try {
-            const current = await provider.getBlockNumber();
-            if (current <= lastBlock) {
-                return;
-            }
+    // Payers are picked from the relayer set history (see payer.ts), which
+    // starts from the current set and follows RelayerAdded / RelayerRemoved
+    // logs from then on.
+    if (!store.hasRelayerSet) {
+        const seedBlock = await provider.getBlockNumber();
+        store.seedRelayerSet(seedBlock, await bridge.getRelayers({ blockTag: seedBlock }));
+    }
 
-            const from = lastBlock + 1;
-            const to = current;
-            lastBlock = current;
+    const ctx: PayoutContext = {
+        bridge,
+        provider,
+        store,
+        relayerAddress: await wallet.getAddress(),
+        scanHead: {
+            confirmations: RELAYER_CONFIRMATIONS,
+            blockTag: RELAYER_BLOCK_TAG,
+        },
+        reorgLookback: RELAYER_REORG_LOOKBACK,
+        relayerTonWallets: RELAYER_TON_WALLETS,
+        rates: RELAYER_RELEASE_RATES,
+        attestations: RELAYER_ATTESTATION_DIR
+            ? {
+                  store: new AttestationStore(RELAYER_ATTESTATION_DIR),
+                  tonWallet: (await getRelayerWalletAddress()).toString(),
+              }
+            : undefined,
+        confirmBatch:
+            !RELAYER_ATTESTATION_DIR && RELAYER_CONFIRM_BATCH_SIZE > 1
+                ? {
+                      maxSize: RELAYER_CONFIRM_BATCH_SIZE,
+                      maxAgeMs: RELAYER_CONFIRM_BATCH_MAX_AGE_MS,
+                  }
+                : undefined,
+    };
+    if (RELAYER_ATTESTATION_DIR) {
+        console.log("Exchanging transfer attestations via:", RELAYER_ATTESTATION_DIR, "\n");
+    } else if (ctx.confirmBatch) {
+        console.log(
+            `Confirming payouts in batches of up to ${RELAYER_CONFIRM_BATCH_SIZE} (max wait ${RELAYER_CONFIRM_BATCH_MAX_AGE_MS} ms)\n`
+        );
+    }
+    console.log(
+        RELAYER_BLOCK_TAG === "latest"
+            ? `Scanning up to latest - ${RELAYER_CONFIRMATIONS} blocks\n`
+            : `Scanning up to the "${RELAYER_BLOCK_TAG}" block\n`
+    );
 
-            console.log(`🔎 Scanning blocks [${from}, ${to}] for bridge events…`);
+    const wrappedTON = new ethers.Contract(
+        await bridge.wrappedTON(),
+        WRAPPED_TON_ABI,
+        wallet
+    );
+    const wrappedTONAddress = await wrappedTON.getAddress();
+
+    // wTON -> TON: burns are redeemed in native TON from the relayer wallet.
+    const burnCtx: BurnPayoutContext = {
+        wrappedTON,
+        relayerAddress: ctx.relayerAddress,
+        provider,
+        store,
+        scanHead: ctx.scanHead,
+    };
 
-            const filter = {
-                address: BRIDGE_ADDRESS,
-                fromBlock: from,
-                toBlock: to,
-                topics: [
-                    ethers.id(
-                        "BridgeInitiated(bytes32,address,address,uint256,string,uint256)"
-                    ),
+    // One scan covers both contracts so burns, bridge transfers and relayer
+    // set changes share the same checkpoint.
+    const scanner = new LogScanner(
+        provider,
+        {
+            address: [BRIDGE_ADDRESS, wrappedTONAddress],
+            topics: [
+                [
+                    bridge.interface.getEvent("BridgeInitiated")!.topicHash,
+                    bridge.interface.getEvent("RelayerAdded")!.topicHash,
+                    bridge.interface.getEvent("RelayerRemoved")!.topicHash,
+                    wrappedTON.interface.getEvent("TokensBurned")!.topicHash,
                 ],
-            };
+            ],
+        },
+        {
+            chunkSize: RELAYER_LOG_CHUNK_SIZE,
+            minChunkSize: RELAYER_LOG_MIN_CHUNK_SIZE,
+            concurrency: RELAYER_LOG_CONCURRENCY,
+        }
+    );
 
-            const logs = await provider.getLogs(filter);
-            if (logs.length === 0) {
-                console.log("No BridgeInitiated events in this range.\n");
-                return;
-            }
+    async function handleBurnLog(log: ethers.Log) {
+        const record = recordBurnLog(burnCtx, log);
+        if (!record) return;
+        if (record.status !== "detected") {
+            console.log(
+                `↩️  Burn ${record.burnId} already ${record.status}. Skipping.\n`
+            );
+            return;
+        }
+
+        try {
+            await processBurn(burnCtx, record.burnId);
+        } catch (err: any) {
+            console.error(
+                `Processing burn ${record.burnId} failed:`,
+                err.message || err
+            );
+            store.updateBurn(record.burnId, {
+                lastError: err.message || String(err),
+            });
+        }
+    }
+
+    async function handleLog(log: ethers.Log) {
+        if (log.address.toLowerCase() === wrappedTONAddress.toLowerCase()) {
+            return handleBurnLog(log);
+        }
+
+        const parsed = bridge.interface.parseLog(log);
+        if (!parsed) return;
+
+        if (parsed.name === "RelayerAdded" || parsed.name === "RelayerRemoved") {
+            const added = parsed.name === "RelayerAdded";
+            console.log(`👥 Relayer ${added ? "added" : "removed"}: ${parsed.args.relayer}\n`);
+            store.recordRelayerSetChange({
+                blockNumber: log.blockNumber,
+                logIndex: log.index,
+                relayer: parsed.args.relayer,
+                added,
+            });
+            return;
+        }
 
+        const {
+            transferId,
+            sender,
+            token,
+            amount,
+            tonRecipient,
+            fee,
+        } = parsed.args as any;
+
+        const record = store.recordDetected(transferId, {
+            blockNumber: log.blockNumber,
+            blockHash: log.blockHash,
+            txHash: log.transactionHash,
+        });
+        if (record.status !== "detected") {
+            console.log(
+                `↩️  Transfer ${transferId} already ${record.status}. Skipping.\n`
+            );
+            return;
+        }
+
+        const { decimals } = await bridge.getTokenConfig(token);
+        console.log("📦 New BridgeInitiated event:");
+        console.log("  transferId:   ", transferId);
+        console.log("  sender:       ", sender);
+        console.log("  token:        ", token);
+        console.log("  amount (net): ", ethers.formatUnits(amount, decimals));
+        console.log("  tonRecipient: ", tonRecipient);
+        console.log("  fee:          ", ethers.formatUnits(fee, decimals), "\n");
+
+        try {
+            await processTransfer(ctx, transferId);
+        } catch (err: any) {
+            // The ledger keeps the transfer pending; the recovery
+            // pass retries it from where it stopped.
+            console.error(
+                `Processing ${transferId} failed:`,
+                err.message || err
+            );
+            store.updateTransfer(transferId, {
+                lastError: err.message || String(err),
+            });
+        }
+    }
+
+    // TON -> Polygon: mint wTON (needs MINTER_ROLE on WrappedTON) or release
+    // locked POL/ERC-20 (needs RELAYER_ROLE on PolygonBridge) for deposits to
+    // the bridge wallet. Without either role the watcher stays off.
+    const canMint = await wrappedTON.hasRole(
+        await wrappedTON.MINTER_ROLE(),
+        ctx.relayerAddress
+    );
+    const canRelease = await bridge.hasRole(
+        await bridge.RELAYER_ROLE(),
+        ctx.relayerAddress
+    );
+    let depositCtx: DepositWatcherContext | undefined;
+    if (canMint || canRelease) {
+        depositCtx = {
+            client: await createClient(),
+            bridgeWallet: TON_BRIDGE_WALLET
+                ? Address.parse(TON_BRIDGE_WALLET)
+                : await getRelayerWalletAddress(),
+            wrappedTON: canMint ? wrappedTON : undefined,
+            bridge: canRelease ? bridge : undefined,
+            relayerAddress: ctx.relayerAddress,
+            store,
+            confirmations: TON_DEPOSIT_CONFIRMATIONS,
+            releaseRates: RELAYER_RELEASE_RATES,
+        };
+        await seedTonDepositCursor(depositCtx, TON_DEPOSIT_START_LT);
+        console.log(
+            "Watching TON bridge wallet for deposits:",
+            depositCtx.bridgeWallet.toString(),
+            "\n"
+        );
+        if (!canMint) {
+            console.log("⚠️  Relayer lacks MINTER_ROLE on WrappedTON; wTON mints stay pending.\n");
+        }
+        if (!canRelease) {
+            console.log("⚠️  Relayer lacks RELAYER_ROLE on PolygonBridge; releases stay pending.\n");
+        }
+    } else {
+        console.log(
+            "⚠️  Relayer lacks MINTER_ROLE and RELAYER_ROLE; TON deposit watcher disabled.\n"
+        );
+    }
+
+    async function pollPolygon() {
+        await sweepForReorgs(ctx);
+        await recoverPendingTransfers(ctx);
+        await recoverPendingBurns(burnCtx);
+
+        const current = await getScanHead(provider, ctx.scanHead);
+        if (current <= store.lastProcessedBlock) {
+            return;
+        }
+
+        const from = store.lastProcessedBlock + 1;
+        const to = current;
+
+        console.log(`🔎 Scanning blocks [${from}, ${to}] for bridge events…`);
+
+        // The checkpoint advances chunk by chunk, and only once every log in
+        // the chunk has been recorded in the ledger; an RPC failure leaves it
+        // where it was so the remaining range is rescanned.
+        let found = 0;
+        await scanner.scan(from, to, async (logs, range) => {
+            found += logs.length;
             for (const log of logs) {
-                const parsed = bridge.interface.parseLog(log);
-                if (!parsed) continue;
-
-                const {
-                    transferId,
-                    sender,
-                    token,
-                    amount,
-                    tonRecipient,
-                    fee,
-                } = parsed.args as any;
-
-                console.log("📦 New BridgeInitiated event:");
-                console.log("  transferId:   ", transferId);
-                console.log("  sender:       ", sender);
-                console.log("  token:        ", token);
-                console.log("  amount (net): ", ethers.formatEther(amount));
-                console.log("  tonRecipient: ", tonRecipient);
-                console.log("  fee:          ", ethers.formatEther(fee), "\n");
-
-                const t = await bridge.getTransfer(transferId);
-                console.log("  ↳ On-chain Transfer struct:");
-                console.log("     sender:        ", t.sender);
-                console.log("     token:         ", t.token);
-                console.log("     amount:        ", ethers.formatEther(t.amount));
-                console.log("     tonRecipient:  ", t.tonRecipient);
-                console.log("     timestamp:     ", t.timestamp.toString());
-                console.log("     confirmations: ", t.confirmations.toString());
-                console.log("     completed:     ", t.completed, "\n");
-
-                if (t.completed) {
-                    console.log(
-                        "  ↳ Transfer already completed on Polygon. Skipping.\n"
-                    );
-                    continue;
-                }
-
-                // TON side: send native TON (with retry/backoff)
-                const amountTon = ethers.formatEther(t.amount);
-                const tonResult = await sendNativeTon(t.tonRecipient, amountTon);
-
-                if (!tonResult.success) {
-                    console.log(
-                        "⚠️  TON transfer failed or not confirmed. Skipping confirmTransfer.\n",
-                        "    Reason:",
-                        tonResult.errorMessage || "Unknown\n"
-                    );
-                    continue;
-                }
-
-                console.log(
-                    "✅ [TON] Transfer simulated with tx id:",
-                    tonResult.tonTxId,
-                    "\n"
-                );
-
-                // Confirm transfer on Polygon as relayer
-                console.log("✅ Calling confirmTransfer on Polygon...");
-                const confirmTx = await bridge.confirmTransfer(transferId);
-                const confirmReceipt = await confirmTx.wait();
-                console.log("   confirmTransfer tx hash:", confirmReceipt?.hash);
-
-                const tAfter = await bridge.getTransfer(transferId);
-                console.log("  ↳ Transfer after confirmation:");
-                console.log("     confirmations: ", tAfter.confirmations.toString());
-                console.log("     completed:     ", tAfter.completed, "\n");
+                await handleLog(log);
             }
+            store.setLastProcessedBlock(range.to);
+        });
+
+        if (found === 0) {
+            console.log("No bridge or burn events in this range.\n");
+        }
+    }
+
+    if (RELAYER_INTENT_PORT > 0) {
+        startIntentServer(
+            bridge,
+            RELAYER_RELEASE_RATES,
+            RELAYER_INTENT_HOST,
+            RELAYER_INTENT_PORT
+        );
+    }
+
+    let polling = false;
+
+    async function poll() {
+        // A slow TON payout can outlast POLL_INTERVAL; never scan the same
+        // range twice concurrently.
+        if (polling) return;
+        polling = true;
+
+        try {
+            await pollPolygon();
         } catch (err: any) {
             console.error("Poll error:", err.message || err);
         }
+
+        try {
+            await flushConfirmations(ctx);
+        } catch (err: any) {
+            console.error("Confirmation flush error:", err.message || err);
+        }
+
+        try {
+            const archived = store.archiveFinished(
+                new Date(Date.now() - RELAYER_LEDGER_RETENTION_DAYS * 86_400_000),
+                store.lastProcessedBlock - RELAYER_REORG_LOOKBACK
+            );
+            if (archived > 0) {
+                console.log(`🗄️  Archived ${archived} finished ledger entries.\n`);
+            }
+        } catch (err: any) {
+            console.error("Ledger archive error:", err.message || err);
+        }
+
+        try {
+            if (depositCtx) {
+                await pollTonDeposits(depositCtx);
+            }
+        } catch (err: any) {
+            console.error("TON deposit poll error:", err.message || err);
+        }
+
+        polling = false;
     }
 
     setInterval(poll, POLL_INTERVAL);
@@ -0,0 +1,192 @@
+// relayer/src/intentServer.ts
+import http from "http";
+import { ethers } from "ethers";
+import { rateFor, scaleGasFee } from "./rates";
+
+// Gasless bridging: users sign an EIP-712 BridgeIntent (see
+// scripts/helpers/intent.ts) and POST it here. The relayer submits it through
+// PolygonBridge.bridgeWithIntent, paying the gas and taking it back out of
+// the bridged tokens: the fee is the estimated gas cost converted into the
+// token through RELAYER_RELEASE_RATES, and intents whose `maxRelayerFee` does
+// not cover it are rejected. The contract verifies signature, nonce and
+// deadline; every intent is simulated (by the gas estimate) first so a bad
+// one costs nothing.
+//
+//   GET  /intents/nonce/<sender>   -> { nonce }
+//   POST /intents                  { intent, signature, permit? }
+//                                  -> { txHash, transferId }
+
+const MAX_BODY_BYTES = 16 * 1024;
+
+const NO_PERMIT = { deadline: 0, v: 0, r: ethers.ZeroHash, s: ethers.ZeroHash };
+
+class RequestError extends Error {
+    constructor(readonly status: number, message: string) {
+        super(message);
+    }
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+        let body = "";
+        req.on("data", (chunk) => {
+            body += chunk;
+            if (body.length > MAX_BODY_BYTES) {
+                reject(new RequestError(413, "Request body too large"));
+                req.destroy();
+            }
+        });
+        req.on("end", () => resolve(body));
+        req.on("error", reject);
+    });
+}
+
+function parseIntentRequest(body: string) {
+    let raw: any;
+    try {
+        raw = JSON.parse(body);
+    } catch {
+        throw new RequestError(400, "Body is not valid JSON");
+    }
+
+    const i = raw?.intent;
+    if (!i || typeof raw.signature !== "string") {
+        throw new RequestError(400, "Expected { intent, signature, permit? }");
+    }
+    try {
+        const intent = {
+            sender: ethers.getAddress(i.sender),
+            token: ethers.getAddress(i.token),
+            amount: BigInt(i.amount),
+            tonRecipient: String(i.tonRecipient),
+            maxRelayerFee: BigInt(i.maxRelayerFee),
+            nonce: BigInt(i.nonce),
+            deadline: BigInt(i.deadline),
+        };
+        const permit = raw.permit
+            ? {
+                  deadline: BigInt(raw.permit.deadline),
+                  v: Number(raw.permit.v),
+                  r: ethers.hexlify(raw.permit.r),
+                  s: ethers.hexlify(raw.permit.s),
+              }
+            : NO_PERMIT;
+        return { intent, signature: raw.signature as string, permit };
+    } catch (err: any) {
+        throw new RequestError(400, `Malformed intent: ${err.message || err}`);
+    }
+}
+
+/** Revert reason of a failed call, decoded against the bridge ABI if possible. */
+function describeRevert(bridge: ethers.Contract, err: any): string {
+    const data = err?.data ?? err?.info?.error?.data;
+    if (typeof data === "string") {
+        const parsed = bridge.interface.parseError(data);
+        if (parsed) return parsed.name;
+    }
+    return err?.shortMessage || err?.message || String(err);
+}
+
+export function startIntentServer(
+    bridge: ethers.Contract,
+    rates: Record<string, bigint>,
+    host: string,
+    port: number
+): http.Server {
+    // One submission at a time keeps the relayer wallet's nonces in order.
+    let queue: Promise<unknown> = Promise.resolve();
+
+    async function submitIntent(body: string) {
+        const { intent, signature, permit } = parseIntentRequest(body);
+        const polRate = rateFor(rates, ethers.ZeroAddress);
+        const tokenRate = rateFor(rates, intent.token);
+        if (polRate === undefined || tokenRate === undefined) {
+            throw new RequestError(422, `No rate configured for token ${intent.token}`);
+        }
+
+        // The fee barely changes the gas used, so estimate with the most the
+        // sender allows.
+        let gas: bigint;
+        try {
+            gas = await bridge.bridgeWithIntent.estimateGas(
+                intent,
+                signature,
+                intent.maxRelayerFee,
+                permit
+            );
+        } catch (err: any) {
+            throw new RequestError(422, `Intent rejected: ${describeRevert(bridge, err)}`);
+        }
+        const feeData = await bridge.runner!.provider!.getFeeData();
+        const gasPrice = feeData.gasPrice ?? feeData.maxFeePerGas ?? 0n;
+        const { decimals } = await bridge.getTokenConfig(intent.token);
+        const relayerFee = scaleGasFee(gas * gasPrice, polRate, tokenRate, Number(decimals));
+        if (relayerFee > intent.maxRelayerFee) {
+            throw new RequestError(
+                422,
+                `Intent rejected: relayer fee ${relayerFee} exceeds maxRelayerFee ${intent.maxRelayerFee}`
+            );
+        }
+
+        console.log("✍️  Submitting bridge intent:");
+        console.log("  sender:       ", intent.sender);
+        console.log("  token:        ", intent.token);
+        console.log("  amount:       ", intent.amount.toString());
+        console.log("  tonRecipient: ", intent.tonRecipient);
+        console.log("  relayerFee:   ", relayerFee.toString());
+
+        const tx = await bridge.bridgeWithIntent(intent, signature, relayerFee, permit);
+        const receipt = await tx.wait();
+        console.log("  tx hash:      ", receipt?.hash, "\n");
+
+        let transferId: string | undefined;
+        for (const log of receipt?.logs ?? []) {
+            const parsed = bridge.interface.parseLog(log);
+            if (parsed?.name === "BridgeInitiated") transferId = parsed.args.transferId;
+        }
+        return { txHash: receipt?.hash, transferId };
+    }
+
+    async function route(req: http.IncomingMessage): Promise<unknown> {
+        const url = new URL(req.url ?? "/", "http://localhost");
+
+        const nonceMatch = url.pathname.match(/^\/intents\/nonce\/([^/]+)$/);
+        if (req.method === "GET" && nonceMatch) {
+            if (!ethers.isAddress(nonceMatch[1])) {
+                throw new RequestError(400, "Invalid sender address");
+            }
+            const nonce: bigint = await bridge.intentNonces(nonceMatch[1]);
+            return { nonce: nonce.toString() };
+        }
+
+        if (req.method === "POST" && url.pathname === "/intents") {
+            const body = await readBody(req);
+            const result = queue.then(() => submitIntent(body));
+            queue = result.catch(() => undefined);
+            return result;
+        }
+
+        throw new RequestError(404, "Not found");
+    }
+
+    const server = http.createServer((req, res) => {
+        route(req)
+            .then((result) => {
+                res.writeHead(200, { "Content-Type": "application/json" });
+                res.end(JSON.stringify(result));
+            })
+            .catch((err: any) => {
+                const status = err instanceof RequestError ? err.status : 500;
+                if (status === 500) {
+                    console.error("Intent endpoint error:", err.message || err);
+                }
+                res.writeHead(status, { "Content-Type": "application/json" });
+                res.end(JSON.stringify({ error: err.message || String(err) }));
+            });
+    });
+
+    server.listen(port, host, () => {
+        console.log(`Accepting bridge intents on http://${host}:${port}/intents\n`);
+    });
+    return server;
+}
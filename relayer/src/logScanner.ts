@@ -0,0 +1,187 @@
+// relayer/src/logScanner.ts
+import { ethers } from "ethers";
+
+// eth_getLogs over large ranges is rejected by most public RPCs (rpc-amoy
+// included), so ranges are split into chunks. The chunk size adapts: it is
+// halved whenever the provider complains about the range or the result size,
+// and slowly grows back after a run of successful requests. Rate-limited
+// requests are retried with exponential backoff without touching the chunk
+// size.
+
+export interface LogScannerOptions {
+    chunkSize: number;
+    minChunkSize: number;
+    // Chunks fetched in parallel while catching up.
+    concurrency: number;
+    // Retries of a rate-limited request before giving up, and the delay
+    // before the first one (doubled on every further retry).
+    rateLimitRetries?: number;
+    rateLimitBackoffMs?: number;
+}
+
+export interface BlockRange {
+    from: number;
+    to: number;
+}
+
+type LogFilter = {
+    address: string | string[];
+    topics: Array<string | string[] | null>;
+};
+
+// Successful requests in a row before the chunk size is doubled again.
+const GROW_AFTER = 8;
+
+const RATE_LIMIT_RETRIES = 5;
+const RATE_LIMIT_BACKOFF_MS = 1000;
+
+// Error messages used by common providers (geth, erigon, Alchemy, Infura,
+// QuickNode, Polygon public RPCs) for oversize getLogs requests. Rate-limit
+// errors ("rate limit exceeded", 429) must not match: shrinking the range
+// does not help with those.
+const RANGE_ERROR_PATTERNS = [
+    /block range/i,
+    /range (is )?too (large|wide|big)/i,
+    /exceed(s|ed)? .*range/i,
+    /too many (results|logs|blocks)/i,
+    /query returned more than/i,
+    /response size/i,
+];
+
+// Error messages for throttled requests (HTTP 429 and its JSON-RPC variants).
+const RATE_LIMIT_ERROR_PATTERNS = [
+    /rate limit/i,
+    /too many requests/i,
+    /request limit/i,
+    /\b429\b/,
+];
+
+function errorMessages(err: any): string[] {
+    return [
+        err?.message,
+        err?.shortMessage,
+        err?.error?.message,
+        err?.info?.error?.message,
+        err?.info?.responseStatus,
+    ].filter((m): m is string => typeof m === "string");
+}
+
+export function isRangeTooLargeError(err: any): boolean {
+    if (isRateLimitError(err)) return false;
+    return errorMessages(err).some((m) => RANGE_ERROR_PATTERNS.some((p) => p.test(m)));
+}
+
+export function isRateLimitError(err: any): boolean {
+    if (err?.status === 429 || err?.error?.code === 429) return true;
+    return errorMessages(err).some((m) => RATE_LIMIT_ERROR_PATTERNS.some((p) => p.test(m)));
+}
+
+export class LogScanner {
+    private chunkSize: number;
+    private successes = 0;
+    // Rate-limited requests in a row; reset by any successful request.
+    private rateLimited = 0;
+
+    constructor(
+        private readonly provider: Pick<ethers.Provider, "getLogs">,
+        private readonly filter: LogFilter,
+        private readonly options: LogScannerOptions
+    ) {
+        this.chunkSize = options.chunkSize;
+    }
+
+    get currentChunkSize(): number {
+        return this.chunkSize;
+    }
+
+    /**
+     * Scan [from, to] and hand each chunk's logs to `onChunk`, strictly in
+     * block order. `onChunk` for a range only runs after every earlier range
+     * has been processed, so callers can advance their checkpoint to
+     * `range.to` inside it. Up to `concurrency` chunks are fetched ahead.
+     */
+    async scan(
+        from: number,
+        to: number,
+        onChunk: (logs: ethers.Log[], range: BlockRange) => Promise<void>
+    ): Promise<void> {
+        let next = from;
+
+        while (next <= to) {
+            const ranges: BlockRange[] = [];
+            let cursor = next;
+            while (cursor <= to && ranges.length < this.options.concurrency) {
+                const end = Math.min(cursor + this.chunkSize - 1, to);
+                ranges.push({ from: cursor, to: end });
+                cursor = end + 1;
+            }
+
+            const results = await Promise.allSettled(
+                ranges.map((range) =>
+                    this.provider.getLogs({
+                        ...this.filter,
+                        fromBlock: range.from,
+                        toBlock: range.to,
+                    })
+                )
+            );
+
+            for (let i = 0; i < ranges.length; i++) {
+                const range = ranges[i];
+                const result = results[i];
+
+                if (result.status === "rejected") {
+                    if (isRateLimitError(result.reason)) {
+                        await this.backOff(result.reason);
+                    } else if (isRangeTooLargeError(result.reason)) {
+                        this.shrink(range);
+                    } else {
+                        throw result.reason;
+                    }
+                    // Re-plan from the failed range; anything fetched after
+                    // it is discarded and fetched again.
+                    break;
+                }
+
+                await onChunk(result.value, range);
+                next = range.to + 1;
+                this.recordSuccess();
+            }
+        }
+    }
+
+    private shrink(range: BlockRange): void {
+        const span = range.to - range.from + 1;
+        if (span <= this.options.minChunkSize) {
+            throw new Error(
+                `eth_getLogs still rejected for ${span}-block range [${range.from}, ${range.to}]`
+            );
+        }
+        this.chunkSize = Math.max(Math.floor(span / 2), this.options.minChunkSize);
+        this.successes = 0;
+        console.log(
+            `↘️  getLogs range rejected; chunk size reduced to ${this.chunkSize} blocks`
+        );
+    }
+
+    private async backOff(err: any): Promise<void> {
+        const retries = this.options.rateLimitRetries ?? RATE_LIMIT_RETRIES;
+        if (this.rateLimited >= retries) {
+            throw err;
+        }
+        const delay =
+            (this.options.rateLimitBackoffMs ?? RATE_LIMIT_BACKOFF_MS) * 2 ** this.rateLimited;
+        this.rateLimited++;
+        console.log(`⏳ getLogs rate limited; retrying in ${delay} ms`);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+
+    private recordSuccess(): void {
+        this.rateLimited = 0;
+        this.successes++;
+        if (this.successes >= GROW_AFTER && this.chunkSize < this.options.chunkSize) {
+            this.chunkSize = Math.min(this.chunkSize * 2, this.options.chunkSize);
+            this.successes = 0;
+        }
+    }
+}
@@ -0,0 +1,42 @@
+// relayer/src/payer.ts
+import { ethers } from "ethers";
+import { CheckpointStore } from "./checkpointStore";
+
+// Exactly one relayer pays each Polygon -> TON transfer and each wTON burn on
+// TON; the others never send TON for it. The payer is derived from the id and
+// the PolygonBridge relayer set as of the block that emitted the event, so
+// every relayer picks the same one without coordinating, however late it
+// processes the event:
+//
+//   payer = sorted(relayers)[keccak256(id) % relayers.length]
+//
+// The set at a block comes from the relayer set history in the checkpoint
+// store (seeded from getRelayers() and fed by scanned RelayerAdded /
+// RelayerRemoved logs), so no archive node is needed. A payer that is down
+// holds its share of payouts until it is back; a payer that has since been
+// removed or rotated out hands its share to the payer picked from the current
+// set, so those payouts are not stranded.
+
+/** The relayer that pays `id` (a transferId or burnId) out of `relayers`. */
+export function designatedPayer(id: string, relayers: string[]): string {
+    if (relayers.length === 0) {
+        throw new Error("PolygonBridge has no relayers");
+    }
+    const sorted = relayers
+        .map((r) => ethers.getAddress(r))
+        .sort((a, b) => (BigInt(a) < BigInt(b) ? -1 : 1));
+    const index = BigInt(ethers.id(id.toLowerCase())) % BigInt(sorted.length);
+    return sorted[Number(index)];
+}
+
+/** The payer of `id`, emitted at `blockNumber`, that should pay it now. */
+export function getDesignatedPayer(
+    store: CheckpointStore,
+    id: string,
+    blockNumber: number
+): string {
+    const payer = designatedPayer(id, store.relayersAt(blockNumber));
+    const current = store.relayersAt();
+    if (current.includes(payer.toLowerCase())) return payer;
+    return designatedPayer(id, current);
+}
@@ -0,0 +1,679 @@
+// relayer/src/payouts.ts
+import { ethers } from "ethers";
+import {
+    CheckpointStore,
+    PENDING_STATUSES,
+    TransferRecord,
+} from "./checkpointStore";
+import {
+    ChainReader,
+    ScanHeadOptions,
+    checkLogCanonical,
+    getScanHead,
+} from "./reorgGuard";
+import { getPayoutOutcome, sendNativeTon, verifyTonPayout } from "./tonService";
+import {
+    AttestationStore,
+    TransferPayout,
+    collectSignatures,
+    signTransferAttestation,
+} from "./attestations";
+import { getDesignatedPayer } from "./payer";
+import { rateFor, scalePayoutAmount } from "./rates";
+
+export interface PayoutContext {
+    bridge: ethers.Contract;
+    provider: ChainReader;
+    store: CheckpointStore;
+    relayerAddress: string;
+    scanHead: ScanHeadOptions;
+    reorgLookback: number;
+    // TON wallet of every relayer that may pay transfers, keyed by lowercase
+    // EVM address; used to find payouts other relayers recorded on Polygon.
+    relayerTonWallets: Record<string, string>;
+    // TON price of each token (see rates.ts), shared with TON -> Polygon
+    // releases.
+    rates: Record<string, bigint>;
+    // Set when relayers exchange signed attestations instead of each
+    // confirming on-chain; `tonWallet` is this relayer's paying wallet.
+    attestations?: { store: AttestationStore; tonWallet: string };
+    // Set to confirm completed payouts in batches (see flushConfirmations)
+    // instead of one confirmTransfer per payout.
+    confirmBatch?: ConfirmBatchOptions;
+}
+
+export interface ConfirmBatchOptions {
+    // Flush as soon as this many payouts wait for confirmation; also the
+    // largest batch sent in one transaction.
+    maxSize: number;
+    // Flush once the oldest waiting payout is this old (ms).
+    maxAgeMs: number;
+}
+
+/**
+ * Drive one transfer through the payout ledger, starting from whatever state
+ * the store has for it. Every step is persisted before the next side effect,
+ * so calling this again after a crash resumes without paying twice. Returns
+ * once the transfer reaches a final state or has to wait (e.g. a TON message
+ * that may still land).
+ */
+export async function processTransfer(
+    ctx: PayoutContext,
+    transferId: string
+): Promise<void> {
+    const { store } = ctx;
+
+    for (;;) {
+        const record = store.getTransfer(transferId);
+        if (!record) {
+            throw new Error(`Transfer ${transferId} is not in the ledger`);
+        }
+
+        let advanced: boolean;
+        switch (record.status) {
+            case "detected":
+                advanced = await sendPayout(ctx, record);
+                break;
+            case "payout_sent":
+                advanced = await reconcileSentPayout(ctx, record);
+                break;
+            case "payout_confirmed":
+                // Batched confirmations are sent by flushConfirmations.
+                if (ctx.confirmBatch) return;
+                advanced = await confirmOnPolygon(ctx, record);
+                break;
+            default:
+                return;
+        }
+
+        if (!advanced) return;
+    }
+}
+
+/**
+ * Recovery pass: finish every transfer the ledger still has in flight, e.g.
+ * after a crash between the TON payout and confirmTransfer.
+ */
+export async function recoverPendingTransfers(ctx: PayoutContext): Promise<void> {
+    const pending = ctx.store.listTransfers(PENDING_STATUSES);
+    if (pending.length === 0) return;
+
+    console.log(`♻️  Recovering ${pending.length} in-flight transfer(s)…\n`);
+    for (const record of pending) {
+        try {
+            await processTransfer(ctx, record.transferId);
+        } catch (err: any) {
+            console.error(
+                `Recovery of ${record.transferId} failed:`,
+                err.message || err
+            );
+        }
+    }
+}
+
+/**
+ * Re-check recently recorded transfers against the canonical chain and flag
+ * those whose BridgeInitiated log has disappeared. Transfers still in
+ * payout_sent are left alone until their TON message has settled.
+ */
+export async function sweepForReorgs(ctx: PayoutContext): Promise<void> {
+    const latest = await ctx.provider.getBlockNumber();
+    const recent = ctx.store.listTransfers(
+        ["detected", "payout_confirmed", "polygon_confirmed", "skipped"],
+        latest - ctx.reorgLookback
+    );
+
+    for (const record of recent) {
+        await verifyOrigin(ctx, record);
+    }
+}
+
+/**
+ * Returns true if the transfer's origin log is canonical and at least as deep
+ * as the scan head. Flags the transfer as reorged if the log is gone.
+ */
+async function verifyOrigin(
+    ctx: PayoutContext,
+    record: TransferRecord
+): Promise<boolean> {
+    const { bridge, provider, store } = ctx;
+    const { transferId } = record;
+
+    const status = await checkLogCanonical(provider, {
+        txHash: record.txHash,
+        blockHash: record.blockHash,
+        address: await bridge.getAddress(),
+        topics: [bridge.interface.getEvent("BridgeInitiated")!.topicHash, transferId],
+    });
+
+    if (status.kind === "missing") {
+        const paid =
+            record.status === "payout_confirmed" ||
+            record.status === "polygon_confirmed";
+        console.error(
+            `🚨 BridgeInitiated for ${transferId} (block ${record.blockNumber}) is no longer on the canonical chain.`,
+            paid ? "TON was ALREADY PAID for it; manual review required.\n" : "\n"
+        );
+        store.transition(transferId, "reorged", { paidBeforeReorg: paid });
+        return false;
+    }
+
+    if (status.kind === "moved") {
+        console.log(
+            `↪️  BridgeInitiated for ${transferId} moved to block ${status.blockNumber} after a reorg.\n`
+        );
+        store.updateTransfer(transferId, {
+            blockNumber: status.blockNumber,
+            blockHash: status.blockHash,
+        });
+    } else if (!record.blockHash) {
+        store.updateTransfer(transferId, { blockHash: status.blockHash });
+    }
+
+    return status.blockNumber <= (await getScanHead(provider, ctx.scanHead));
+}
+
+async function sendPayout(
+    ctx: PayoutContext,
+    record: TransferRecord
+): Promise<boolean> {
+    const { bridge, store, relayerAddress } = ctx;
+    const { transferId } = record;
+
+    // Never pay for a log that is not (or no longer) safely on chain.
+    if (!(await verifyOrigin(ctx, record))) return false;
+
+    const t = await bridge.getTransfer(transferId);
+    // Amounts are in the token's own units.
+    const { decimals } = await bridge.getTokenConfig(t.token);
+    console.log("  ↳ On-chain Transfer struct:");
+    console.log("     sender:        ", t.sender);
+    console.log("     token:         ", t.token);
+    console.log("     amount:        ", ethers.formatUnits(t.amount, decimals));
+    console.log("     tonRecipient:  ", t.tonRecipient);
+    console.log("     timestamp:     ", t.timestamp.toString());
+    console.log("     confirmations: ", t.confirmations.toString());
+    console.log("     completed:     ", t.completed);
+    console.log("     refunded:      ", t.refunded, "\n");
+
+    if (t.completed) {
+        console.log("  ↳ Transfer already completed on Polygon. Skipping.\n");
+        store.transition(transferId, "skipped");
+        return false;
+    }
+
+    if (t.refunded) {
+        console.log("  ↳ Transfer was refunded to its sender. Skipping.\n");
+        store.transition(transferId, "refunded");
+        return false;
+    }
+
+    // TON is paid at the token's rate, rounded down to the nanoTON. Without a
+    // rate there is no price to pay, check or confirm a payout at.
+    const rate = rateFor(ctx.rates, t.token);
+    const amountNano = rate === undefined ? 0n : scalePayoutAmount(t.amount, rate, Number(decimals));
+    if (amountNano === 0n) {
+        const reason = rate === undefined
+            ? `No rate configured for token ${t.token}`
+            : "Transfer is worth less than one nanoTON";
+        console.warn(`  ↳ ${reason}. Holding payout.\n`);
+        store.updateTransfer(transferId, { lastError: reason });
+        return false;
+    }
+    const amountTon = ethers.formatUnits(amountNano, 9);
+
+    // Another relayer already paid and recorded its payout on Polygon; paying
+    // again would pay the recipient twice. Confirm that payout instead.
+    if (t.tonTxHash !== ethers.ZeroHash) {
+        return adoptRecordedPayout(ctx, record, t, amountTon);
+    }
+
+    // Only the designated payer (see payer.ts) sends TON for a transfer; the
+    // others wait for its payout to be attested or recorded on Polygon.
+    const payer = getDesignatedPayer(store, transferId, record.blockNumber);
+    if (payer.toLowerCase() !== relayerAddress.toLowerCase()) {
+        if (ctx.attestations && (await attestPeerPayout(ctx, transferId, payer, t, amountTon))) {
+            store.transition(transferId, "skipped");
+            return false;
+        }
+        console.log(`  ↳ Transfer is paid by relayer ${payer}. Waiting for its payout.\n`);
+        store.updateTransfer(transferId, { lastError: `Waiting for payout by ${payer}` });
+        return false;
+    }
+
+    // Once the refund window is open the sender may take the funds back at
+    // any moment; paying now could pay the same transfer twice.
+    if (await bridge.isRefundable(transferId)) {
+        console.log("  ↳ Transfer expired and is refundable by its sender. Holding payout.\n");
+        store.updateTransfer(transferId, { lastError: "Transfer expired" });
+        return false;
+    }
+
+    // Respect the on-chain circuit breaker: never pay out what confirmTransfer
+    // would refuse to complete. The transfer stays detected and is retried.
+    if (await bridge.paused()) {
+        console.log("  ↳ Bridge is paused. Holding payout.\n");
+        store.updateTransfer(transferId, { lastError: "Bridge paused" });
+        return false;
+    }
+    const remaining: bigint = await bridge.remainingOutboundCapacity(t.token);
+    if (t.amount > remaining) {
+        console.warn(
+            `  ↳ Outbound volume cap reached (remaining ${ethers.formatUnits(remaining, decimals)}). Holding payout.\n`
+        );
+        store.updateTransfer(transferId, {
+            lastError: "Outbound volume cap reached",
+        });
+        return false;
+    }
+
+    // TON side: send native TON (with retry/backoff). The attempt is
+    // recorded as payout_sent before the message leaves this process.
+    const tonResult = await sendNativeTon(t.tonRecipient, amountTon, {
+        beforeSend: ({ seqno, validUntil }) => {
+            store.transition(transferId, "payout_sent", {
+                attempts: record.attempts + 1,
+                payoutSeqno: seqno,
+                payoutValidUntil: validUntil,
+            });
+        },
+    });
+
+    if (tonResult.bounced) {
+        console.log(
+            `🚫 [TON] Recipient bounced the payout for ${transferId}. Needs operator review.\n`
+        );
+        store.transition(transferId, "payout_bounced", {
+            tonTxId: tonResult.tonTxId,
+            tonLt: tonResult.tonLt,
+            lastError: tonResult.errorMessage,
+        });
+        return false;
+    }
+
+    if (!tonResult.success) {
+        console.log(
+            "⚠️  TON transfer failed or not confirmed. Skipping confirmTransfer.\n",
+            "    Reason:",
+            tonResult.errorMessage || "Unknown\n"
+        );
+        // If the message was handed out, the ledger stays in payout_sent and
+        // the next recovery pass settles it from the wallet's history.
+        store.updateTransfer(transferId, { lastError: tonResult.errorMessage });
+        return false;
+    }
+
+    console.log(
+        "✅ [TON] Payout confirmed. tx:",
+        tonResult.tonTxId,
+        "lt:",
+        tonResult.tonLt,
+        "\n"
+    );
+    store.transition(transferId, "payout_confirmed", {
+        tonTxId: tonResult.tonTxId,
+        tonLt: tonResult.tonLt,
+        lastError: undefined,
+    });
+    return true;
+}
+
+/**
+ * Move a transfer whose TON payout is already recorded on Polygon straight to
+ * payout_confirmed with that payout, once it is found in one of the
+ * RELAYER_TON_WALLETS and pays the transfer. Returns false, leaving the
+ * transfer detected, while no listed wallet has the transaction.
+ */
+async function adoptRecordedPayout(
+    ctx: PayoutContext,
+    record: TransferRecord,
+    t: { tonRecipient: string; tonTxHash: string; tonLt: bigint },
+    amountTon: string
+): Promise<boolean> {
+    const { store } = ctx;
+    const { transferId } = record;
+    const lt = t.tonLt.toString();
+
+    for (const wallet of Object.values(ctx.relayerTonWallets)) {
+        // A wallet that does not have the transaction may also make the RPC
+        // reject the lookup; either way it is not the payer.
+        const verified = await verifyTonPayout(
+            { wallet, txHash: t.tonTxHash, lt },
+            t.tonRecipient,
+            amountTon
+        ).catch(() => false);
+        if (!verified) continue;
+
+        console.log(
+            `  ↳ TON payout already recorded on Polygon (tx ${t.tonTxHash}, lt ${lt}) and paid by ${wallet}. Confirming it.\n`
+        );
+        store.transition(transferId, "payout_confirmed", {
+            tonTxId: t.tonTxHash.replace(/^0x/, ""),
+            tonLt: lt,
+            payoutWallet: wallet,
+            lastError: undefined,
+        });
+        return true;
+    }
+
+    console.warn(
+        `  ↳ TON payout recorded on Polygon (tx ${t.tonTxHash}) not found in any relayer wallet. Holding.\n`
+    );
+    store.updateTransfer(transferId, {
+        lastError: "Recorded TON payout not found in RELAYER_TON_WALLETS",
+    });
+    return false;
+}
+
+/**
+ * With attestations enabled, the designated payer's payout is attested once it
+ * checks out on TON. Returns false if the payer has not attested it yet.
+ */
+async function attestPeerPayout(
+    ctx: PayoutContext,
+    transferId: string,
+    payer: string,
+    t: { tonRecipient: string },
+    amountTon: string
+): Promise<boolean> {
+    const { bridge } = ctx;
+    const attestations = ctx.attestations!.store;
+
+    const peer = attestations
+        .list(transferId)
+        .find((a) => a.signer.toLowerCase() === payer.toLowerCase());
+    if (!peer) return false;
+
+    const verified = await verifyTonPayout(
+        { wallet: peer.payoutWallet, txHash: peer.tonTxHash, lt: peer.tonLt },
+        t.tonRecipient,
+        amountTon
+    );
+    if (!verified) {
+        throw new Error(
+            `TON payout attested by ${peer.signer} (tx ${peer.tonTxHash}) does not match the transfer`
+        );
+    }
+
+    const payout: TransferPayout = {
+        transferId,
+        tonTxHash: peer.tonTxHash,
+        tonLt: peer.tonLt,
+        payoutWallet: peer.payoutWallet,
+    };
+    attestations.publish(
+        await signTransferAttestation(bridge.runner as ethers.Signer, bridge, payout)
+    );
+    console.log(
+        `  ↳ Paid on TON by relayer ${peer.signer} (tx ${peer.tonTxHash}). Attested.\n`
+    );
+    return true;
+}
+
+async function reconcileSentPayout(
+    ctx: PayoutContext,
+    record: TransferRecord
+): Promise<boolean> {
+    const { bridge, store } = ctx;
+    const { transferId, payoutSeqno, payoutValidUntil } = record;
+
+    if (payoutSeqno === undefined || payoutValidUntil === undefined) {
+        throw new Error(`Transfer ${transferId} is payout_sent without a seqno`);
+    }
+
+    const t = await bridge.getTransfer(transferId);
+    const outcome = await getPayoutOutcome(
+        { seqno: payoutSeqno, validUntil: payoutValidUntil },
+        t.tonRecipient
+    );
+
+    switch (outcome.kind) {
+        case "pending":
+            // Message may still be included; check again on the next pass.
+            return false;
+
+        case "landed":
+            console.log(
+                `✅ [TON] Payout for ${transferId} landed. tx: ${outcome.txHash} lt: ${outcome.lt}\n`
+            );
+            store.transition(transferId, "payout_confirmed", {
+                tonTxId: outcome.txHash,
+                tonLt: outcome.lt,
+                lastError: undefined,
+            });
+            return true;
+
+        case "bounced":
+            console.log(
+                `🚫 [TON] Recipient bounced the payout for ${transferId}. Needs operator review.\n`
+            );
+            store.transition(transferId, "payout_bounced", {
+                tonTxId: outcome.txHash,
+                tonLt: outcome.lt,
+            });
+            return false;
+
+        case "failed":
+        case "expired":
+            console.log(
+                `↩️  [TON] Payout for ${transferId} did not go out (${
+                    outcome.kind === "failed" ? outcome.reason : "expired"
+                }). Will resend.\n`
+            );
+            store.transition(transferId, "detected", {
+                payoutSeqno: undefined,
+                payoutValidUntil: undefined,
+            });
+            return true;
+    }
+}
+
+/**
+ * Confirm every paid-out transfer waiting for its Polygon confirmation in
+ * confirmTransfers batches, once enough have accumulated or the oldest has
+ * waited long enough. A no-op unless batching is enabled.
+ */
+export async function flushConfirmations(ctx: PayoutContext): Promise<void> {
+    const { bridge, store, confirmBatch } = ctx;
+    if (!confirmBatch) return;
+
+    const ready = store.listTransfers(["payout_confirmed"]);
+    if (ready.length === 0) return;
+
+    // Records queued before queuedAt existed fall back to their last update.
+    const oldest = Math.min(
+        ...ready.map((r) => Date.parse(r.queuedAt ?? r.updatedAt))
+    );
+    if (
+        ready.length < confirmBatch.maxSize &&
+        Date.now() - oldest < confirmBatch.maxAgeMs
+    ) {
+        return;
+    }
+
+    if (await bridge.paused()) {
+        console.log(`⏸️  Bridge is paused. Holding ${ready.length} confirmation(s).\n`);
+        return;
+    }
+
+    for (let i = 0; i < ready.length; i += confirmBatch.maxSize) {
+        const tripped = await confirmTransferBatch(
+            ctx,
+            ready.slice(i, i + confirmBatch.maxSize)
+        );
+        if (tripped) return;
+    }
+}
+
+/** Returns true if the batch tripped the circuit breaker. */
+async function confirmTransferBatch(
+    ctx: PayoutContext,
+    records: TransferRecord[]
+): Promise<boolean> {
+    const { bridge, store, relayerAddress } = ctx;
+
+    const batch: { transferId: string; tonTxHash: string; tonLt: bigint }[] = [];
+    for (const record of records) {
+        if (!(await needsConfirmation(ctx, record))) continue;
+        batch.push({
+            transferId: record.transferId,
+            tonTxHash: "0x" + record.tonTxId,
+            tonLt: BigInt(record.tonLt!),
+        });
+    }
+    if (batch.length === 0) return false;
+
+    console.log(`✅ Calling confirmTransfers on Polygon for ${batch.length} transfer(s)...`);
+    const confirmTx = await bridge.confirmTransfers(batch);
+    const confirmReceipt = await confirmTx.wait();
+    console.log("   confirmTransfers tx hash:", confirmReceipt?.hash, "\n");
+
+    // A confirmation beyond the outbound cap trips the circuit breaker and
+    // leaves it and the rest of the batch unconfirmed.
+    let tripped = false;
+    for (const { transferId } of batch) {
+        if (await bridge.hasConfirmed(transferId, relayerAddress)) {
+            store.transition(transferId, "polygon_confirmed", {
+                polygonTxHash: confirmReceipt?.hash,
+            });
+        } else {
+            tripped = true;
+            store.updateTransfer(transferId, {
+                lastError: "Circuit breaker tripped",
+            });
+        }
+    }
+    if (tripped) {
+        console.error("🚨 confirmTransfers tripped the circuit breaker. Bridge is paused.\n");
+    }
+    return tripped;
+}
+
+/**
+ * Whether this relayer still has to confirm a paid-out transfer. Transfers
+ * that are settled on Polygon move on in the ledger instead.
+ */
+async function needsConfirmation(
+    ctx: PayoutContext,
+    record: TransferRecord
+): Promise<boolean> {
+    const { bridge, store, relayerAddress } = ctx;
+    const { transferId, tonTxId, tonLt } = record;
+
+    if (!tonTxId || tonLt === undefined) {
+        throw new Error(`Transfer ${transferId} is payout_confirmed without a TON tx`);
+    }
+
+    const t = await bridge.getTransfer(transferId);
+    const alreadyConfirmed = await bridge.hasConfirmed(transferId, relayerAddress);
+    if (t.completed || alreadyConfirmed) {
+        store.transition(transferId, "polygon_confirmed");
+        return false;
+    }
+
+    if (t.refunded) {
+        console.error(
+            `🚨 Transfer ${transferId} was refunded to its sender after the TON payout. Manual review required.\n`
+        );
+        store.transition(transferId, "refunded", { paidBeforeRefund: true });
+        return false;
+    }
+    return true;
+}
+
+async function confirmOnPolygon(
+    ctx: PayoutContext,
+    record: TransferRecord
+): Promise<boolean> {
+    const { bridge, store, relayerAddress } = ctx;
+    const { transferId } = record;
+    const tonTxId = record.tonTxId!;
+    const tonLt = record.tonLt!;
+
+    if (!(await needsConfirmation(ctx, record))) {
+        return store.getTransfer(transferId)?.status === "polygon_confirmed";
+    }
+    const t = await bridge.getTransfer(transferId);
+
+    if (await bridge.paused()) {
+        store.updateTransfer(transferId, { lastError: "Bridge paused" });
+        return false;
+    }
+
+    const payout: TransferPayout = {
+        transferId,
+        tonTxHash: "0x" + tonTxId,
+        tonLt,
+        payoutWallet: record.payoutWallet ?? ctx.attestations?.tonWallet ?? "",
+    };
+    const { relayerThreshold } = await bridge.config();
+
+    let confirmTx: ethers.ContractTransactionResponse;
+    if (ctx.attestations && relayerThreshold > 1n) {
+        // Publish our attestation and submit once peers have added theirs.
+        const attestations = ctx.attestations.store;
+        const signed = attestations
+            .list(transferId)
+            .some((a) => a.signer.toLowerCase() === relayerAddress.toLowerCase());
+        if (!signed) {
+            attestations.publish(
+                await signTransferAttestation(bridge.runner as ethers.Signer, bridge, payout)
+            );
+        }
+
+        const signatures = await collectSignatures(
+            bridge,
+            attestations.list(transferId),
+            payout
+        );
+        const confirmations = t.confirmations + BigInt(signatures.length);
+        if (confirmations < relayerThreshold) {
+            store.updateTransfer(transferId, {
+                lastError: `Waiting for attestations (${confirmations}/${relayerThreshold})`,
+            });
+            return false;
+        }
+
+        console.log(
+            `✅ Calling confirmTransferWithSignatures on Polygon (${signatures.length} signatures)...`
+        );
+        confirmTx = await bridge.confirmTransferWithSignatures(
+            transferId,
+            payout.tonTxHash,
+            BigInt(tonLt),
+            signatures
+        );
+    } else {
+        // Confirm transfer on Polygon as relayer, attesting to the TON payout
+        console.log("✅ Calling confirmTransfer on Polygon...");
+        confirmTx = await bridge.confirmTransfer(
+            transferId,
+            payout.tonTxHash,
+            BigInt(tonLt)
+        );
+    }
+    const confirmReceipt = await confirmTx.wait();
+    console.log("   confirmation tx hash:", confirmReceipt?.hash);
+
+    // A confirmation beyond the outbound cap trips the circuit breaker and
+    // is not recorded; retry once an admin has reset it.
+    if (!(await bridge.hasConfirmed(transferId, relayerAddress))) {
+        console.error(
+            `🚨 Confirming ${transferId} tripped the circuit breaker. Bridge is paused.\n`
+        );
+        store.updateTransfer(transferId, {
+            lastError: "Circuit breaker tripped",
+        });
+        return false;
+    }
+
+    const tAfter = await bridge.getTransfer(transferId);
+    console.log("  ↳ Transfer after confirmation:");
+    console.log("     confirmations: ", tAfter.confirmations.toString());
+    console.log("     completed:     ", tAfter.completed, "\n");
+
+    store.transition(transferId, "polygon_confirmed", {
+        polygonTxHash: confirmReceipt?.hash,
+    });
+    return true;
+}
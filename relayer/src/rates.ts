@@ -0,0 +1,66 @@
+// relayer/src/rates.ts
+
+// Bridge pricing between TON and the tokens PolygonBridge locks. Every token
+// has one rate in RELAYER_RELEASE_RATES (18-decimal whole tokens per TON),
+// used in both directions so a round trip never pays out more than it took
+// in: TON deposits release `amountNano * rate` of the token, and Polygon
+// transfers pay `amount / rate` TON. Both directions round down. Relayer
+// fees for bridge intents convert gas paid in POL into the bridged token
+// through the same table.
+
+const RATE_DECIMALS = 18n;
+const TON_DECIMALS = 9n;
+
+/**
+ * Amount of a token with `decimals` released for `amountNano` TON at `rate`,
+ * rounded down to the token's base unit.
+ */
+export function scaleReleaseAmount(
+    amountNano: bigint,
+    rate: bigint,
+    decimals: number
+): bigint {
+    return (
+        (amountNano * rate * 10n ** BigInt(decimals)) /
+        10n ** (TON_DECIMALS + RATE_DECIMALS)
+    );
+}
+
+/**
+ * NanoTON paid for `amount` of a token with `decimals` at `rate`, rounded
+ * down to the nanoTON.
+ */
+export function scalePayoutAmount(
+    amount: bigint,
+    rate: bigint,
+    decimals: number
+): bigint {
+    return (
+        (amount * 10n ** (TON_DECIMALS + RATE_DECIMALS)) /
+        (rate * 10n ** BigInt(decimals))
+    );
+}
+
+/**
+ * Amount of a token with `decimals` worth `gasCostWei` of POL, converted
+ * through both tokens' TON rates and rounded up so the relayer is not left
+ * short of its gas.
+ */
+export function scaleGasFee(
+    gasCostWei: bigint,
+    polRate: bigint,
+    tokenRate: bigint,
+    decimals: number
+): bigint {
+    const numerator = gasCostWei * tokenRate * 10n ** BigInt(decimals);
+    const denominator = polRate * 10n ** 18n;
+    return (numerator + denominator - 1n) / denominator;
+}
+
+/** The configured rate of `token` (zero address for POL), if any. */
+export function rateFor(
+    rates: Record<string, bigint>,
+    token: string
+): bigint | undefined {
+    return rates[token.toLowerCase()];
+}
@@ -0,0 +1,94 @@
+// relayer/src/reorgGuard.ts
+
+// Reorg protection for the Polygon side of the relayer: how far it is safe to
+// scan, and whether a log we already recorded is still on the canonical chain.
+//
+// Only the handful of provider methods used here are required, so the same
+// helpers work against an ethers JsonRpcProvider in production and the
+// Hardhat provider in tests.
+
+export type ScanBlockTag = "latest" | "safe" | "finalized";
+
+export interface ScanHeadOptions {
+    // Blocks to stay behind the chain head; only used with the "latest" tag.
+    confirmations: number;
+    blockTag: ScanBlockTag;
+}
+
+export interface ChainReader {
+    getBlockNumber(): Promise<number>;
+    getBlock(
+        blockTag: number | string
+    ): Promise<{ number: number; hash: string | null } | null>;
+    getTransactionReceipt(hash: string): Promise<{
+        blockNumber: number;
+        blockHash: string;
+        logs: ReadonlyArray<{ address: string; topics: ReadonlyArray<string> }>;
+    } | null>;
+}
+
+export interface SeenLog {
+    txHash: string;
+    blockHash?: string;
+    address: string;
+    // Leading topics that identify the log (event signature, indexed id, …).
+    topics: string[];
+}
+
+export type LogStatus =
+    | { kind: "canonical"; blockNumber: number; blockHash: string }
+    | { kind: "moved"; blockNumber: number; blockHash: string }
+    | { kind: "missing" };
+
+/**
+ * Highest block the relayer may process. With the "latest" tag this is the
+ * head minus `confirmations`; with "safe"/"finalized" it is whatever the node
+ * reports for that tag, which already carries the chain's own finality rules.
+ */
+export async function getScanHead(
+    reader: ChainReader,
+    options: ScanHeadOptions
+): Promise<number> {
+    if (options.blockTag === "latest") {
+        const latest = await reader.getBlockNumber();
+        return Math.max(latest - options.confirmations, 0);
+    }
+
+    const block = await reader.getBlock(options.blockTag);
+    if (!block) {
+        throw new Error(`RPC returned no "${options.blockTag}" block`);
+    }
+    return block.number;
+}
+
+/**
+ * Re-check a previously seen log against the canonical chain. A log whose
+ * transaction was re-included in a different block is reported as "moved"
+ * (still valid, but at a new height); one whose transaction or log no longer
+ * exists is "missing".
+ */
+export async function checkLogCanonical(
+    reader: ChainReader,
+    seen: SeenLog
+): Promise<LogStatus> {
+    const receipt = await reader.getTransactionReceipt(seen.txHash);
+    if (!receipt) return { kind: "missing" };
+
+    const present = receipt.logs.some(
+        (log) =>
+            log.address.toLowerCase() === seen.address.toLowerCase() &&
+            seen.topics.every(
+                (topic, i) => log.topics[i]?.toLowerCase() === topic.toLowerCase()
+            )
+    );
+    if (!present) return { kind: "missing" };
+
+    const location = {
+        blockNumber: receipt.blockNumber,
+        blockHash: receipt.blockHash,
+    };
+    if (seen.blockHash && seen.blockHash.toLowerCase() !== receipt.blockHash.toLowerCase()) {
+        return { kind: "moved", ...location };
+    }
+    return { kind: "canonical", ...location };
+}
@@ -0,0 +1,369 @@
+// relayer/src/tonDeposits.ts
+import { ethers } from "ethers";
+import { TonClient } from "@ton/ton";
+import { Address, Cell, Transaction } from "@ton/core";
+import {
+    CheckpointStore,
+    DepositKind,
+    DepositRecord,
+    TonCursor,
+} from "./checkpointStore";
+import { rateFor, scaleReleaseAmount } from "./rates";
+
+// TON -> Polygon: watch the bridge wallet for incoming TON whose text comment
+// says what to do on Polygon, and act once the deposit has enough TON
+// confirmations. The TON transaction hash is the replay key on both paths.
+//
+//   <evm address>                   mint the same amount of wTON (both use 9
+//                                   decimals) via WrappedTON.mint
+//   release:<evm address>           release locked POL from PolygonBridge
+//   release:<token>:<evm address>   release a locked ERC-20 from PolygonBridge
+//
+// Releases are priced at the rate configured for the token (see rates.ts),
+// rounded down to the token's decimals, and go through PolygonBridge.confirmRelease, which waits for the
+// relayer threshold. A release of a token without a rate, or one that would
+// release nothing, is recorded as invalid with the reason.
+
+const TX_PAGE_SIZE = 50;
+const RELEASE_PREFIX = "release:";
+
+export interface DepositWatcherContext {
+    client: TonClient;
+    bridgeWallet: Address;
+    // Set only when the relayer holds MINTER_ROLE on WrappedTON.
+    wrappedTON?: ethers.Contract;
+    // Set only when the relayer holds RELAYER_ROLE on PolygonBridge.
+    bridge?: ethers.Contract;
+    relayerAddress: string;
+    store: CheckpointStore;
+    // Masterchain blocks that must pass after a deposit is first seen.
+    confirmations: number;
+    // Release rate per token (lowercase address), 18-decimal whole tokens
+    // per TON.
+    releaseRates: Record<string, bigint>;
+}
+
+export interface DepositInstruction {
+    kind: DepositKind;
+    evmRecipient: string;
+    // Release only; zero address for POL.
+    token?: string;
+}
+
+/** Text comment carried by a message body (op 0), if any. */
+export function readTextComment(body: Cell): string | undefined {
+    const slice = body.beginParse();
+    if (slice.remainingBits < 32) return undefined;
+    if (slice.loadUint(32) !== 0) return undefined;
+    try {
+        return slice.loadStringTail();
+    } catch {
+        return undefined;
+    }
+}
+
+/** What a deposit comment asks for, or undefined if it is not an instruction. */
+export function parseDepositComment(comment: string): DepositInstruction | undefined {
+    const text = comment.trim();
+
+    if (!text.toLowerCase().startsWith(RELEASE_PREFIX)) {
+        return ethers.isAddress(text)
+            ? { kind: "mint", evmRecipient: ethers.getAddress(text) }
+            : undefined;
+    }
+
+    const parts = text.slice(RELEASE_PREFIX.length).split(":");
+    if (parts.length > 2 || !parts.every((p) => ethers.isAddress(p))) {
+        return undefined;
+    }
+    const [token, recipient] =
+        parts.length === 2 ? parts : [ethers.ZeroAddress, parts[0]];
+    return {
+        kind: "release",
+        evmRecipient: ethers.getAddress(recipient),
+        token: ethers.getAddress(token),
+    };
+}
+
+/**
+ * Seed the TON cursor on first run: from TON_DEPOSIT_START_LT if given,
+ * otherwise from the wallet's newest transaction so history is not replayed.
+ */
+export async function seedTonDepositCursor(
+    ctx: DepositWatcherContext,
+    startLt?: string
+): Promise<void> {
+    if (ctx.store.tonDepositCursor) return;
+
+    if (startLt) {
+        ctx.store.setTonDepositCursor({ lt: startLt, hash: "" });
+        return;
+    }
+
+    const [newest] = await ctx.client.getTransactions(ctx.bridgeWallet, { limit: 1 });
+    ctx.store.setTonDepositCursor(
+        newest
+            ? { lt: newest.lt.toString(), hash: newest.hash().toString("hex") }
+            : { lt: "0", hash: "" }
+    );
+}
+
+/** Bridge-wallet transactions newer than `cursor`, oldest first. */
+async function fetchNewTransactions(
+    client: TonClient,
+    wallet: Address,
+    cursor: TonCursor
+): Promise<Transaction[]> {
+    const newer: Transaction[] = [];
+    const stopAt = BigInt(cursor.lt);
+    let page: { lt: string; hash: string } | undefined;
+
+    for (;;) {
+        const txs = await client.getTransactions(wallet, {
+            limit: TX_PAGE_SIZE,
+            ...(page ?? {}),
+        });
+
+        for (const tx of txs) {
+            if (tx.lt <= stopAt) return newer.reverse();
+            // Paging with lt/hash is inclusive of the starting transaction.
+            if (page && tx.lt.toString() === page.lt) continue;
+            newer.push(tx);
+        }
+
+        if (txs.length < TX_PAGE_SIZE) return newer.reverse();
+        const last = txs[txs.length - 1];
+        page = { lt: last.lt.toString(), hash: last.hash().toString("base64") };
+    }
+}
+
+/**
+ * One pass of the deposit watcher: record new deposits, act on every recorded
+ * deposit that has reached the confirmation depth, and check whether releases
+ * waiting for other relayers have gone through.
+ */
+export async function pollTonDeposits(ctx: DepositWatcherContext): Promise<void> {
+    const { client, store } = ctx;
+    const cursor = store.tonDepositCursor;
+    if (!cursor) {
+        throw new Error("TON deposit cursor not seeded");
+    }
+
+    const { latestSeqno } = await client.getMasterchainInfo();
+
+    const txs = await fetchNewTransactions(client, ctx.bridgeWallet, cursor);
+    for (const tx of txs) {
+        recordIfDeposit(ctx, tx, latestSeqno);
+        store.setTonDepositCursor({
+            lt: tx.lt.toString(),
+            hash: tx.hash().toString("hex"),
+        });
+    }
+
+    for (const deposit of store.listDeposits(["detected"])) {
+        if (latestSeqno - deposit.seenAtMcSeqno < ctx.confirmations) continue;
+        const release = deposit.kind === "release";
+        // Left pending until the relayer is granted the matching role.
+        if (!(release ? ctx.bridge : ctx.wrappedTON)) continue;
+        try {
+            if (release) {
+                await confirmDepositRelease(ctx, deposit);
+            } else {
+                await mintDeposit(ctx, deposit);
+            }
+        } catch (err: any) {
+            console.error(
+                `${release ? "Releasing" : "Minting wTON"} for TON tx ${deposit.tonTxHash} failed:`,
+                err.message || err
+            );
+            store.updateDeposit(deposit.tonTxHash, {
+                attempts: deposit.attempts + 1,
+                lastError: err.message || String(err),
+            });
+        }
+    }
+
+    if (ctx.bridge) {
+        for (const deposit of store.listDeposits(["confirmed"])) {
+            const release = await ctx.bridge.getRelease("0x" + deposit.tonTxHash);
+            if (release.executed) {
+                console.log(`✅ Release for TON tx ${deposit.tonTxHash} executed.\n`);
+                store.updateDeposit(deposit.tonTxHash, { status: "released" });
+            }
+        }
+    }
+}
+
+function recordIfDeposit(
+    ctx: DepositWatcherContext,
+    tx: Transaction,
+    mcSeqno: number
+): void {
+    const msg = tx.inMessage;
+    if (!msg || msg.info.type !== "internal" || msg.info.bounced) return;
+
+    const amountNano = msg.info.value.coins;
+    if (amountNano === 0n) return;
+
+    const comment = readTextComment(msg.body) ?? "";
+    const instruction = parseDepositComment(comment);
+    const tonTxHash = tx.hash().toString("hex");
+
+    const record = ctx.store.recordDeposit({
+        tonTxHash,
+        lt: tx.lt.toString(),
+        sender: msg.info.src.toString(),
+        amountNano: amountNano.toString(),
+        comment,
+        kind: instruction?.kind,
+        evmRecipient: instruction?.evmRecipient,
+        token: instruction?.token,
+        status: instruction ? "detected" : "invalid",
+        seenAtMcSeqno: mcSeqno,
+    });
+
+    const action =
+        instruction?.kind === "release"
+            ? `release of ${instruction.token === ethers.ZeroAddress ? "POL" : instruction.token}`
+            : "wTON";
+    console.log(
+        instruction
+            ? `📥 [TON] Deposit ${tonTxHash}: ${ethers.formatUnits(amountNano, 9)} TON, ${action} for ${instruction.evmRecipient}`
+            : `⚠️  [TON] Deposit ${tonTxHash} has no usable instruction in its comment ("${comment}"). Ignoring.`,
+        record.status === "detected" ? "(awaiting confirmations)\n" : "\n"
+    );
+}
+
+async function mintDeposit(
+    ctx: DepositWatcherContext,
+    deposit: DepositRecord
+): Promise<void> {
+    const { store } = ctx;
+    const wrappedTON = ctx.wrappedTON!;
+    const tonTxHash = "0x" + deposit.tonTxHash;
+
+    // The contract is the source of truth: a mint that landed before a crash
+    // must not be retried.
+    if (await wrappedTON.processedTonTx(tonTxHash)) {
+        store.updateDeposit(deposit.tonTxHash, { status: "minted" });
+        return;
+    }
+
+    console.log("🪙 Minting wTON for TON deposit:");
+    console.log("  tonTxHash:    ", tonTxHash);
+    console.log("  to:           ", deposit.evmRecipient);
+    console.log("  amount (wTON):", ethers.formatUnits(deposit.amountNano, 9));
+
+    const tx = await wrappedTON.mint(
+        deposit.evmRecipient,
+        deposit.amountNano,
+        tonTxHash
+    );
+    const receipt = await tx.wait();
+    console.log("  mint tx hash: ", receipt?.hash, "\n");
+
+    store.updateDeposit(deposit.tonTxHash, {
+        status: "minted",
+        attempts: deposit.attempts + 1,
+        polygonTxHash: receipt?.hash,
+        lastError: undefined,
+    });
+}
+
+/** Deposit amount in the locked token's units, or why it cannot be released. */
+async function releaseAmount(
+    ctx: DepositWatcherContext,
+    deposit: DepositRecord
+): Promise<{ amount: bigint } | { invalid: string }> {
+    const token = deposit.token ?? ethers.ZeroAddress;
+    const rate = rateFor(ctx.releaseRates, token);
+    if (rate === undefined) {
+        return { invalid: `No release rate configured for token ${token}` };
+    }
+
+    const { decimals, enabled } = await ctx.bridge!.getTokenConfig(token);
+    if (!enabled) {
+        return { invalid: `Token ${token} is not enabled on PolygonBridge` };
+    }
+
+    const amount = scaleReleaseAmount(BigInt(deposit.amountNano), rate, Number(decimals));
+    if (amount === 0n) {
+        return { invalid: "Deposit is worth less than one base unit of the token" };
+    }
+    return { amount };
+}
+
+async function confirmDepositRelease(
+    ctx: DepositWatcherContext,
+    deposit: DepositRecord
+): Promise<void> {
+    const { store } = ctx;
+    const bridge = ctx.bridge!;
+    const tonTxHash = "0x" + deposit.tonTxHash;
+
+    // As with mints, the contract decides whether this relayer still has
+    // anything to do for the deposit.
+    if ((await bridge.getRelease(tonTxHash)).executed) {
+        store.updateDeposit(deposit.tonTxHash, { status: "released" });
+        return;
+    }
+    if (await bridge.hasConfirmedRelease(tonTxHash, ctx.relayerAddress)) {
+        store.updateDeposit(deposit.tonTxHash, { status: "confirmed" });
+        return;
+    }
+
+    const priced = await releaseAmount(ctx, deposit);
+    if ("invalid" in priced) {
+        console.log(
+            `⚠️  [TON] Deposit ${deposit.tonTxHash} cannot be released: ${priced.invalid}. Needs operator review.\n`
+        );
+        store.updateDeposit(deposit.tonTxHash, {
+            status: "invalid",
+            lastError: priced.invalid,
+        });
+        return;
+    }
+    const { amount } = priced;
+    const token = deposit.token ?? ethers.ZeroAddress;
+
+    if (await bridge.paused()) {
+        throw new Error("Bridge paused");
+    }
+    const remaining: bigint = await bridge.remainingInboundCapacity(token);
+    if (amount > remaining) {
+        throw new Error(
+            `Inbound volume cap reached (remaining ${remaining.toString()})`
+        );
+    }
+
+    console.log("🔓 Confirming release for TON deposit:");
+    console.log("  tonTxHash:    ", tonTxHash);
+    console.log("  token:        ", token === ethers.ZeroAddress ? "POL" : token);
+    console.log("  to:           ", deposit.evmRecipient);
+    console.log("  amount:       ", amount.toString());
+
+    const tx = await bridge.confirmRelease(
+        tonTxHash,
+        token,
+        deposit.evmRecipient,
+        amount
+    );
+    const receipt = await tx.wait();
+    console.log("  confirm tx:   ", receipt?.hash, "\n");
+
+    // A confirmation beyond the inbound cap trips the circuit breaker and is
+    // not recorded; the deposit stays detected until an admin resets it.
+    if (!(await bridge.hasConfirmedRelease(tonTxHash, ctx.relayerAddress))) {
+        throw new Error("confirmRelease tripped the circuit breaker");
+    }
+
+    const executed = receipt?.logs.some(
+        (log: ethers.Log) => bridge.interface.parseLog(log)?.name === "ReleaseExecuted"
+    );
+    store.updateDeposit(deposit.tonTxHash, {
+        status: executed ? "released" : "confirmed",
+        attempts: deposit.attempts + 1,
+        polygonTxHash: receipt?.hash,
+        lastError: undefined,
+    });
+}
@@ -1,7 +1,7 @@
 // relayer/src/tonService.ts
-import { TonClient, WalletContractV4, internal, toNano } from "@ton/ton";
+import { TonClient, WalletContractV4, fromNano, internal, toNano } from "@ton/ton";
 import { mnemonicToPrivateKey } from "@ton/crypto";
-import { Address } from "@ton/core";
+import { Address, Transaction } from "@ton/core";
 import dotenv from "dotenv";
 import path from "path";
 
@@ -10,28 +10,79 @@ dotenv.config({ path: path.join(__dirname, "..", "..", ".env") });
 
 export interface TonTransferResult {
     success: boolean;
+    // Hex hash of the relayer wallet transaction that carried the payout.
     tonTxId: string;
+    // Logical time of that transaction.
+    tonLt?: string;
+    bounced?: boolean;
     errorMessage?: string;
 }
 
-async function createClient(): Promise<TonClient> {
+/**
+ * What became of a signed payout message:
+ *  - pending:  not processed yet, and still within its validity window
+ *  - expired:  past validUntil and never processed; safe to pay again
+ *  - failed:   processed, but the wallet sent nothing (e.g. out of funds);
+ *              the seqno is consumed, so it is also safe to pay again
+ *  - landed:   the TON reached the recipient
+ *  - bounced:  the recipient rejected the message and the TON came back
+ */
+export type TonPayoutOutcome =
+    | { kind: "pending" }
+    | { kind: "expired" }
+    | { kind: "failed"; txHash: string; lt: string; reason: string }
+    | { kind: "landed"; txHash: string; lt: string }
+    | { kind: "bounced"; txHash: string; lt: string };
+
+/**
+ * Identifies one signed wallet message. A V4 wallet accepts a given seqno at
+ * most once and rejects the message after `validUntil`, so once either the
+ * wallet seqno has moved past `seqno` or `validUntil` has passed, the
+ * outcome of the payout is final.
+ */
+export interface TonPayoutAttempt {
+    seqno: number;
+    validUntil: number;
+}
+
+export interface SendNativeTonOptions {
+    /**
+     * Awaited right before the signed message is handed to the RPC. Callers use
+     * it to persist the attempt so a crash after this point can be recovered
+     * without paying twice.
+     */
+    beforeSend?: (attempt: TonPayoutAttempt) => Promise<void> | void;
+}
+
+// How long a signed payout message stays valid (seconds).
+export const TON_MESSAGE_TTL_SECONDS = 60;
+
+// Extra time after validUntil before an unprocessed message counts as
+// expired, to absorb clock skew between us and the TON validators.
+const EXPIRY_GRACE_SECONDS = 30;
+
+// How often to poll while waiting for a payout to settle.
+const OUTCOME_POLL_MS = 3_000;
+
+// How long sendNativeTon waits for a payout to settle before handing it back
+// unsettled. Enough for an unprocessed message to count as expired; anything
+// still open after that (e.g. an indexer lagging behind the wallet seqno) is
+// settled later from the ledger with getPayoutOutcome.
+const OUTCOME_TIMEOUT_MS =
+    (TON_MESSAGE_TTL_SECONDS + EXPIRY_GRACE_SECONDS) * 1000 + 60_000;
+
+// Wallet history pages (of TX_PAGE_SIZE) searched for a payout transaction.
+const TX_PAGE_SIZE = 20;
+const MAX_TX_PAGES = 5;
+
+export async function createClient(): Promise<TonClient> {
     const endpoint =
         process.env.TON_RPC_URL || "https://testnet.toncenter.com/api/v2/jsonRPC";
     console.log("🔗 [TON] Connecting to endpoint:", endpoint);
-    return new TonClient({ endpoint });
+    return new TonClient({ endpoint, apiKey: process.env.TON_API_KEY });
 }
 
-/**
- * Send native TON from a relayer-controlled wallet to the given recipient.
- *
- * Environment variables required:
- *  - TON_RPC_URL: TON HTTP JSON-RPC endpoint (Toncenter, QuickNode, etc.)
- *  - TON_MNEMONIC: space-separated 24-word mnemonic for the relayer wallet
- */
-export async function sendNativeTon(
-    tonRecipient: string,
-    amountTon: string
-): Promise<TonTransferResult> {
+async function openRelayerWallet() {
     const mnemonic = process.env.TON_MNEMONIC;
 
     if (!mnemonic) {
@@ -49,50 +100,243 @@ export async function sendNativeTon(
 
     const client = await createClient();
     const walletContract = client.open(wallet);
+    return { client, walletContract, keyPair };
+}
+
+/** Address of the relayer's TON wallet (derived from TON_MNEMONIC). */
+export async function getRelayerWalletAddress(): Promise<Address> {
+    const { walletContract } = await openRelayerWallet();
+    return walletContract.address;
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Find the wallet transaction that processed the external message signed
+ * with `seqno`. V4 wallet bodies are laid out as
+ * signature(512) | subwallet_id(32) | valid_until(32) | seqno(32) | …
+ */
+async function findWalletTransaction(
+    client: TonClient,
+    wallet: Address,
+    seqno: number
+): Promise<Transaction | undefined> {
+    let cursor: { lt: string; hash: string } | undefined;
+
+    for (let page = 0; page < MAX_TX_PAGES; page++) {
+        const txs = await client.getTransactions(wallet, {
+            limit: TX_PAGE_SIZE,
+            ...(cursor ?? {}),
+        });
+
+        for (const tx of txs) {
+            if (tx.inMessage?.info.type !== "external-in") continue;
+            const body = tx.inMessage.body.beginParse();
+            if (body.remainingBits < 512 + 96) continue;
+            body.skip(512 + 32 + 32);
+            if (body.loadUint(32) === seqno) return tx;
+        }
+
+        if (txs.length < TX_PAGE_SIZE) return undefined;
+        const last = txs[txs.length - 1];
+        cursor = { lt: last.lt.toString(), hash: last.hash().toString("base64") };
+    }
+
+    return undefined;
+}
+
+/**
+ * Determine what happened to the payout signed as `attempt`. Safe to call
+ * repeatedly; the payout ledger uses it to settle messages after a restart.
+ */
+export async function getPayoutOutcome(
+    attempt: TonPayoutAttempt,
+    tonRecipient: string
+): Promise<TonPayoutOutcome> {
+    const { client, walletContract } = await openRelayerWallet();
     const walletAddress = walletContract.address;
-    console.log("[TON] Relayer wallet address:", walletAddress.toString());
+    const recipient = Address.parse(tonRecipient);
+
+    const seqno = await walletContract.getSeqno();
+    if (seqno <= attempt.seqno) {
+        const now = Math.floor(Date.now() / 1000);
+        return now > attempt.validUntil + EXPIRY_GRACE_SECONDS
+            ? { kind: "expired" }
+            : { kind: "pending" };
+    }
+
+    const tx = await findWalletTransaction(client, walletAddress, attempt.seqno);
+    if (!tx) {
+        // Seqno moved but the indexer has not caught up yet.
+        return { kind: "pending" };
+    }
+
+    const txHash = tx.hash().toString("hex");
+    const lt = tx.lt.toString();
+
+    const outMessage = tx.outMessages
+        .values()
+        .find(
+            (m) => m.info.type === "internal" && m.info.dest.equals(recipient)
+        );
+    if (!outMessage || outMessage.info.type !== "internal") {
+        const d = tx.description;
+        const reason =
+            d.type === "generic" && d.actionPhase && !d.actionPhase.success
+                ? `action phase failed (result code ${d.actionPhase.resultCode})`
+                : "wallet transaction sent no payout message";
+        return { kind: "failed", txHash, lt, reason };
+    }
+
+    if (!outMessage.info.bounce) {
+        return { kind: "landed", txHash, lt };
+    }
+
+    // Bounceable message: check how the recipient handled it.
+    let result: Transaction;
+    try {
+        result = await client.tryLocateResultTx(
+            walletAddress,
+            recipient,
+            outMessage.info.createdLt.toString()
+        );
+    } catch {
+        return { kind: "pending" };
+    }
+
+    const d = result.description;
+    if (d.type === "generic" && d.aborted && d.bouncePhase?.type === "ok") {
+        return { kind: "bounced", txHash, lt };
+    }
+    return { kind: "landed", txHash, lt };
+}
+
+/**
+ * Check that the TON transaction `txHash` at `lt` of `wallet` sent exactly
+ * `amountTon` to `tonRecipient`. Used to verify another relayer's payout
+ * before attesting to it.
+ */
+export async function verifyTonPayout(
+    payout: { wallet: string; txHash: string; lt: string },
+    tonRecipient: string,
+    amountTon: string
+): Promise<boolean> {
+    const client = await createClient();
+    const txHash = payout.txHash.replace(/^0x/, "").toLowerCase();
+
+    const tx = await client.getTransaction(
+        Address.parse(payout.wallet),
+        payout.lt,
+        Buffer.from(txHash, "hex").toString("base64")
+    );
+    if (!tx || tx.hash().toString("hex") !== txHash) return false;
 
     const recipient = Address.parse(tonRecipient);
+    const amountNano = toNanoFloor(amountTon);
+    return tx.outMessages
+        .values()
+        .some(
+            (m) =>
+                m.info.type === "internal" &&
+                m.info.dest.equals(recipient) &&
+                m.info.value.coins === amountNano
+        );
+}
+
+/**
+ * `amountTon` in nanoTON, rounded down. toNano rejects amounts with more than
+ * 9 fractional digits, which 18-decimal token amounts routinely have.
+ */
+export function toNanoFloor(amountTon: string): bigint {
+    const [whole, fraction = ""] = amountTon.trim().split(".");
+    return toNano(fraction ? `${whole}.${fraction.slice(0, 9)}` : whole);
+}
+
+/**
+ * Send native TON from a relayer-controlled wallet to the given recipient and
+ * wait until the payout has settled on TON. Success is only reported once the
+ * wallet transaction is found and the recipient did not bounce it; the result
+ * carries the real transaction hash and logical time. `amountTon` is rounded
+ * down to the nanoTON.
+ *
+ * The wallet seqno is read once and reused for every retry, so a retry after
+ * an ambiguous RPC error can never produce a second payment: either the
+ * earlier message landed (seqno advanced) or the same seqno is resubmitted,
+ * which the wallet accepts at most once.
+ *
+ * The wait is bounded: a payout that has not settled after
+ * OUTCOME_TIMEOUT_MS is reported as unsuccessful without a transaction, and
+ * the caller's ledger (still in payout_sent) settles it on a later pass.
+ *
+ * Environment variables required:
+ *  - TON_RPC_URL: TON HTTP JSON-RPC endpoint (Toncenter, QuickNode, etc.)
+ *  - TON_MNEMONIC: space-separated 24-word mnemonic for the relayer wallet
+ */
+export async function sendNativeTon(
+    tonRecipient: string,
+    amountTon: string,
+    options: SendNativeTonOptions = {}
+): Promise<TonTransferResult> {
+    const { walletContract, keyPair } = await openRelayerWallet();
+    const walletAddress = walletContract.address;
+    console.log("[TON] Relayer wallet address:", walletAddress.toString());
+
+    const { address: recipient, isBounceable } = Address.parseFriendly(tonRecipient);
+    // Converted before anything is recorded, so a bad amount fails here and
+    // not after beforeSend.
+    const amountNano = toNanoFloor(amountTon);
 
     // Simple retry loop for transient RPC errors (e.g. 429 rate limit).
     const maxRetries = 3;
     const baseDelayMs = 2_000;
 
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    let payout: TonPayoutAttempt | undefined;
+    let submitted = false;
+
+    for (let attempt = 1; attempt <= maxRetries && !submitted; attempt++) {
         try {
-            const seqno = await walletContract.getSeqno();
-            console.log("[TON] Current wallet seqno:", seqno.toString());
+            if (!payout) {
+                payout = {
+                    seqno: await walletContract.getSeqno(),
+                    validUntil:
+                        Math.floor(Date.now() / 1000) + TON_MESSAGE_TTL_SECONDS,
+                };
+                console.log("[TON] Current wallet seqno:", payout.seqno.toString());
+                await options.beforeSend?.(payout);
+            } else if ((await walletContract.getSeqno()) > payout.seqno) {
+                // The previous attempt was accepted despite the error we saw.
+                console.log("[TON] Earlier attempt was accepted by the wallet.\n");
+                submitted = true;
+                break;
+            }
 
-            const amountNano = toNano(amountTon);
             console.log("[TON] Sending TON...");
             console.log("     to:    ", recipient.toString());
-            console.log("     amount:", amountTon, "TON");
+            console.log("     amount:", fromNano(amountNano), "TON");
             console.log("     attempt:", attempt, "/", maxRetries, "\n");
 
             await walletContract.sendTransfer({
                 secretKey: keyPair.secretKey,
-                seqno,
+                seqno: payout.seqno,
+                timeout: payout.validUntil,
                 messages: [
                     internal({
                         to: recipient,
                         value: amountNano,
+                        bounce: isBounceable,
                         body: null,
                     }),
                 ],
             });
-
-            const pseudoTxId = `ton-${walletAddress.toString()}-${seqno}`;
-            console.log("[TON] Transfer sent. Reference:", pseudoTxId, "\n");
-
-            return {
-                success: true,
-                tonTxId: pseudoTxId,
-            };
+            submitted = true;
         } catch (err: any) {
             const msg = err?.message || String(err);
             console.log("[TON] Error during send attempt:", msg);
 
-            // If this is the last attempt, give up.
+            // If this is the last attempt, give up. The message may still
+            // land; callers settle it later with getPayoutOutcome.
             if (attempt === maxRetries) {
                 console.log("[TON] Max retries reached. Giving up on TON send.\n");
                 return {
@@ -108,14 +352,63 @@ export async function sendNativeTon(
                 `[TON] Will retry in ${Math.round(delayMs / 1000)}s (attempt ${attempt + 1
                 } of ${maxRetries})...\n`
             );
-            await new Promise((resolve) => setTimeout(resolve, delayMs));
+            await sleep(delayMs);
         }
     }
 
-    // Should never reach here, but TypeScript wants a return.
-    return {
-        success: false,
-        tonTxId: "",
-        errorMessage: "Unknown TON send failure",
-    };
+    if (!payout) {
+        return { success: false, tonTxId: "", errorMessage: "Unknown TON send failure" };
+    }
+
+    console.log("[TON] Waiting for the payout to settle…");
+    const deadline = Date.now() + OUTCOME_TIMEOUT_MS;
+    for (;;) {
+        let outcome: TonPayoutOutcome;
+        try {
+            outcome = await getPayoutOutcome(payout, tonRecipient);
+        } catch (err: any) {
+            // Transient RPC trouble while polling; keep waiting.
+            console.log("[TON] Error while checking payout:", err?.message || err);
+            outcome = { kind: "pending" };
+        }
+
+        switch (outcome.kind) {
+            case "pending":
+                if (Date.now() >= deadline) {
+                    console.log("[TON] Payout still unsettled; leaving it to recovery.\n");
+                    return {
+                        success: false,
+                        tonTxId: "",
+                        errorMessage: "Timed out waiting for the payout to settle",
+                    };
+                }
+                await sleep(OUTCOME_POLL_MS);
+                continue;
+            case "landed":
+                console.log("[TON] Payout landed. tx:", outcome.txHash, "lt:", outcome.lt, "\n");
+                return { success: true, tonTxId: outcome.txHash, tonLt: outcome.lt };
+            case "bounced":
+                console.log("[TON] Payout bounced by recipient. tx:", outcome.txHash, "\n");
+                return {
+                    success: false,
+                    bounced: true,
+                    tonTxId: outcome.txHash,
+                    tonLt: outcome.lt,
+                    errorMessage: "Recipient bounced the payout",
+                };
+            case "failed":
+                return {
+                    success: false,
+                    tonTxId: outcome.txHash,
+                    tonLt: outcome.lt,
+                    errorMessage: outcome.reason,
+                };
+            case "expired":
+                return {
+                    success: false,
+                    tonTxId: "",
+                    errorMessage: "Payout message expired without being processed",
+                };
+        }
+    }
 }
@@ -4,11 +4,26 @@ import * as fs from "fs";
 import * as path from "path";
 import { fileURLToPath } from "url";
 
+interface TokenConfig {
+  minAmount: bigint;
+  maxAmount: bigint;
+  feeBasisPoints: number;
+  decimals: number;
+  enabled: boolean;
+}
+
 interface DeploymentAddresses {
   wrappedTON: string;
   wrappedTONProxy: string;
   polygonBridge: string;
   polygonBridgeProxy: string;
+  // Added by scripts/deployGovernance.ts
+  timelock?: string;
+  timelockProxy?: string;
+  bridgeDAO?: string;
+  bridgeDAOProxy?: string;
+  governanceToken?: string;
+  governanceTokenImpl?: string;
   deployer: string;
   network: string;
   timestamp: string;
@@ -59,7 +74,9 @@ async function main() {
   
   const bridge = await upgrades.deployProxy(
     PolygonBridgeFactory,
-    [deployer.address, wrappedTONAddress, config],
+    // The deployer is the initial relayer set (relayerThreshold must not
+    // exceed it); manage the set afterwards with scripts/relayers.ts.
+    [deployer.address, wrappedTONAddress, config, [deployer.address]],
     { 
       initializer: "initialize",
       kind: "uups"
@@ -73,6 +90,40 @@ async function main() {
   const bridgeImplAddress = await upgrades.erc1967.getImplementationAddress(bridgeAddress);
   console.log("   Implementation at:", bridgeImplAddress, "\n");
 
+  // Step 2b: Configure bridgeable tokens. Native POL is registered by
+  // initialize from `config`; ERC-20s are configured individually, with
+  // limits in their own units.
+  console.log("🪙 Step 2b: Configuring tokens...");
+
+  const tokens: { symbol: string; address: string; config: TokenConfig }[] = [
+    // Example:
+    // {
+    //   symbol: "USDC",
+    //   address: "0x...",
+    //   config: {
+    //     minAmount: ethers.parseUnits("1", 6),
+    //     maxAmount: ethers.parseUnits("5000", 6),
+    //     feeBasisPoints: 30,
+    //     decimals: 6,
+    //     enabled: true
+    //   }
+    // },
+  ];
+
+  for (const token of tokens) {
+    const tokenTx = await bridge.setTokenConfig(token.address, token.config);
+    await tokenTx.wait();
+    console.log(`✅ Configured ${token.symbol} (${token.address})`);
+  }
+  console.log("✅ Token registry:", (await bridge.getConfiguredTokens()).join(", "), "\n");
+
+  // Step 2c: Let senders refund transfers the relayers never confirmed.
+  console.log("⏳ Step 2c: Setting refund policy...");
+  const transferExpiry = 7 * 24 * 60 * 60;
+  const refundTx = await bridge.setRefundPolicy(transferExpiry, false);
+  await refundTx.wait();
+  console.log(`✅ Transfers refundable after ${transferExpiry / 86400} days (fee kept)\n`);
+
   // Step 3: Update WrappedTON with Bridge address
   console.log("🔗 Step 3: Connecting WrappedTON to Bridge...");
   const updateTx = await wrappedTON.updateBridge(bridgeAddress);
@@ -81,11 +132,7 @@ async function main() {
 
   // Step 4: Setup Roles
   console.log("🔐 Step 4: Setting up roles...");
-  
-  const RELAYER_ROLE = await bridge.RELAYER_ROLE();
-  const grantTx = await bridge.grantRole(RELAYER_ROLE, deployer.address);
-  await grantTx.wait();
-  console.log("✅ Granted RELAYER_ROLE to deployer\n");
+  console.log("✅ Deployer enrolled as relayer by initialize (manage the set with scripts/relayers.ts)\n");
 
   // Step 5: Save Deployment Info
   console.log("💾 Step 5: Saving deployment info...");
@@ -124,11 +171,10 @@ async function main() {
   console.log("  PolygonBridge Proxy:   ", bridgeAddress);
   console.log("\n📝 Next Steps:\n");
   console.log("  1. Verify contracts on PolygonScan");
-  console.log("  2. Add additional relayers via grantRole()");
+  console.log("  2. Add additional relayers via scripts/relayers.ts (RELAYERS_ADD)");
   console.log("  3. Test bridging with small amounts");
   console.log("  4. Set up monitoring and alerts");
-  console.log("\n  Note: BridgeDAO skipped (contract too large)");
-  console.log("  DAO can be deployed separately with optimization");
+  console.log("  5. Hand admin to governance with scripts/deployGovernance.ts");
   console.log("\n═══════════════════════════════════════════════════════\n");
 }
 
@@ -0,0 +1,115 @@
+// scripts/deployGovernance.ts
+import hre from "hardhat";
+const { ethers, upgrades } = hre;
+import * as fs from "fs";
+import * as path from "path";
+import { fileURLToPath } from "url";
+import { deployGovernance } from "./helpers/governance";
+
+// Deploys BridgeTimelock + BridgeDAO next to an existing scripts/deploy.ts
+// deployment and moves DEFAULT_ADMIN_ROLE on PolygonBridge and WrappedTON to
+// the timelock. The addresses are added to the same deployments/*.json record.
+//
+//   GOVERNANCE_TOKEN         existing IVotes token used for voting power;
+//                            unset deploys a BridgeGovernanceToken
+//   GOVERNANCE_TOKEN_SUPPLY  BGOV minted to the deployer when deploying the
+//                            token (whole tokens, default 1000000)
+//   TIMELOCK_MIN_DELAY       seconds between queue and execute (default 2 days)
+//
+// A deployed BridgeGovernanceToken is administered by the timelock as well.
+// Voting power only counts once delegated, so distribute and delegate BGOV
+// before the first proposal.
+
+async function main() {
+  console.log("🏛️  Deploying BridgeDAO governance...\n");
+
+  const [deployer] = await ethers.getSigners();
+  console.log("📍 Deploying with account:", deployer.address);
+
+  const network = await ethers.provider.getNetwork();
+  console.log("🌐 Network:", network.name, "Chain ID:", network.chainId.toString(), "\n");
+
+  const __filename = fileURLToPath(import.meta.url);
+  const __dirname = path.dirname(__filename);
+
+  const deploymentPath = path.join(
+    __dirname,
+    "..",
+    "deployments",
+    `${network.name}-${network.chainId}.json`
+  );
+  if (!fs.existsSync(deploymentPath)) {
+    throw new Error(`No deployment record at ${deploymentPath}; run scripts/deploy.ts first`);
+  }
+  const deployment = JSON.parse(fs.readFileSync(deploymentPath, "utf-8"));
+
+  if (deployment.bridgeDAOProxy) {
+    throw new Error(`BridgeDAO already deployed at ${deployment.bridgeDAOProxy}`);
+  }
+
+  const minDelay = BigInt(process.env.TIMELOCK_MIN_DELAY || 2 * 24 * 60 * 60);
+
+  let token = process.env.GOVERNANCE_TOKEN;
+  let tokenImpl: string | undefined;
+  if (!token) {
+    const supply = ethers.parseEther(process.env.GOVERNANCE_TOKEN_SUPPLY || "1000000");
+    console.log("📦 Deploying BridgeGovernanceToken...");
+    const governanceToken = await upgrades.deployProxy(
+      await ethers.getContractFactory("BridgeGovernanceToken"),
+      [deployer.address, deployer.address, supply],
+      { initializer: "initialize", kind: "uups" }
+    );
+    await governanceToken.waitForDeployment();
+    token = await governanceToken.getAddress();
+    tokenImpl = await upgrades.erc1967.getImplementationAddress(token);
+    console.log("✅ BridgeGovernanceToken Proxy deployed to:", token);
+    console.log("   Minted", ethers.formatEther(supply), "BGOV to the deployer\n");
+  }
+
+  console.log("  PolygonBridge Proxy: ", deployment.polygonBridgeProxy);
+  console.log("  WrappedTON Proxy:    ", deployment.wrappedTONProxy);
+  console.log("  Governance token:    ", ethers.getAddress(token));
+  console.log("  Timelock delay:      ", minDelay.toString(), "seconds\n");
+
+  const governance = await deployGovernance(
+    hre,
+    {
+      bridge: deployment.polygonBridgeProxy,
+      wrappedTON: deployment.wrappedTONProxy,
+      token: ethers.getAddress(token),
+      minDelay,
+    },
+    console.log
+  );
+
+  if (tokenImpl) {
+    const governanceToken = await ethers.getContractAt("BridgeGovernanceToken", token);
+    const adminRole = await governanceToken.DEFAULT_ADMIN_ROLE();
+    await (await governanceToken.grantRole(adminRole, governance.timelockProxy)).wait();
+    await (await governanceToken.renounceRole(adminRole, deployer.address)).wait();
+    console.log("✅ BridgeGovernanceToken DEFAULT_ADMIN_ROLE moved to the timelock");
+  }
+
+  fs.writeFileSync(
+    deploymentPath,
+    JSON.stringify({ ...deployment, ...governance, governanceTokenImpl: tokenImpl }, null, 2)
+  );
+  console.log("\n✅ Deployment info saved to:", deploymentPath, "\n");
+
+  console.log("═══════════════════════════════════════════════════════");
+  console.log("🎉 GOVERNANCE DEPLOYED!");
+  console.log("═══════════════════════════════════════════════════════");
+  console.log("\n  BridgeTimelock Proxy:  ", governance.timelockProxy);
+  console.log("  BridgeDAO Proxy:       ", governance.bridgeDAOProxy);
+  console.log("  Governance token:      ", governance.governanceToken);
+  console.log("\n  Admin changes to the bridge and wTON now go through");
+  console.log("  BridgeDAO proposals, executed by the timelock.");
+  console.log("\n═══════════════════════════════════════════════════════\n");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Governance deployment failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,101 @@
+// scripts/fees.ts
+import hre from "hardhat";
+const { ethers } = hre;
+import * as fs from "fs";
+import * as path from "path";
+import { fileURLToPath } from "url";
+import { PolygonBridge } from "../typechain-types";
+
+// Reports fees accrued by PolygonBridge for every token in its registry and
+// optionally withdraws them.
+//
+//   FEE_WITHDRAW_TOKEN    "POL" or an ERC-20 address; enables a withdrawal
+//   FEE_WITHDRAW_AMOUNT   amount in whole tokens, or "all" (default)
+//   FEE_WITHDRAW_TO       recipient; defaults to the bridge treasury
+
+const ERC20_SYMBOL_ABI = ["function symbol() view returns (string)"];
+
+interface TokenInfo {
+  address: string;
+  symbol: string;
+  decimals: number;
+}
+
+function loadBridgeAddress(network: string): string {
+  const __filename = fileURLToPath(import.meta.url);
+  const __dirname = path.dirname(__filename);
+
+  const deploymentsDir = path.join(__dirname, "..", "deployments");
+  const deploymentFile = fs.existsSync(deploymentsDir)
+    ? fs.readdirSync(deploymentsDir).find((f) => f.includes(network))
+    : undefined;
+
+  if (!deploymentFile) {
+    throw new Error(`No deployment file found for network: ${network}`);
+  }
+
+  const deployment = JSON.parse(
+    fs.readFileSync(path.join(deploymentsDir, deploymentFile), "utf-8")
+  );
+  return deployment.polygonBridgeProxy;
+}
+
+async function tokenInfo(bridge: PolygonBridge, token: string): Promise<TokenInfo> {
+  const address = token.toUpperCase() === "POL" ? ethers.ZeroAddress : ethers.getAddress(token);
+  const { decimals } = await bridge.getTokenConfig(address);
+  const symbol =
+    address === ethers.ZeroAddress
+      ? "POL"
+      : await new ethers.Contract(address, ERC20_SYMBOL_ABI, ethers.provider).symbol();
+  return { address, symbol, decimals: Number(decimals) };
+}
+
+async function main() {
+  console.log("💰 PolygonBridge fees\n");
+
+  const network = process.env.HARDHAT_NETWORK || hre.network.name;
+  const bridgeAddress = loadBridgeAddress(network);
+  const bridge = await ethers.getContractAt("PolygonBridge", bridgeAddress);
+
+  const treasury = await bridge.treasury();
+  console.log("Bridge:  ", bridgeAddress);
+  console.log("Treasury:", treasury === ethers.ZeroAddress ? "(not set)" : treasury, "\n");
+
+  for (const token of await bridge.getConfiguredTokens()) {
+    const info = await tokenInfo(bridge, token);
+    const fees = await bridge.accruedFees(info.address);
+    const locked = await bridge.lockedLiquidity(info.address);
+    console.log(`  ${info.symbol} (${info.address})`);
+    console.log("    accrued fees:    ", ethers.formatUnits(fees, info.decimals));
+    console.log("    locked principal:", ethers.formatUnits(locked, info.decimals));
+  }
+  console.log();
+
+  const withdrawToken = process.env.FEE_WITHDRAW_TOKEN;
+  if (!withdrawToken) return;
+
+  const info = await tokenInfo(bridge, withdrawToken);
+  const accrued = await bridge.accruedFees(info.address);
+  const requested = process.env.FEE_WITHDRAW_AMOUNT ?? "all";
+  const amount =
+    requested === "all" ? accrued : ethers.parseUnits(requested, info.decimals);
+  const to = process.env.FEE_WITHDRAW_TO ?? ethers.ZeroAddress;
+
+  if (amount === 0n) {
+    console.log(`Nothing to withdraw for ${info.symbol}.`);
+    return;
+  }
+
+  console.log(`Withdrawing ${ethers.formatUnits(amount, info.decimals)} ${info.symbol}`);
+  console.log("  to:", to === ethers.ZeroAddress ? `treasury (${treasury})` : to);
+
+  const tx = await bridge.withdrawFees(info.address, to, amount);
+  const receipt = await tx.wait();
+  console.log("\n✅ Fees withdrawn.");
+  console.log("  tx hash:", receipt?.hash, "\n");
+}
+
+main().catch((err) => {
+  console.error("❌ Error in fees script:", err);
+  process.exit(1);
+});
@@ -0,0 +1,149 @@
+// scripts/helpers/governance.ts
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+// Deploys BridgeTimelock and BridgeDAO as UUPS proxies and hands control of
+// PolygonBridge and WrappedTON to the timelock. Shared by
+// scripts/deployGovernance.ts and the governance tests.
+//
+// When this returns the DAO is the timelock's only proposer, canceller and
+// executor, the timelock is the only DEFAULT_ADMIN_ROLE holder on itself,
+// the bridge and wTON, and BridgeDAO has no admin left: it is only upgraded
+// by its own proposals. The deployer keeps operational roles (PAUSER_ROLE,
+// FEE_MANAGER_ROLE) so incidents can still be handled without a vote.
+
+export interface GovernanceParams {
+  bridge: string;
+  wrappedTON: string;
+  // IVotes token whose delegated balances are the voting power.
+  token: string;
+  // Seconds between queueing and executing a passed proposal.
+  minDelay: bigint;
+}
+
+export interface GovernanceAddresses {
+  timelock: string;
+  timelockProxy: string;
+  bridgeDAO: string;
+  bridgeDAOProxy: string;
+  governanceToken: string;
+}
+
+export async function deployGovernance(
+  hre: HardhatRuntimeEnvironment,
+  params: GovernanceParams,
+  log: (...args: unknown[]) => void = () => {}
+): Promise<GovernanceAddresses> {
+  const { ethers, upgrades } = hre;
+  const [deployer] = await ethers.getSigners();
+
+  // The deployer administers the timelock only until the roles are wired.
+  const timelock = await upgrades.deployProxy(
+    await ethers.getContractFactory("BridgeTimelock"),
+    [params.minDelay, [], [], deployer.address],
+    { initializer: "initialize", kind: "uups" }
+  );
+  await timelock.waitForDeployment();
+  const timelockAddress = await timelock.getAddress();
+  log("✅ BridgeTimelock Proxy deployed to:", timelockAddress);
+
+  const dao = await upgrades.deployProxy(
+    await ethers.getContractFactory("BridgeDAO"),
+    [params.token, timelockAddress],
+    { initializer: "initialize", kind: "uups" }
+  );
+  await dao.waitForDeployment();
+  const daoAddress = await dao.getAddress();
+  log("✅ BridgeDAO Proxy deployed to:", daoAddress);
+
+  for (const role of ["PROPOSER_ROLE", "CANCELLER_ROLE", "EXECUTOR_ROLE"]) {
+    await (await timelock.grantRole(await timelock[role](), daoAddress)).wait();
+  }
+  log("✅ BridgeDAO is the timelock's proposer, canceller and executor");
+
+  for (const [name, address] of [
+    ["PolygonBridge", params.bridge],
+    ["WrappedTON", params.wrappedTON],
+  ]) {
+    const target = await ethers.getContractAt(name, address);
+    const adminRole = await target.DEFAULT_ADMIN_ROLE();
+    await (await target.grantRole(adminRole, timelockAddress)).wait();
+    await (await target.renounceRole(adminRole, deployer.address)).wait();
+    log(`✅ ${name} DEFAULT_ADMIN_ROLE moved to the timelock`);
+  }
+
+  const timelockAdmin = await timelock.DEFAULT_ADMIN_ROLE();
+  await (await timelock.renounceRole(timelockAdmin, deployer.address)).wait();
+  log("✅ Deployer renounced the timelock admin role");
+
+  await (await dao.renounceAdmin()).wait();
+  log("✅ Deployer renounced the BridgeDAO admin role");
+
+  return {
+    timelock: await upgrades.erc1967.getImplementationAddress(timelockAddress),
+    timelockProxy: timelockAddress,
+    bridgeDAO: await upgrades.erc1967.getImplementationAddress(daoAddress),
+    bridgeDAOProxy: daoAddress,
+    governanceToken: params.token,
+  };
+}
+
+export interface AdminMigration {
+  // Set when the proxy still ran a BridgeDAO without admin handover support.
+  upgradedImplementation?: string;
+  previousAdmin: string;
+  // address(0) once renounced.
+  admin: string;
+  pendingAdmin: string;
+}
+
+/**
+ * Takes BridgeDAO upgrade authority away from its admin key. Proxies still on
+ * the single-admin implementation are first upgraded (the admin is still
+ * allowed to) to the current BridgeDAO. The admin then renounces, or, with
+ * `newAdmin`, starts a handover that `newAdmin` completes with acceptAdmin.
+ */
+export async function migrateDAOAdmin(
+  hre: HardhatRuntimeEnvironment,
+  daoAddress: string,
+  newAdmin?: string,
+  log: (...args: unknown[]) => void = () => {}
+): Promise<AdminMigration> {
+  const { ethers, upgrades } = hre;
+  const [signer] = await ethers.getSigners();
+  const factory = await ethers.getContractFactory("BridgeDAO");
+  let dao = await ethers.getContractAt("BridgeDAO", daoAddress);
+
+  let upgradedImplementation: string | undefined;
+  let previousAdmin: string;
+  try {
+    previousAdmin = await dao.admin();
+  } catch {
+    // The single-admin implementation has no admin() getter; its
+    // _authorizeUpgrade still lets the signer (the admin) upgrade.
+    log("⬆️  Upgrading BridgeDAO to the implementation with admin handover...");
+    dao = await upgrades.upgradeProxy(daoAddress, factory, { kind: "uups" });
+    await dao.waitForDeployment();
+    upgradedImplementation = await upgrades.erc1967.getImplementationAddress(daoAddress);
+    log("✅ BridgeDAO implementation:", upgradedImplementation);
+    previousAdmin = await dao.admin();
+  }
+
+  if (previousAdmin === ethers.ZeroAddress) {
+    log("ℹ️  BridgeDAO has no admin; upgrades already require governance");
+  } else if (previousAdmin !== signer.address) {
+    throw new Error(`BridgeDAO admin is ${previousAdmin}, not the signer ${signer.address}`);
+  } else if (newAdmin) {
+    await (await dao.transferAdmin(newAdmin)).wait();
+    log(`✅ Admin handover to ${newAdmin} started; it completes with acceptAdmin()`);
+  } else {
+    await (await dao.renounceAdmin()).wait();
+    log("✅ Admin renounced; upgrades now require a governance proposal");
+  }
+
+  return {
+    upgradedImplementation,
+    previousAdmin,
+    admin: await dao.admin(),
+    pendingAdmin: await dao.pendingAdmin(),
+  };
+}
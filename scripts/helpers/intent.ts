@@ -0,0 +1,68 @@
+// scripts/helpers/intent.ts
+import { ethers } from "ethers";
+
+// Builds and signs EIP-712 BridgeIntents for PolygonBridge.bridgeWithIntent.
+// The signed intent is handed to a relayer (POST /intents), which submits it
+// and takes up to `maxRelayerFee` of the bridged tokens for gas.
+
+export const BRIDGE_INTENT_TYPES = {
+  BridgeIntent: [
+    { name: "sender", type: "address" },
+    { name: "token", type: "address" },
+    { name: "amount", type: "uint256" },
+    { name: "tonRecipient", type: "string" },
+    { name: "maxRelayerFee", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export interface BridgeIntent {
+  sender: string;
+  token: string;
+  amount: bigint;
+  tonRecipient: string;
+  maxRelayerFee: bigint;
+  nonce: bigint;
+  deadline: bigint;
+}
+
+export function bridgeIntentDomain(
+  bridgeAddress: string,
+  chainId: bigint
+): ethers.TypedDataDomain {
+  return {
+    name: "PolygonBridge",
+    version: "1",
+    chainId,
+    verifyingContract: bridgeAddress,
+  };
+}
+
+/** Complete an intent with the sender's next nonce from the bridge. */
+export async function buildBridgeIntent(
+  bridgeAddress: string,
+  runner: ethers.ContractRunner,
+  fields: Omit<BridgeIntent, "nonce">
+): Promise<BridgeIntent> {
+  const bridge = new ethers.Contract(
+    bridgeAddress,
+    ["function intentNonces(address sender) view returns (uint256)"],
+    runner
+  );
+  return { ...fields, nonce: await bridge.intentNonces(fields.sender) };
+}
+
+/** Sign `intent` as its sender; returns the signature for bridgeWithIntent. */
+export async function signBridgeIntent(
+  signer: ethers.Signer,
+  bridgeAddress: string,
+  intent: BridgeIntent
+): Promise<string> {
+  const network = await signer.provider!.getNetwork();
+  return signer.signTypedData(
+    bridgeIntentDomain(bridgeAddress, network.chainId),
+    BRIDGE_INTENT_TYPES,
+    intent
+  );
+}
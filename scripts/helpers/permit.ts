@@ -0,0 +1,108 @@
+// scripts/helpers/permit.ts
+import { ethers } from "ethers";
+
+// Builds and signs EIP-2612 permits for PolygonBridge.bridgeToTONWithPermit.
+
+const PERMIT_TOKEN_ABI = [
+  "function name() view returns (string)",
+  "function nonces(address owner) view returns (uint256)",
+  "function eip712Domain() view returns (bytes1 fields, string name, string version, uint256 chainId, address verifyingContract, bytes32 salt, uint256[] extensions)",
+];
+
+export const PERMIT_TYPES = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export interface PermitTypedData {
+  domain: ethers.TypedDataDomain;
+  types: typeof PERMIT_TYPES;
+  message: {
+    owner: string;
+    spender: string;
+    value: bigint;
+    nonce: bigint;
+    deadline: bigint;
+  };
+}
+
+export interface PermitSignature {
+  deadline: bigint;
+  v: number;
+  r: string;
+  s: string;
+}
+
+/**
+ * Permit typed data for `token`. The domain comes from ERC-5267
+ * `eip712Domain()` when the token implements it, otherwise from `name()` with
+ * version "1" (the OpenZeppelin ERC20Permit default).
+ */
+export async function buildPermitTypedData(
+  token: string,
+  runner: ethers.ContractRunner & { provider: ethers.Provider | null },
+  owner: string,
+  spender: string,
+  value: bigint,
+  deadline: bigint
+): Promise<PermitTypedData> {
+  const contract = new ethers.Contract(token, PERMIT_TOKEN_ABI, runner);
+
+  let domain: ethers.TypedDataDomain;
+  try {
+    const d = await contract.eip712Domain();
+    domain = {
+      name: d.name,
+      version: d.version,
+      chainId: d.chainId,
+      verifyingContract: d.verifyingContract,
+    };
+  } catch {
+    const network = await runner.provider!.getNetwork();
+    domain = {
+      name: await contract.name(),
+      version: "1",
+      chainId: network.chainId,
+      verifyingContract: token,
+    };
+  }
+
+  return {
+    domain,
+    types: PERMIT_TYPES,
+    message: {
+      owner,
+      spender,
+      value,
+      nonce: await contract.nonces(owner),
+      deadline,
+    },
+  };
+}
+
+/** Sign a permit letting `spender` pull `value` of `token` from the signer. */
+export async function signPermit(
+  signer: ethers.Signer,
+  token: string,
+  spender: string,
+  value: bigint,
+  deadline: bigint
+): Promise<PermitSignature> {
+  const typedData = await buildPermitTypedData(
+    token,
+    signer as ethers.Signer & { provider: ethers.Provider | null },
+    await signer.getAddress(),
+    spender,
+    value,
+    deadline
+  );
+  const signature = ethers.Signature.from(
+    await signer.signTypedData(typedData.domain, typedData.types, typedData.message)
+  );
+  return { deadline, v: signature.v, r: signature.r, s: signature.s };
+}
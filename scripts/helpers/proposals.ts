@@ -0,0 +1,363 @@
+// scripts/helpers/proposals.ts
+import { ethers } from "ethers";
+
+// Typed builders for BridgeDAO proposal actions, and a decoder that turns
+// proposal calldata back into something a voter can read. Used by the gov:*
+// hardhat tasks (tasks/governance.ts).
+//
+// A proposal is described by a JSON file:
+//
+//   {
+//     "description": "Raise the bridge fee to 40 bps",
+//     "actions": [
+//       { "type": "setTokenConfig", "token": "POL", "config": { "minAmount": "100000000000000000", ... } },
+//       { "type": "grantRole", "target": "wrappedTON", "role": "PAUSER_ROLE", "account": "0x..." }
+//     ]
+//   }
+//
+// `target` is an address or one of the TARGET_ALIASES and defaults to the
+// bridge. `token` is an address or "POL" for native POL. Amounts are strings in
+// the token's smallest unit.
+
+export const GOVERNANCE_ACTIONS_ABI = [
+  "function updateConfig((uint256 minBridgeAmount, uint256 maxBridgeAmount, uint256 feeBasisPoints, uint256 relayerThreshold, bool enabled) newConfig)",
+  "function setTokenConfig(address token, (uint256 minAmount, uint256 maxAmount, uint256 feeBasisPoints, uint8 decimals, bool enabled) newConfig)",
+  "function setSupportedToken(address token, bool supported)",
+  "function grantRole(bytes32 role, address account)",
+  "function revokeRole(bytes32 role, address account)",
+  "function pause()",
+  "function unpause()",
+  "function upgradeToAndCall(address newImplementation, bytes data)",
+];
+
+const actionsInterface = new ethers.Interface(GOVERNANCE_ACTIONS_ABI);
+
+export const KNOWN_ROLES = [
+  "DEFAULT_ADMIN_ROLE",
+  "RELAYER_ROLE",
+  "PAUSER_ROLE",
+  "FEE_MANAGER_ROLE",
+  "MINTER_ROLE",
+  "PROPOSER_ROLE",
+  "EXECUTOR_ROLE",
+  "CANCELLER_ROLE",
+];
+
+/** bytes32 value of a role name (DEFAULT_ADMIN_ROLE is zero). */
+export function roleId(role: string): string {
+  if (ethers.isHexString(role, 32)) return role;
+  if (!KNOWN_ROLES.includes(role)) {
+    throw new Error(`Unknown role ${role}; pass its bytes32 value instead`);
+  }
+  return role === "DEFAULT_ADMIN_ROLE" ? ethers.ZeroHash : ethers.id(role);
+}
+
+function roleName(role: string): string {
+  return KNOWN_ROLES.find((name) => roleId(name) === role) ?? role;
+}
+
+export interface BridgeConfig {
+  minBridgeAmount: bigint;
+  maxBridgeAmount: bigint;
+  feeBasisPoints: bigint;
+  relayerThreshold: bigint;
+  enabled: boolean;
+}
+
+export interface TokenConfig {
+  minAmount: bigint;
+  maxAmount: bigint;
+  feeBasisPoints: bigint;
+  decimals: bigint;
+  enabled: boolean;
+}
+
+export interface ProposalAction {
+  target: string;
+  value: bigint;
+  calldata: string;
+}
+
+export interface Proposal {
+  targets: string[];
+  values: bigint[];
+  calldatas: string[];
+  description: string;
+  descriptionHash: string;
+}
+
+export function updateConfigAction(bridge: string, config: BridgeConfig): ProposalAction {
+  return {
+    target: bridge,
+    value: 0n,
+    calldata: actionsInterface.encodeFunctionData("updateConfig", [config]),
+  };
+}
+
+export function setTokenConfigAction(
+  bridge: string,
+  token: string,
+  config: TokenConfig
+): ProposalAction {
+  return {
+    target: bridge,
+    value: 0n,
+    calldata: actionsInterface.encodeFunctionData("setTokenConfig", [token, config]),
+  };
+}
+
+export function setSupportedTokenAction(
+  bridge: string,
+  token: string,
+  supported: boolean
+): ProposalAction {
+  return {
+    target: bridge,
+    value: 0n,
+    calldata: actionsInterface.encodeFunctionData("setSupportedToken", [token, supported]),
+  };
+}
+
+export function grantRoleAction(target: string, role: string, account: string): ProposalAction {
+  return {
+    target,
+    value: 0n,
+    calldata: actionsInterface.encodeFunctionData("grantRole", [roleId(role), account]),
+  };
+}
+
+export function pauseAction(target: string): ProposalAction {
+  return {
+    target,
+    value: 0n,
+    calldata: actionsInterface.encodeFunctionData("pause"),
+  };
+}
+
+export function upgradeToAndCallAction(
+  proxy: string,
+  implementation: string,
+  data: string = "0x"
+): ProposalAction {
+  return {
+    target: proxy,
+    value: 0n,
+    calldata: actionsInterface.encodeFunctionData("upgradeToAndCall", [implementation, data]),
+  };
+}
+
+export function buildProposal(actions: ProposalAction[], description: string): Proposal {
+  if (actions.length === 0) throw new Error("A proposal needs at least one action");
+  return {
+    targets: actions.map((a) => a.target),
+    values: actions.map((a) => a.value),
+    calldatas: actions.map((a) => a.calldata),
+    description,
+    descriptionHash: ethers.id(description),
+  };
+}
+
+// --- Proposal files --------------------------------------------------------
+
+/** Aliases for `target`, resolved against the deployments/*.json record. */
+export const TARGET_ALIASES: Record<string, string> = {
+  bridge: "polygonBridgeProxy",
+  wrappedTON: "wrappedTONProxy",
+  timelock: "timelockProxy",
+  dao: "bridgeDAOProxy",
+  governanceToken: "governanceToken",
+};
+
+export type ActionSpec =
+  | {
+      type: "updateConfig";
+      target?: string;
+      config: {
+        minBridgeAmount: string;
+        maxBridgeAmount: string;
+        feeBasisPoints: number;
+        relayerThreshold: number;
+        enabled: boolean;
+      };
+    }
+  | {
+      type: "setTokenConfig";
+      target?: string;
+      token: string;
+      config: {
+        minAmount: string;
+        maxAmount: string;
+        feeBasisPoints: number;
+        decimals: number;
+        enabled: boolean;
+      };
+    }
+  | { type: "setSupportedToken"; target?: string; token: string; supported: boolean }
+  | { type: "grantRole"; target?: string; role: string; account: string }
+  | { type: "pause"; target?: string }
+  | { type: "upgradeToAndCall"; target?: string; implementation: string; data?: string };
+
+export interface ProposalSpec {
+  description: string;
+  actions: ActionSpec[];
+}
+
+function resolveTarget(target: string | undefined, deployment: Record<string, string>): string {
+  const name = target ?? "bridge";
+  if (ethers.isAddress(name)) return ethers.getAddress(name);
+
+  const key = TARGET_ALIASES[name];
+  if (!key) throw new Error(`Unknown target ${name}`);
+  if (!deployment[key]) throw new Error(`Deployment record has no ${key} for target ${name}`);
+  return ethers.getAddress(deployment[key]);
+}
+
+function resolveToken(token: string): string {
+  return token === "POL" ? ethers.ZeroAddress : ethers.getAddress(token);
+}
+
+export function buildAction(spec: ActionSpec, deployment: Record<string, string>): ProposalAction {
+  const target = resolveTarget(spec.target, deployment);
+  switch (spec.type) {
+    case "updateConfig":
+      return updateConfigAction(target, {
+        minBridgeAmount: BigInt(spec.config.minBridgeAmount),
+        maxBridgeAmount: BigInt(spec.config.maxBridgeAmount),
+        feeBasisPoints: BigInt(spec.config.feeBasisPoints),
+        relayerThreshold: BigInt(spec.config.relayerThreshold),
+        enabled: spec.config.enabled,
+      });
+    case "setTokenConfig":
+      return setTokenConfigAction(target, resolveToken(spec.token), {
+        minAmount: BigInt(spec.config.minAmount),
+        maxAmount: BigInt(spec.config.maxAmount),
+        feeBasisPoints: BigInt(spec.config.feeBasisPoints),
+        decimals: BigInt(spec.config.decimals),
+        enabled: spec.config.enabled,
+      });
+    case "setSupportedToken":
+      return setSupportedTokenAction(target, resolveToken(spec.token), spec.supported);
+    case "grantRole":
+      return grantRoleAction(target, spec.role, ethers.getAddress(spec.account));
+    case "pause":
+      return pauseAction(target);
+    case "upgradeToAndCall":
+      return upgradeToAndCallAction(target, ethers.getAddress(spec.implementation), spec.data);
+    default:
+      throw new Error(`Unknown action type ${(spec as { type: string }).type}`);
+  }
+}
+
+export function buildProposalFromSpec(
+  spec: ProposalSpec,
+  deployment: Record<string, string>
+): Proposal {
+  return buildProposal(
+    spec.actions.map((action) => buildAction(action, deployment)),
+    spec.description
+  );
+}
+
+// --- Decoding --------------------------------------------------------------
+
+/** Names for known addresses, e.g. { "0x…": "PolygonBridge" }, from a deployment record. */
+export function addressLabels(deployment: Record<string, string>): Record<string, string> {
+  const labels: Record<string, string> = {};
+  const names: Record<string, string> = {
+    polygonBridgeProxy: "PolygonBridge",
+    wrappedTONProxy: "WrappedTON",
+    timelockProxy: "BridgeTimelock",
+    bridgeDAOProxy: "BridgeDAO",
+    governanceToken: "BridgeGovernanceToken",
+  };
+  for (const [key, name] of Object.entries(names)) {
+    if (deployment[key]) labels[ethers.getAddress(deployment[key])] = name;
+  }
+  return labels;
+}
+
+function label(address: string, labels: Record<string, string>): string {
+  const name = labels[ethers.getAddress(address)];
+  return name ? `${name} (${address})` : address;
+}
+
+function formatArgs(
+  tx: ethers.TransactionDescription,
+  labels: Record<string, string>
+): string[] {
+  switch (tx.name) {
+    case "updateConfig": {
+      const c = tx.args.newConfig;
+      return [
+        `minBridgeAmount: ${c.minBridgeAmount} (${ethers.formatEther(c.minBridgeAmount)} POL)`,
+        `maxBridgeAmount: ${c.maxBridgeAmount} (${ethers.formatEther(c.maxBridgeAmount)} POL)`,
+        `feeBasisPoints:  ${c.feeBasisPoints} (${Number(c.feeBasisPoints) / 100}%)`,
+        `relayerThreshold: ${c.relayerThreshold}`,
+        `enabled:         ${c.enabled}`,
+      ];
+    }
+    case "setTokenConfig": {
+      const c = tx.args.newConfig;
+      const native = tx.args.token === ethers.ZeroAddress;
+      const amount = (value: bigint) =>
+        `${value} (${ethers.formatUnits(value, c.decimals)}${native ? " POL" : ""})`;
+      return [
+        `token:          ${native ? "POL (native)" : label(tx.args.token, labels)}`,
+        `minAmount:      ${amount(c.minAmount)}`,
+        `maxAmount:      ${amount(c.maxAmount)}`,
+        `feeBasisPoints: ${c.feeBasisPoints} (${Number(c.feeBasisPoints) / 100}%)`,
+        `decimals:       ${c.decimals}`,
+        `enabled:        ${c.enabled}`,
+      ];
+    }
+    case "setSupportedToken":
+      return [`token: ${label(tx.args.token, labels)}`, `supported: ${tx.args.supported}`];
+    case "grantRole":
+    case "revokeRole":
+      return [`role: ${roleName(tx.args.role)}`, `account: ${label(tx.args.account, labels)}`];
+    case "upgradeToAndCall":
+      return [
+        `newImplementation: ${tx.args.newImplementation}`,
+        tx.args.data === "0x"
+          ? "data: (none)"
+          : `data: ${decodeCalldata(tx.args.data, labels)}`,
+      ];
+    default:
+      return [];
+  }
+}
+
+function decodeCalldata(calldata: string, labels: Record<string, string>): string {
+  const tx = actionsInterface.parseTransaction({ data: calldata });
+  if (!tx) return `unknown call ${calldata.slice(0, 10)} (${ethers.dataLength(calldata)} bytes)`;
+  const args = formatArgs(tx, labels);
+  return args.length ? `${tx.name}(${args.join(", ")})` : `${tx.name}()`;
+}
+
+/** Human-readable lines describing each action of a proposal. */
+export function describeProposal(
+  proposal: Pick<Proposal, "targets" | "values" | "calldatas">,
+  labels: Record<string, string> = {}
+): string[] {
+  const lines: string[] = [];
+  proposal.targets.forEach((target, i) => {
+    const value = proposal.values[i];
+    lines.push(
+      `${i + 1}. ${label(target, labels)}` +
+        (value > 0n ? ` (sending ${ethers.formatEther(value)} POL)` : "")
+    );
+
+    const tx = actionsInterface.parseTransaction({ data: proposal.calldatas[i] });
+    if (!tx) {
+      lines.push(`   ${decodeCalldata(proposal.calldatas[i], labels)}`);
+      return;
+    }
+    const args = formatArgs(tx, labels);
+    lines.push(`   ${tx.name}(${args.length ? "" : ")"}`);
+    if (args.length) {
+      for (const arg of args) lines.push(`     ${arg}`);
+      lines.push("   )");
+    }
+  });
+  return lines;
+}
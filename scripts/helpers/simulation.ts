@@ -0,0 +1,383 @@
+// scripts/helpers/simulation.ts
+import { ethers } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { createRequire } from "module";
+import type { Proposal } from "./proposals";
+
+// Load the TypeScript helper through require so ts-node compiles it on the fly.
+const require = createRequire(import.meta.url);
+const { GOVERNANCE_ACTIONS_ABI, roleId } =
+  require("./proposals") as typeof import("./proposals");
+
+// Dry-runs a BridgeDAO proposal on the in-process hardhat network (usually a
+// fork of the live network, see forkNetwork). The timelock is impersonated
+// and sends each action directly, the bridge state is captured before and
+// after, and an optional smoke test bridges POL out and releases it back.
+// Everything runs inside an evm_snapshot that is reverted at the end.
+//
+// Like TimelockController.executeBatch, the actions apply all or nothing: the
+// run stops at the first action that reverts, rolls back the ones before it
+// and reports the rest as not run, with no state changes and no smoke test.
+//
+// Actions aimed at BridgeDAO's own onlyGovernance functions (its upgrade,
+// revokeAdmin, settings) revert here: the DAO only accepts them from the
+// timelock while it is executing that proposal through BridgeDAO.execute.
+
+const ERC1967_IMPLEMENTATION_SLOT =
+  "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+
+const CONTRACT_ROLES: Record<string, string[]> = {
+  PolygonBridge: ["DEFAULT_ADMIN_ROLE", "RELAYER_ROLE", "PAUSER_ROLE", "FEE_MANAGER_ROLE"],
+  WrappedTON: ["DEFAULT_ADMIN_ROLE", "MINTER_ROLE", "PAUSER_ROLE"],
+  BridgeTimelock: ["DEFAULT_ADMIN_ROLE", "PROPOSER_ROLE", "EXECUTOR_ROLE", "CANCELLER_ROLE"],
+  BridgeGovernanceToken: ["DEFAULT_ADMIN_ROLE", "MINTER_ROLE"],
+};
+
+const DEPLOYMENT_KEYS: Record<string, string> = {
+  PolygonBridge: "polygonBridgeProxy",
+  WrappedTON: "wrappedTONProxy",
+  BridgeTimelock: "timelockProxy",
+  BridgeDAO: "bridgeDAOProxy",
+  BridgeGovernanceToken: "governanceToken",
+};
+
+const SIMULATION_ABI = [
+  "function config() view returns (uint256 minBridgeAmount, uint256 maxBridgeAmount, uint256 feeBasisPoints, uint256 relayerThreshold, bool enabled)",
+  "function paused() view returns (bool)",
+  "function hasRole(bytes32 role, address account) view returns (bool)",
+  "function getRelayers() view returns (address[])",
+  "function getConfiguredTokens() view returns (address[])",
+  "function getTokenConfig(address token) view returns ((uint256 minAmount, uint256 maxAmount, uint256 feeBasisPoints, uint8 decimals, bool enabled))",
+  "function getTransfer(bytes32 transferId) view returns ((address sender, address token, uint256 amount, string tonRecipient, uint256 timestamp, uint256 confirmations, bool completed, uint256 fee, bool refunded, bytes32 tonTxHash, uint64 tonLt))",
+  "function totalSupply() view returns (uint256)",
+  "function balanceOf(address account) view returns (uint256)",
+  "function bridgeToTON(string tonRecipient, address token, uint256 amount) payable",
+  "function confirmTransfer(bytes32 transferId, bytes32 tonTxHash, uint64 tonLt)",
+  "function confirmRelease(bytes32 tonTxHash, address token, address recipient, uint256 amount)",
+  "event BridgeInitiated(bytes32 indexed transferId, address indexed sender, address indexed token, uint256 amount, string tonRecipient, uint256 fee)",
+];
+
+export interface SimulationOptions {
+  // "roundtrip" bridges POL to TON and releases it back; "none" skips it.
+  smoke: "roundtrip" | "none";
+  // POL sent by the smoke test; defaults to the POL minimum.
+  smokeAmount?: bigint;
+  tonRecipient?: string;
+}
+
+export interface StateSnapshot {
+  config: Record<string, string>;
+  // getTokenConfig of every configured token, keyed "<token>.<field>".
+  tokens: Record<string, string>;
+  roles: Record<string, string>;
+  implementations: Record<string, string>;
+  balances: Record<string, string>;
+}
+
+export interface StateDiff {
+  section: keyof StateSnapshot;
+  key: string;
+  before: string;
+  after: string;
+}
+
+export interface ActionResult {
+  target: string;
+  ok: boolean;
+  error?: string;
+}
+
+export interface SmokeStep {
+  name: string;
+  ok: boolean;
+  detail: string;
+}
+
+export interface SimulationResult {
+  actions: ActionResult[];
+  diffs: StateDiff[];
+  smoke: SmokeStep[];
+}
+
+/** Points the in-process hardhat network at a fork of `url`. */
+export async function forkNetwork(
+  hre: HardhatRuntimeEnvironment,
+  url: string,
+  blockNumber?: number
+): Promise<void> {
+  await hre.network.provider.request({
+    method: "hardhat_reset",
+    params: [{ forking: { jsonRpcUrl: url, ...(blockNumber ? { blockNumber } : {}) } }],
+  });
+}
+
+async function impersonate(
+  hre: HardhatRuntimeEnvironment,
+  address: string,
+  minBalance: bigint
+): Promise<ethers.Signer> {
+  const provider = hre.network.provider;
+  await provider.request({ method: "hardhat_impersonateAccount", params: [address] });
+  const balance = await hre.ethers.provider.getBalance(address);
+  if (balance < minBalance) {
+    await provider.request({
+      method: "hardhat_setBalance",
+      params: [address, ethers.toQuantity(minBalance)],
+    });
+  }
+  return hre.ethers.getSigner(address);
+}
+
+/** Custom errors of the bridge and governance contracts, for revert reasons. */
+async function knownErrors(hre: HardhatRuntimeEnvironment): Promise<ethers.Interface> {
+  const fragments = new Map<string, unknown>();
+  for (const name of ["PolygonBridge", "WrappedTON", "BridgeTimelock", "BridgeDAO"]) {
+    for (const item of (await hre.artifacts.readArtifact(name)).abi) {
+      if (item.type === "error") fragments.set(item.name, item);
+    }
+  }
+  return new ethers.Interface([...fragments.values()] as ethers.InterfaceAbi);
+}
+
+function errorMessage(err: any, iface: ethers.Interface): string {
+  const data = err?.data ?? err?.error?.data;
+  if (typeof data === "string" && data.length >= 10) {
+    try {
+      const parsed = iface.parseError(data);
+      if (parsed) return parsed.name;
+    } catch {
+      // fall through to the provider's message
+    }
+  }
+  return err?.shortMessage ?? err?.message ?? String(err);
+}
+
+/** Accounts whose roles are worth tracking for this proposal. */
+async function roleAccounts(
+  bridge: ethers.Contract,
+  deployment: Record<string, string>,
+  proposal: Pick<Proposal, "calldatas">
+): Promise<string[]> {
+  const accounts = new Set<string>();
+  for (const key of ["deployer", "timelockProxy", "bridgeDAOProxy", "polygonBridgeProxy"]) {
+    if (deployment[key]) accounts.add(ethers.getAddress(deployment[key]));
+  }
+  for (const relayer of await bridge.getRelayers()) accounts.add(relayer);
+
+  const actions = new ethers.Interface(GOVERNANCE_ACTIONS_ABI);
+  for (const calldata of proposal.calldatas) {
+    const tx = actions.parseTransaction({ data: calldata });
+    if (tx && (tx.name === "grantRole" || tx.name === "revokeRole")) {
+      accounts.add(ethers.getAddress(tx.args.account));
+    }
+  }
+  return [...accounts];
+}
+
+export async function captureState(
+  hre: HardhatRuntimeEnvironment,
+  deployment: Record<string, string>,
+  accounts: string[]
+): Promise<StateSnapshot> {
+  const provider = hre.ethers.provider;
+  const bridge = new ethers.Contract(deployment.polygonBridgeProxy, SIMULATION_ABI, provider);
+  const snapshot: StateSnapshot = { config: {}, tokens: {}, roles: {}, implementations: {}, balances: {} };
+
+  const config = await bridge.config();
+  for (const field of ["minBridgeAmount", "maxBridgeAmount", "feeBasisPoints", "relayerThreshold", "enabled"]) {
+    snapshot.config[field] = config[field].toString();
+  }
+  snapshot.config.paused = (await bridge.paused()).toString();
+  snapshot.config.relayers = (await bridge.getRelayers()).join(",");
+
+  const tokens: string[] = await bridge.getConfiguredTokens();
+  for (const token of tokens) {
+    const tokenConfig = await bridge.getTokenConfig(token);
+    const name = token === ethers.ZeroAddress ? "POL" : token;
+    for (const field of ["minAmount", "maxAmount", "feeBasisPoints", "decimals", "enabled"]) {
+      snapshot.tokens[`${name}.${field}`] = tokenConfig[field].toString();
+    }
+  }
+
+  for (const [name, roles] of Object.entries(CONTRACT_ROLES)) {
+    const address = deployment[DEPLOYMENT_KEYS[name]];
+    if (!address) continue;
+    const contract = new ethers.Contract(address, SIMULATION_ABI, provider);
+    for (const role of roles) {
+      for (const account of accounts) {
+        snapshot.roles[`${name}.${role}(${account})`] = (await contract.hasRole(roleId(role), account)).toString();
+      }
+    }
+  }
+
+  for (const [name, key] of Object.entries(DEPLOYMENT_KEYS)) {
+    if (!deployment[key]) continue;
+    const slot = await provider.getStorage(deployment[key], ERC1967_IMPLEMENTATION_SLOT);
+    snapshot.implementations[name] = ethers.getAddress(ethers.dataSlice(slot, 12));
+  }
+
+  const bridgeAddress = deployment.polygonBridgeProxy;
+  snapshot.balances["PolygonBridge POL"] = ethers.formatEther(await provider.getBalance(bridgeAddress));
+  for (const token of tokens) {
+    if (token === ethers.ZeroAddress) continue;
+    const { decimals } = await bridge.getTokenConfig(token);
+    const erc20 = new ethers.Contract(token, SIMULATION_ABI, provider);
+    snapshot.balances[`PolygonBridge ${token}`] = ethers.formatUnits(await erc20.balanceOf(bridgeAddress), decimals);
+  }
+  if (deployment.wrappedTONProxy) {
+    const wrappedTON = new ethers.Contract(deployment.wrappedTONProxy, SIMULATION_ABI, provider);
+    snapshot.balances["WrappedTON totalSupply"] = ethers.formatUnits(await wrappedTON.totalSupply(), 9);
+  }
+  return snapshot;
+}
+
+export function diffState(before: StateSnapshot, after: StateSnapshot): StateDiff[] {
+  const diffs: StateDiff[] = [];
+  for (const section of ["config", "tokens", "roles", "implementations", "balances"] as const) {
+    const keys = new Set([...Object.keys(before[section]), ...Object.keys(after[section])]);
+    for (const key of keys) {
+      const was = before[section][key] ?? "(none)";
+      const now = after[section][key] ?? "(none)";
+      if (was !== now) diffs.push({ section, key, before: was, after: now });
+    }
+  }
+  return diffs;
+}
+
+async function bridgeRoundTrip(
+  hre: HardhatRuntimeEnvironment,
+  deployment: Record<string, string>,
+  options: SimulationOptions,
+  errors: ethers.Interface
+): Promise<SmokeStep[]> {
+  const provider = hre.ethers.provider;
+  const iface = new ethers.Interface(SIMULATION_ABI);
+  const bridgeAddress = deployment.polygonBridgeProxy;
+  const bridge = new ethers.Contract(bridgeAddress, SIMULATION_ABI, provider);
+  const steps: SmokeStep[] = [];
+
+  const amount = options.smokeAmount ?? (await bridge.getTokenConfig(ethers.ZeroAddress)).minAmount;
+  const tonRecipient = options.tonRecipient ?? "EQ-simulation-recipient";
+  const user = ethers.Wallet.createRandom().address;
+  const userSigner = await impersonate(hre, user, amount + ethers.parseEther("1"));
+
+  // 1. Polygon -> TON
+  let transferId: string;
+  let net: bigint;
+  try {
+    const receipt = await (
+      await bridge.connect(userSigner).getFunction("bridgeToTON")(
+        tonRecipient, ethers.ZeroAddress, amount, { value: amount }
+      )
+    ).wait();
+    const log = receipt!.logs
+      .map((l: ethers.Log) => { try { return iface.parseLog(l); } catch { return null; } })
+      .find((parsed: ethers.LogDescription | null) => parsed?.name === "BridgeInitiated");
+    transferId = log!.args.transferId;
+    net = log!.args.amount;
+    steps.push({
+      name: "bridgeToTON",
+      ok: true,
+      detail: `${ethers.formatEther(amount)} POL sent, ${ethers.formatEther(net)} net, transfer ${transferId}`,
+    });
+  } catch (err) {
+    steps.push({ name: "bridgeToTON", ok: false, detail: errorMessage(err, errors) });
+    return steps;
+  }
+
+  const { relayerThreshold } = await bridge.config();
+  const relayers: string[] = (await bridge.getRelayers()).slice(0, Number(relayerThreshold));
+
+  // 2. Relayers confirm the TON payout
+  try {
+    for (const relayer of relayers) {
+      const signer = await impersonate(hre, relayer, ethers.parseEther("1"));
+      await (await bridge.connect(signer).getFunction("confirmTransfer")(
+        transferId, ethers.id(`simulation-payout:${transferId}`), 1n
+      )).wait();
+    }
+    const transfer = await bridge.getTransfer(transferId);
+    steps.push({
+      name: "confirmTransfer",
+      ok: transfer.completed,
+      detail: transfer.completed
+        ? `completed by ${relayers.length} of ${relayerThreshold} relayers`
+        : `not completed after ${relayers.length} confirmations (circuit breaker?)`,
+    });
+    if (!transfer.completed) return steps;
+  } catch (err) {
+    steps.push({ name: "confirmTransfer", ok: false, detail: errorMessage(err, errors) });
+    return steps;
+  }
+
+  // 3. TON -> Polygon: release the net amount back to the user
+  try {
+    const before: bigint = await provider.getBalance(user);
+    for (const relayer of relayers) {
+      const signer = await impersonate(hre, relayer, ethers.parseEther("1"));
+      await (await bridge.connect(signer).getFunction("confirmRelease")(
+        ethers.id(`simulation-deposit:${transferId}`), ethers.ZeroAddress, user, net
+      )).wait();
+    }
+    const after: bigint = await provider.getBalance(user);
+    const received = after - before;
+    steps.push({
+      name: "confirmRelease",
+      ok: received === net,
+      detail: `${ethers.formatEther(received)} POL released back to the sender`,
+    });
+  } catch (err) {
+    steps.push({ name: "confirmRelease", ok: false, detail: errorMessage(err, errors) });
+  }
+  return steps;
+}
+
+export async function simulateProposal(
+  hre: HardhatRuntimeEnvironment,
+  proposal: Pick<Proposal, "targets" | "values" | "calldatas">,
+  deployment: Record<string, string>,
+  options: SimulationOptions
+): Promise<SimulationResult> {
+  const provider = hre.network.provider;
+  const snapshotId = await provider.request({ method: "evm_snapshot", params: [] });
+
+  try {
+    const bridge = new ethers.Contract(deployment.polygonBridgeProxy, SIMULATION_ABI, hre.ethers.provider);
+    const accounts = await roleAccounts(bridge, deployment, proposal);
+    const totalValue = proposal.values.reduce((sum, value) => sum + value, 0n);
+    const timelock = await impersonate(
+      hre, deployment.timelockProxy, totalValue + ethers.parseEther("10")
+    );
+
+    const before = await captureState(hre, deployment, accounts);
+    const beforeActions = await provider.request({ method: "evm_snapshot", params: [] });
+
+    const errors = await knownErrors(hre);
+    const actions: ActionResult[] = [];
+    for (let i = 0; i < proposal.targets.length; i++) {
+      try {
+        await (await timelock.sendTransaction({
+          to: proposal.targets[i],
+          value: proposal.values[i],
+          data: proposal.calldatas[i],
+        })).wait();
+        actions.push({ target: proposal.targets[i], ok: true });
+      } catch (err) {
+        actions.push({ target: proposal.targets[i], ok: false, error: errorMessage(err, errors) });
+        for (let j = i + 1; j < proposal.targets.length; j++) {
+          actions.push({ target: proposal.targets[j], ok: false, error: `not run, action ${i + 1} reverted` });
+        }
+        // The batch reverts as a whole on-chain; undo the actions before it.
+        await provider.request({ method: "evm_revert", params: [beforeActions] });
+        return { actions, diffs: [], smoke: [] };
+      }
+    }
+
+    const after = await captureState(hre, deployment, accounts);
+    const smoke = options.smoke === "roundtrip" ? await bridgeRoundTrip(hre, deployment, options, errors) : [];
+
+    return { actions, diffs: diffState(before, after), smoke };
+  } finally {
+    await provider.request({ method: "evm_revert", params: [snapshotId] });
+  }
+}
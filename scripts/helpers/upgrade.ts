@@ -0,0 +1,122 @@
+// scripts/helpers/upgrade.ts
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+// Upgrades the PolygonBridge proxy to the current implementation. Shared by
+// scripts/upgradeBridge.ts and the tests.
+//
+// Proxies still on initializer version 1 (e.g. the Amoy proxy, deployed
+// before the token registry) are migrated with initializeV2 in the same
+// transaction: without it native POL has no token config and bridgeToTON
+// reverts with UnsupportedToken. The ERC-20s and relayers the old
+// implementation knew about are read from its TokenSupported and RoleGranted
+// events and passed along, so their configs, locked liquidity and relayer set
+// membership are migrated too.
+
+// ERC-7201 slot of OpenZeppelin's Initializable storage; the version is its
+// low 64 bits.
+const INITIALIZABLE_SLOT =
+  "0xf0c57e16840df040f15088dc2f81fe391c3923bec73e23a9662efc9c229c6a00";
+
+// Initializer version of the current implementation.
+export const BRIDGE_INITIALIZER_VERSION = 2n;
+
+// Events of the first implementation that name its tokens and relayers.
+const LEGACY_ABI = [
+  "event TokenSupported(address indexed token, bool supported)",
+  "event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender)",
+  "function hasRole(bytes32 role, address account) view returns (bool)",
+  "function RELAYER_ROLE() view returns (bytes32)",
+];
+
+export interface BridgeUpgrade {
+  implementation: string;
+  // Initializer version before the upgrade.
+  previousVersion: bigint;
+  // ERC-20s and relayers handed to initializeV2 (empty if it did not run).
+  legacyTokens: string[];
+  legacyRelayers: string[];
+  // Calldata run on the proxy with the upgrade ("0x" if none).
+  data: string;
+  // False when the signer is not the bridge admin (e.g. after the governance
+  // handover): the implementation is deployed, and `implementation` plus
+  // `data` go into an upgradeToAndCall proposal instead.
+  upgraded: boolean;
+}
+
+export async function initializedVersion(
+  hre: HardhatRuntimeEnvironment,
+  proxy: string
+): Promise<bigint> {
+  const raw = await hre.ethers.provider.getStorage(proxy, INITIALIZABLE_SLOT);
+  return BigInt(raw) & ((1n << 64n) - 1n);
+}
+
+/**
+ * Every ERC-20 the legacy proxy was ever told about, and the accounts that
+ * still hold RELAYER_ROLE on it.
+ */
+export async function legacyBridgeState(
+  hre: HardhatRuntimeEnvironment,
+  proxy: string,
+  fromBlock = 0
+): Promise<{ tokens: string[]; relayers: string[] }> {
+  const legacy = new hre.ethers.Contract(proxy, LEGACY_ABI, hre.ethers.provider);
+  const tokenLogs = await legacy.queryFilter(legacy.filters.TokenSupported(), fromBlock);
+  const tokens = [...new Set<string>(tokenLogs.map((log: any) => log.args.token as string))].filter(
+    (token) => token !== hre.ethers.ZeroAddress
+  );
+
+  const role = await legacy.RELAYER_ROLE();
+  const grantLogs = await legacy.queryFilter(legacy.filters.RoleGranted(role), fromBlock);
+  const relayers: string[] = [];
+  for (const account of new Set<string>(grantLogs.map((log: any) => log.args.account as string))) {
+    if (await legacy.hasRole(role, account)) relayers.push(account);
+  }
+  return { tokens, relayers };
+}
+
+export async function upgradeBridge(
+  hre: HardhatRuntimeEnvironment,
+  proxy: string,
+  log: (...args: unknown[]) => void = () => {},
+  fromBlock = 0
+): Promise<BridgeUpgrade> {
+  const { ethers, upgrades } = hre;
+  const [signer] = await ethers.getSigners();
+  const factory = await ethers.getContractFactory("PolygonBridge");
+
+  const previousVersion = await initializedVersion(hre, proxy);
+  const migrate = previousVersion < BRIDGE_INITIALIZER_VERSION;
+  const { tokens: legacyTokens, relayers: legacyRelayers } = migrate
+    ? await legacyBridgeState(hre, proxy, fromBlock)
+    : { tokens: [], relayers: [] };
+  const data = migrate
+    ? factory.interface.encodeFunctionData("initializeV2", [legacyTokens, legacyRelayers])
+    : "0x";
+  log(`   Initializer version: ${previousVersion}${migrate ? " (will run initializeV2)" : ""}`);
+  if (migrate) {
+    log(`   Legacy ERC-20s:      ${legacyTokens.join(", ") || "none"}`);
+    log(`   Legacy relayers:     ${legacyRelayers.join(", ") || "none"}`);
+  }
+
+  const bridge = await ethers.getContractAt("PolygonBridge", proxy);
+  const isAdmin = await bridge.hasRole(await bridge.DEFAULT_ADMIN_ROLE(), signer.address);
+
+  if (!isAdmin) {
+    const implementation = (await upgrades.prepareUpgrade(proxy, factory, {
+      kind: "uups",
+    })) as string;
+    log("ℹ️  Signer is not the bridge admin; implementation deployed for a proposal:", implementation);
+    return { implementation, previousVersion, data, legacyTokens, legacyRelayers, upgraded: false };
+  }
+
+  const upgraded = await upgrades.upgradeProxy(proxy, factory, {
+    kind: "uups",
+    call: migrate ? { fn: "initializeV2", args: [legacyTokens, legacyRelayers] } : undefined,
+  });
+  await upgraded.waitForDeployment();
+
+  const implementation = await upgrades.erc1967.getImplementationAddress(proxy);
+  log("✅ PolygonBridge implementation:", implementation);
+  return { implementation, previousVersion, data, legacyTokens, legacyRelayers, upgraded: true };
+}
@@ -0,0 +1,79 @@
+// scripts/migrateDAOAdmin.ts
+import hre from "hardhat";
+const { ethers, upgrades } = hre;
+import * as fs from "fs";
+import * as path from "path";
+import { fileURLToPath } from "url";
+import { migrateDAOAdmin } from "./helpers/governance";
+
+// Moves BridgeDAO upgrade authority from the admin key to governance. Run it
+// with the current admin key against a deployment record that has a BridgeDAO
+// (scripts/deployGovernance.ts). DAOs on the single-admin implementation are
+// upgraded first; the admin then renounces.
+//
+//   DAO_NEW_ADMIN   hand the admin role to this address instead of renouncing
+//                   (it completes the handover with acceptAdmin)
+
+async function main() {
+  console.log("🔑 Migrating BridgeDAO upgrade authority...\n");
+
+  const [signer] = await ethers.getSigners();
+  console.log("📍 Admin account:", signer.address);
+
+  const network = await ethers.provider.getNetwork();
+  console.log("🌐 Network:", network.name, "Chain ID:", network.chainId.toString(), "\n");
+
+  const __filename = fileURLToPath(import.meta.url);
+  const __dirname = path.dirname(__filename);
+
+  const deploymentPath = path.join(
+    __dirname,
+    "..",
+    "deployments",
+    `${network.name}-${network.chainId}.json`
+  );
+  if (!fs.existsSync(deploymentPath)) {
+    throw new Error(`No deployment record at ${deploymentPath}`);
+  }
+  const deployment = JSON.parse(fs.readFileSync(deploymentPath, "utf-8"));
+  if (!deployment.bridgeDAOProxy) {
+    throw new Error("Deployment record has no bridgeDAOProxy; run scripts/deployGovernance.ts first");
+  }
+  console.log("  BridgeDAO Proxy:", deployment.bridgeDAOProxy, "\n");
+
+  const newAdmin = process.env.DAO_NEW_ADMIN
+    ? ethers.getAddress(process.env.DAO_NEW_ADMIN)
+    : undefined;
+
+  const result = await migrateDAOAdmin(hre, deployment.bridgeDAOProxy, newAdmin, console.log);
+
+  if (result.upgradedImplementation) {
+    deployment.bridgeDAO = result.upgradedImplementation;
+    fs.writeFileSync(deploymentPath, JSON.stringify(deployment, null, 2));
+    console.log("✅ Deployment info saved to:", deploymentPath);
+  }
+
+  // Prove the old key is out: an upgrade from it must now revert.
+  if (result.admin === ethers.ZeroAddress && result.previousAdmin !== ethers.ZeroAddress) {
+    const dao = await ethers.getContractAt("BridgeDAO", deployment.bridgeDAOProxy);
+    const implementation = await upgrades.erc1967.getImplementationAddress(deployment.bridgeDAOProxy);
+    try {
+      await dao.upgradeToAndCall.staticCall(implementation, "0x", { from: result.previousAdmin });
+      throw new Error(`${result.previousAdmin} can still upgrade BridgeDAO`);
+    } catch (err: any) {
+      if (err.message?.includes("can still upgrade")) throw err;
+      console.log("✅ Old admin can no longer upgrade BridgeDAO");
+    }
+  }
+
+  console.log("\n  Admin:         ", result.admin);
+  console.log("  Pending admin: ", result.pendingAdmin);
+  console.log("\n🎉 BridgeDAO admin migration complete.\n");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ BridgeDAO admin migration failed:", error);
+    process.exit(1);
+  });
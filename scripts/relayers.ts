@@ -0,0 +1,116 @@
+// scripts/relayers.ts
+import hre from "hardhat";
+const { ethers } = hre;
+import * as fs from "fs";
+import * as path from "path";
+import { fileURLToPath } from "url";
+import { PolygonBridge } from "../typechain-types";
+
+// Manages the PolygonBridge relayer set. Always prints the current set and
+// threshold; each variable below adds one step, applied in this order so the
+// bridge never drops below `1 <= threshold <= relayers`:
+//
+//   RELAYERS_ADD          comma-separated addresses to add
+//   RELAYER_ROTATE_FROM   relayer to replace ...
+//   RELAYER_ROTATE_TO     ... with this address
+//   RELAYER_THRESHOLD     new relayerThreshold
+//   RELAYERS_REMOVE       comma-separated addresses to remove
+
+function loadBridgeAddress(network: string): string {
+  const __filename = fileURLToPath(import.meta.url);
+  const __dirname = path.dirname(__filename);
+
+  const deploymentsDir = path.join(__dirname, "..", "deployments");
+  const deploymentFile = fs.existsSync(deploymentsDir)
+    ? fs.readdirSync(deploymentsDir).find((f) => f.includes(network))
+    : undefined;
+
+  if (!deploymentFile) {
+    throw new Error(`No deployment file found for network: ${network}`);
+  }
+
+  const deployment = JSON.parse(
+    fs.readFileSync(path.join(deploymentsDir, deploymentFile), "utf-8")
+  );
+  return deployment.polygonBridgeProxy;
+}
+
+function addressList(value: string | undefined): string[] {
+  if (!value) return [];
+  return value
+    .split(",")
+    .map((a) => a.trim())
+    .filter((a) => a.length > 0)
+    .map((a) => ethers.getAddress(a));
+}
+
+async function printRelayers(bridge: PolygonBridge) {
+  const relayers = await bridge.getRelayers();
+  const { relayerThreshold } = await bridge.config();
+  console.log(`Relayers (${relayers.length}, threshold ${relayerThreshold}):`);
+  for (const relayer of relayers) {
+    console.log("  ", relayer);
+  }
+  console.log();
+}
+
+async function main() {
+  console.log("🛰️  PolygonBridge relayers\n");
+
+  const network = process.env.HARDHAT_NETWORK || hre.network.name;
+  const bridgeAddress = loadBridgeAddress(network);
+  const bridge = await ethers.getContractAt("PolygonBridge", bridgeAddress);
+  console.log("Bridge:", bridgeAddress, "\n");
+
+  await printRelayers(bridge);
+
+  const toAdd = addressList(process.env.RELAYERS_ADD);
+  const rotateFrom = process.env.RELAYER_ROTATE_FROM;
+  const rotateTo = process.env.RELAYER_ROTATE_TO;
+  const threshold = process.env.RELAYER_THRESHOLD;
+  const toRemove = addressList(process.env.RELAYERS_REMOVE);
+
+  if (!!rotateFrom !== !!rotateTo) {
+    throw new Error("Set both RELAYER_ROTATE_FROM and RELAYER_ROTATE_TO");
+  }
+  if (!toAdd.length && !rotateFrom && !threshold && !toRemove.length) return;
+
+  for (const relayer of toAdd) {
+    console.log("➕ Adding relayer", relayer);
+    await (await bridge.addRelayer(relayer)).wait();
+  }
+
+  if (rotateFrom && rotateTo) {
+    const from = ethers.getAddress(rotateFrom);
+    const to = ethers.getAddress(rotateTo);
+    console.log(`🔁 Rotating relayer ${from} -> ${to}`);
+    await (await bridge.rotateRelayer(from, to)).wait();
+  }
+
+  if (threshold) {
+    const current = await bridge.config();
+    console.log("🎚️  Setting relayer threshold to", threshold);
+    await (
+      await bridge.updateConfig({
+        minBridgeAmount: current.minBridgeAmount,
+        maxBridgeAmount: current.maxBridgeAmount,
+        feeBasisPoints: current.feeBasisPoints,
+        relayerThreshold: BigInt(threshold),
+        enabled: current.enabled,
+      })
+    ).wait();
+  }
+
+  for (const relayer of toRemove) {
+    console.log("➖ Removing relayer", relayer);
+    await (await bridge.removeRelayer(relayer)).wait();
+  }
+
+  console.log("\n✅ Relayer set updated.\n");
+  await printRelayers(bridge);
+}
+
+main().catch((err) => {
+  console.error("❌ Error in relayers script:", err);
+  process.exit(1);
+});
@@ -97,14 +97,15 @@ async function main() {
         );
     }
 
-    // 4. Grant relayer role and confirm the transfer
-    const RELAYER_ROLE = await bridge.RELAYER_ROLE();
-    console.log("Granting RELAYER_ROLE to relayer...");
-    await bridge.grantRole(RELAYER_ROLE, relayer.address);
+    // 4. Add the relayer and confirm the transfer
+    console.log("Adding relayer to the relayer set...");
+    await bridge.addRelayer(relayer.address);
 
     const bridgeAsRelayer = bridge.connect(relayer);
     console.log("✅ Confirming transfer 0x00…00 as relayer…");
-    const confirmTx = await bridgeAsRelayer.confirmTransfer(zeroId);
+    // Placeholder TON payout: hash of the wallet transaction and its lt.
+    const tonTxHash = ethers.id("local-ton-payout");
+    const confirmTx = await bridgeAsRelayer.confirmTransfer(zeroId, tonTxHash, 1n);
     await confirmTx.wait();
 
     const transfer0After = await bridge.getTransfer(zeroId);
@@ -0,0 +1,91 @@
+// scripts/upgradeBridge.ts
+import hre from "hardhat";
+const { ethers } = hre;
+import * as fs from "fs";
+import * as path from "path";
+import { fileURLToPath } from "url";
+import { upgradeBridge } from "./helpers/upgrade";
+
+// Upgrades the PolygonBridge proxy in deployments/<network>-<chainId>.json to
+// the current implementation, migrating older proxies with initializeV2 (see
+// scripts/helpers/upgrade.ts). The legacy tokens and relayers it migrates are
+// read from the proxy's events from UPGRADE_FROM_BLOCK on (default 0; set it
+// to the proxy's deployment block on RPCs that limit getLogs ranges). Run it
+// with the bridge admin key. Once the
+// admin role sits with the timelock the script only deploys the
+// implementation and prints the proposal that performs the upgrade.
+
+async function main() {
+  console.log("⬆️  Upgrading PolygonBridge...\n");
+
+  const [signer] = await ethers.getSigners();
+  console.log("📍 Account:", signer.address);
+
+  const network = await ethers.provider.getNetwork();
+  console.log("🌐 Network:", network.name, "Chain ID:", network.chainId.toString(), "\n");
+
+  const __filename = fileURLToPath(import.meta.url);
+  const __dirname = path.dirname(__filename);
+
+  const deploymentPath = path.join(
+    __dirname,
+    "..",
+    "deployments",
+    `${network.name}-${network.chainId}.json`
+  );
+  if (!fs.existsSync(deploymentPath)) {
+    throw new Error(`No deployment record at ${deploymentPath}`);
+  }
+  const deployment = JSON.parse(fs.readFileSync(deploymentPath, "utf-8"));
+  console.log("  PolygonBridge Proxy:", deployment.polygonBridgeProxy);
+
+  const result = await upgradeBridge(
+    hre,
+    deployment.polygonBridgeProxy,
+    console.log,
+    parseInt(process.env.UPGRADE_FROM_BLOCK || "0", 10)
+  );
+
+  if (!result.upgraded) {
+    const spec = {
+      description: "Upgrade PolygonBridge",
+      actions: [
+        {
+          type: "upgradeToAndCall",
+          target: "bridge",
+          implementation: result.implementation,
+          data: result.data,
+        },
+      ],
+    };
+    console.log("\n📜 Propose the upgrade with gov:propose using:\n");
+    console.log(JSON.stringify(spec, null, 2), "\n");
+    return;
+  }
+
+  deployment.polygonBridge = result.implementation;
+  fs.writeFileSync(deploymentPath, JSON.stringify(deployment, null, 2));
+  console.log("✅ Deployment info saved to:", deploymentPath);
+
+  const bridge = await ethers.getContractAt("PolygonBridge", deployment.polygonBridgeProxy);
+  const pol = await bridge.getTokenConfig(ethers.ZeroAddress);
+  console.log("\n  POL enabled:     ", pol.enabled);
+  console.log("  POL fee (bps):   ", pol.feeBasisPoints.toString());
+  console.log("  POL locked:      ", ethers.formatEther(await bridge.lockedLiquidity(ethers.ZeroAddress)));
+  for (const token of result.legacyTokens) {
+    const tokenConfig = await bridge.getTokenConfig(token);
+    console.log(
+      `  ${token}: enabled ${tokenConfig.enabled}, locked`,
+      ethers.formatUnits(await bridge.lockedLiquidity(token), tokenConfig.decimals)
+    );
+  }
+  console.log("  Relayers:        ", (await bridge.relayerCount()).toString());
+  console.log("\n🎉 PolygonBridge upgrade complete.\n");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ PolygonBridge upgrade failed:", error);
+    process.exit(1);
+  });
@@ -60,6 +60,48 @@ async function main() {
     }
   }
 
+  if (deployment.timelock) {
+    console.log("3️⃣ Verifying BridgeTimelock implementation:", deployment.timelock);
+    try {
+      await run("verify:verify", {
+        address: deployment.timelock,
+        constructorArguments: [],
+      });
+      console.log("✅ BridgeTimelock implementation verified\n");
+    } catch (e: any) {
+      console.error("❌ BridgeTimelock verify failed:", e.message);
+    }
+  }
+
+  if (deployment.bridgeDAO) {
+    console.log("4️⃣ Verifying BridgeDAO implementation:", deployment.bridgeDAO);
+    try {
+      await run("verify:verify", {
+        address: deployment.bridgeDAO,
+        constructorArguments: [],
+      });
+      console.log("✅ BridgeDAO implementation verified\n");
+    } catch (e: any) {
+      console.error("❌ BridgeDAO verify failed:", e.message);
+    }
+  }
+
+  if (deployment.governanceTokenImpl) {
+    console.log(
+      "5️⃣ Verifying BridgeGovernanceToken implementation:",
+      deployment.governanceTokenImpl
+    );
+    try {
+      await run("verify:verify", {
+        address: deployment.governanceTokenImpl,
+        constructorArguments: [],
+      });
+      console.log("✅ BridgeGovernanceToken implementation verified\n");
+    } catch (e: any) {
+      console.error("❌ BridgeGovernanceToken verify failed:", e.message);
+    }
+  }
+
   console.log("🎉 Verification script finished.\n");
 }
 
@@ -0,0 +1,254 @@
+// tasks/governance.ts
+import { task, types } from "hardhat/config.js";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import * as fs from "fs";
+import * as path from "path";
+import { createRequire } from "module";
+import type { Proposal, ProposalSpec } from "../scripts/helpers/proposals";
+
+// Load the TypeScript helper through require so ts-node compiles it on the fly.
+const require = createRequire(import.meta.url);
+const { addressLabels, buildProposalFromSpec, describeProposal } =
+  require("../scripts/helpers/proposals") as typeof import("../scripts/helpers/proposals");
+const { forkNetwork, simulateProposal } =
+  require("../scripts/helpers/simulation") as typeof import("../scripts/helpers/simulation");
+
+// BridgeDAO proposal CLI. Every command takes the proposal JSON file (see
+// scripts/helpers/proposals.ts for the format); the proposal id is derived
+// from it, so the same file is used from `propose` through `execute`.
+//
+//   npx hardhat gov:propose --proposal proposals/fee.json --network polygonAmoy
+//   npx hardhat gov:vote    --proposal proposals/fee.json --support for
+//   npx hardhat gov:queue   --proposal proposals/fee.json
+//   npx hardhat gov:execute --proposal proposals/fee.json
+//   npx hardhat gov:status  --proposal proposals/fee.json
+//
+// Addresses come from deployments/<network>-<chainId>.json; --dao overrides
+// the DAO address.
+//
+// gov:simulate runs the proposal on a local fork before anyone votes on it:
+//
+//   npx hardhat gov:simulate --proposal proposals/fee.json --fork polygonAmoy
+
+const PROPOSAL_STATES = [
+  "Pending",
+  "Active",
+  "Canceled",
+  "Defeated",
+  "Succeeded",
+  "Queued",
+  "Expired",
+  "Executed",
+];
+
+const VOTE_SUPPORT: Record<string, number> = { against: 0, for: 1, abstain: 2 };
+
+interface GovernanceArgs {
+  proposal: string;
+  dao?: string;
+}
+
+// `networkName` selects another network's record, e.g. the one being forked.
+async function loadDeployment(
+  hre: HardhatRuntimeEnvironment,
+  networkName: string = hre.network.name
+): Promise<Record<string, string>> {
+  const chainId =
+    networkName === hre.network.name
+      ? (await hre.ethers.provider.getNetwork()).chainId
+      : hre.config.networks[networkName]?.chainId;
+  const file = path.join(
+    hre.config.paths.root,
+    "deployments",
+    `${networkName}-${chainId}.json`
+  );
+  return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, "utf-8")) : {};
+}
+
+async function loadProposal(
+  hre: HardhatRuntimeEnvironment,
+  args: GovernanceArgs,
+  networkName?: string
+) {
+  const deployment = await loadDeployment(hre, networkName);
+  const daoAddress = args.dao ?? deployment.bridgeDAOProxy;
+  if (!daoAddress) {
+    throw new Error("No BridgeDAO in the deployment record; pass --dao");
+  }
+
+  const spec: ProposalSpec = JSON.parse(fs.readFileSync(args.proposal, "utf-8"));
+  const proposal = buildProposalFromSpec(spec, deployment);
+  const dao = await hre.ethers.getContractAt("BridgeDAO", daoAddress);
+  const proposalId: bigint = await dao.hashProposal(
+    proposal.targets,
+    proposal.values,
+    proposal.calldatas,
+    proposal.descriptionHash
+  );
+
+  console.log(`\n📜 ${proposal.description}`);
+  console.log("   id:", proposalId.toString(), "\n");
+  for (const line of describeProposal(proposal, addressLabels(deployment))) {
+    console.log(line);
+  }
+  console.log();
+
+  return { dao, proposal, proposalId, deployment };
+}
+
+async function printStatus(
+  hre: HardhatRuntimeEnvironment,
+  dao: Awaited<ReturnType<typeof loadProposal>>["dao"],
+  proposalId: bigint
+) {
+  const snapshot: bigint = await dao.proposalSnapshot(proposalId);
+  if (snapshot === 0n) {
+    console.log("State: not proposed yet\n");
+    return;
+  }
+
+  const state = PROPOSAL_STATES[Number(await dao.state(proposalId))];
+  const deadline: bigint = await dao.proposalDeadline(proposalId);
+  const clock: bigint = await dao.clock();
+  const { againstVotes, forVotes, abstainVotes } = await dao.proposalVotes(proposalId);
+  const quorum: bigint = snapshot < clock ? await dao.quorum(snapshot) : 0n;
+  const format = (votes: bigint) => hre.ethers.formatEther(votes);
+
+  console.log("State:   ", state);
+  console.log("Snapshot:", snapshot.toString(), "  Deadline:", deadline.toString(), "  Now:", clock.toString());
+  console.log("For:     ", format(forVotes));
+  console.log("Against: ", format(againstVotes));
+  console.log("Abstain: ", format(abstainVotes));
+  console.log("Quorum:  ", snapshot < clock ? format(quorum) : "(set at snapshot)");
+
+  const eta: bigint = await dao.proposalEta(proposalId);
+  if (eta > 0n) {
+    console.log("ETA:     ", new Date(Number(eta) * 1000).toISOString());
+  }
+  console.log();
+}
+
+function withProposalParams(name: string, description: string) {
+  return task(name, description)
+    .addParam("proposal", "Path to the proposal JSON file")
+    .addOptionalParam("dao", "BridgeDAO address (defaults to the deployment record)");
+}
+
+withProposalParams("gov:propose", "Submit a BridgeDAO proposal")
+  .addFlag("dryRun", "Only print the decoded proposal")
+  .setAction(async (args: GovernanceArgs & { dryRun: boolean }, hre) => {
+    const { dao, proposal } = await loadProposal(hre, args);
+    if (args.dryRun) return;
+
+    const tx = await dao.propose(
+      proposal.targets,
+      proposal.values,
+      proposal.calldatas,
+      proposal.description
+    );
+    await tx.wait();
+    console.log("✅ Proposed in", tx.hash, "\n");
+  });
+
+withProposalParams("gov:vote", "Vote on a BridgeDAO proposal")
+  .addOptionalParam("support", "for, against or abstain", "for", types.string)
+  .addOptionalParam("reason", "Reason recorded with the vote")
+  .setAction(async (args: GovernanceArgs & { support: string; reason?: string }, hre) => {
+    const support = VOTE_SUPPORT[args.support];
+    if (support === undefined) {
+      throw new Error(`--support must be for, against or abstain, not ${args.support}`);
+    }
+
+    const { dao, proposalId } = await loadProposal(hre, args);
+    const tx = args.reason
+      ? await dao.castVoteWithReason(proposalId, support, args.reason)
+      : await dao.castVote(proposalId, support);
+    await tx.wait();
+    console.log(`✅ Voted ${args.support} in`, tx.hash, "\n");
+  });
+
+withProposalParams("gov:queue", "Queue a succeeded BridgeDAO proposal in the timelock")
+  .setAction(async (args: GovernanceArgs, hre) => {
+    const { dao, proposal } = await loadProposal(hre, args);
+    const tx = await dao.queue(...proposalCall(proposal));
+    await tx.wait();
+    console.log("✅ Queued in", tx.hash, "\n");
+  });
+
+withProposalParams("gov:execute", "Execute a queued BridgeDAO proposal")
+  .setAction(async (args: GovernanceArgs, hre) => {
+    const { dao, proposal } = await loadProposal(hre, args);
+    const tx = await dao.execute(...proposalCall(proposal));
+    await tx.wait();
+    console.log("✅ Executed in", tx.hash, "\n");
+  });
+
+withProposalParams("gov:status", "Show the state and votes of a BridgeDAO proposal")
+  .setAction(async (args: GovernanceArgs, hre) => {
+    const { dao, proposalId } = await loadProposal(hre, args);
+    await printStatus(hre, dao, proposalId);
+  });
+
+withProposalParams("gov:simulate", "Execute a proposal as the timelock on a local fork and show its effects")
+  .addOptionalParam("fork", "Network from hardhat.config to fork (default: the local chain as is)")
+  .addOptionalParam("block", "Block number to fork at", undefined, types.int)
+  .addOptionalParam("smoke", "Smoke test after the actions: roundtrip or none", "roundtrip")
+  .addOptionalParam("smokeAmount", "POL bridged by the smoke test (default: the POL minimum)")
+  .setAction(async (
+    args: GovernanceArgs & { fork?: string; block?: number; smoke: string; smokeAmount?: string },
+    hre
+  ) => {
+    if (hre.network.name !== "hardhat") {
+      throw new Error("gov:simulate runs on the in-process hardhat network; use --fork <network>");
+    }
+    if (args.smoke !== "roundtrip" && args.smoke !== "none") {
+      throw new Error(`--smoke must be roundtrip or none, not ${args.smoke}`);
+    }
+
+    if (args.fork) {
+      const forked = hre.config.networks[args.fork];
+      if (!forked || !("url" in forked)) {
+        throw new Error(`Unknown network ${args.fork}`);
+      }
+      console.log(`🍴 Forking ${args.fork}${args.block ? ` at block ${args.block}` : ""}...`);
+      await forkNetwork(hre, forked.url, args.block);
+    }
+
+    const { proposal, deployment } = await loadProposal(hre, args, args.fork);
+    if (!deployment.timelockProxy) {
+      throw new Error("No BridgeTimelock in the deployment record");
+    }
+
+    const result = await simulateProposal(hre, proposal, deployment, {
+      smoke: args.smoke,
+      smokeAmount: args.smokeAmount ? hre.ethers.parseEther(args.smokeAmount) : undefined,
+    });
+
+    console.log("Actions (sent by the timelock):");
+    result.actions.forEach((action, i) => {
+      console.log(`  ${action.ok ? "✅" : "❌"} ${i + 1}. ${action.target}${action.error ? `: ${action.error}` : ""}`);
+    });
+
+    console.log("\nState changes:");
+    if (result.diffs.length === 0) console.log("  (none)");
+    for (const diff of result.diffs) {
+      console.log(`  [${diff.section}] ${diff.key}: ${diff.before} -> ${diff.after}`);
+    }
+
+    if (result.smoke.length) {
+      console.log("\nSmoke test (bridgeToTON round trip):");
+      for (const step of result.smoke) {
+        console.log(`  ${step.ok ? "✅" : "❌"} ${step.name}: ${step.detail}`);
+      }
+    }
+    console.log();
+
+    const failed = result.actions.some((a) => !a.ok) || result.smoke.some((s) => !s.ok);
+    if (failed) {
+      throw new Error("Simulation failed; see above");
+    }
+  });
+
+function proposalCall(proposal: Proposal): [string[], bigint[], string[], string] {
+  return [proposal.targets, proposal.values, proposal.calldatas, proposal.descriptionHash];
+}
@@ -0,0 +1,343 @@
+import { expect } from "chai";
+import hre from "hardhat";
+const { ethers, upgrades } = hre;
+import {
+  BridgeDAO,
+  BridgeGovernanceToken,
+  BridgeTimelock,
+  PolygonBridge,
+  WrappedTON,
+} from "../typechain-types";
+import { loadFixture, mine, time } from "@nomicfoundation/hardhat-network-helpers";
+import { createRequire } from "module";
+
+// Load the TypeScript helper through require so ts-node compiles it on the fly.
+const require = createRequire(import.meta.url);
+const { deployGovernance, migrateDAOAdmin } =
+  require("../scripts/helpers/governance") as typeof import("../scripts/helpers/governance");
+
+describe("BridgeDAO", function () {
+  const minDelay = 2n * 24n * 60n * 60n;
+
+  async function deployGovernanceFixture() {
+    const [owner, relayer, voter, holder] = await ethers.getSigners();
+
+    const wrappedTON = await upgrades.deployProxy(
+      await ethers.getContractFactory("WrappedTON"),
+      [owner.address, ethers.ZeroAddress],
+      { initializer: "initialize" }
+    ) as unknown as WrappedTON;
+    await wrappedTON.waitForDeployment();
+
+    const config = {
+      minBridgeAmount: ethers.parseEther("0.1"),
+      maxBridgeAmount: ethers.parseEther("1000"),
+      feeBasisPoints: 30,
+      relayerThreshold: 1,
+      enabled: true
+    };
+    const bridge = await upgrades.deployProxy(
+      await ethers.getContractFactory("PolygonBridge"),
+      [owner.address, await wrappedTON.getAddress(), config, [relayer.address]],
+      { initializer: "initialize" }
+    ) as unknown as PolygonBridge;
+    await bridge.waitForDeployment();
+    await wrappedTON.updateBridge(await bridge.getAddress());
+
+    const token = await upgrades.deployProxy(
+      await ethers.getContractFactory("BridgeGovernanceToken"),
+      [owner.address, holder.address, ethers.parseEther("900")],
+      { initializer: "initialize" }
+    ) as unknown as BridgeGovernanceToken;
+    await token.grantRole(await token.MINTER_ROLE(), owner.address);
+    await token.mint(voter.address, ethers.parseEther("100"));
+    await token.connect(voter).delegate(voter.address);
+
+    const addresses = await deployGovernance(hre, {
+      bridge: await bridge.getAddress(),
+      wrappedTON: await wrappedTON.getAddress(),
+      token: await token.getAddress(),
+      minDelay,
+    });
+    const timelock = await ethers.getContractAt(
+      "BridgeTimelock", addresses.timelockProxy
+    ) as unknown as BridgeTimelock;
+    const dao = await ethers.getContractAt(
+      "BridgeDAO", addresses.bridgeDAOProxy
+    ) as unknown as BridgeDAO;
+
+    return { bridge, wrappedTON, token, timelock, dao, addresses, owner, relayer, voter, holder };
+  }
+
+  describe("Deployment", function () {
+    it("Should wire the DAO as the timelock's proposer, canceller and executor", async function () {
+      const { timelock, dao } = await loadFixture(deployGovernanceFixture);
+      const daoAddress = await dao.getAddress();
+
+      expect(await dao.timelock()).to.equal(await timelock.getAddress());
+      expect(await timelock.hasRole(await timelock.PROPOSER_ROLE(), daoAddress)).to.be.true;
+      expect(await timelock.hasRole(await timelock.CANCELLER_ROLE(), daoAddress)).to.be.true;
+      expect(await timelock.hasRole(await timelock.EXECUTOR_ROLE(), daoAddress)).to.be.true;
+      expect(await timelock.getMinDelay()).to.equal(minDelay);
+    });
+
+    it("Should move DEFAULT_ADMIN_ROLE to the timelock", async function () {
+      const { bridge, wrappedTON, timelock, owner } = await loadFixture(deployGovernanceFixture);
+      const timelockAddress = await timelock.getAddress();
+      const adminRole = await bridge.DEFAULT_ADMIN_ROLE();
+
+      expect(await bridge.hasRole(adminRole, timelockAddress)).to.be.true;
+      expect(await bridge.hasRole(adminRole, owner.address)).to.be.false;
+      expect(await wrappedTON.hasRole(adminRole, timelockAddress)).to.be.true;
+      expect(await wrappedTON.hasRole(adminRole, owner.address)).to.be.false;
+      expect(await timelock.hasRole(adminRole, timelockAddress)).to.be.true;
+      expect(await timelock.hasRole(adminRole, owner.address)).to.be.false;
+    });
+
+    it("Should return proxy and implementation addresses", async function () {
+      const { timelock, dao, token, addresses } = await loadFixture(deployGovernanceFixture);
+
+      expect(addresses.timelockProxy).to.equal(await timelock.getAddress());
+      expect(addresses.bridgeDAOProxy).to.equal(await dao.getAddress());
+      expect(addresses.timelock).to.equal(
+        await upgrades.erc1967.getImplementationAddress(addresses.timelockProxy)
+      );
+      expect(addresses.bridgeDAO).to.equal(
+        await upgrades.erc1967.getImplementationAddress(addresses.bridgeDAOProxy)
+      );
+      expect(addresses.governanceToken).to.equal(await token.getAddress());
+    });
+
+    it("Should stop the deployer from calling admin functions directly", async function () {
+      const { bridge, owner } = await loadFixture(deployGovernanceFixture);
+      const current = await bridge.config();
+
+      await expect(
+        bridge.connect(owner).updateConfig({
+          minBridgeAmount: current.minBridgeAmount,
+          maxBridgeAmount: current.maxBridgeAmount,
+          feeBasisPoints: 40,
+          relayerThreshold: current.relayerThreshold,
+          enabled: current.enabled,
+        })
+      ).to.be.revertedWithCustomError(bridge, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Proposals", function () {
+    async function proposeUpdateConfig(
+      fixture: Awaited<ReturnType<typeof deployGovernanceFixture>>,
+      feeBasisPoints: number
+    ) {
+      const { bridge, dao, voter } = fixture;
+      const current = await bridge.config();
+      const calldata = bridge.interface.encodeFunctionData("updateConfig", [{
+        minBridgeAmount: current.minBridgeAmount,
+        maxBridgeAmount: current.maxBridgeAmount,
+        feeBasisPoints,
+        relayerThreshold: current.relayerThreshold,
+        enabled: current.enabled,
+      }]);
+      const description = `Set bridge fee to ${feeBasisPoints} bps`;
+      const proposal = {
+        targets: [await bridge.getAddress()],
+        values: [0n],
+        calldatas: [calldata],
+        descriptionHash: ethers.id(description),
+      };
+
+      await dao.connect(voter).propose(proposal.targets, proposal.values, proposal.calldatas, description);
+      const proposalId = await dao.hashProposal(
+        proposal.targets, proposal.values, proposal.calldatas, proposal.descriptionHash
+      );
+      return { proposal, proposalId };
+    }
+
+    it("Should run updateConfig through propose, vote, queue and execute", async function () {
+      const fixture = await loadFixture(deployGovernanceFixture);
+      const { bridge, dao, voter } = fixture;
+      const { proposal, proposalId } = await proposeUpdateConfig(fixture, 60);
+      const { targets, values, calldatas, descriptionHash } = proposal;
+
+      expect(await dao.state(proposalId)).to.equal(0); // Pending
+      await mine((await dao.votingDelay()) + 1n);
+      expect(await dao.state(proposalId)).to.equal(1); // Active
+
+      await dao.connect(voter).castVote(proposalId, 1);
+      await mine(await dao.votingPeriod());
+      expect(await dao.state(proposalId)).to.equal(4); // Succeeded
+
+      await dao.queue(targets, values, calldatas, descriptionHash);
+      expect(await dao.state(proposalId)).to.equal(5); // Queued
+
+      // The timelock holds the operation until the delay has passed
+      await expect(
+        dao.execute(targets, values, calldatas, descriptionHash)
+      ).to.be.revertedWithCustomError(fixture.timelock, "TimelockUnexpectedOperationState");
+
+      await time.increase(minDelay);
+      await expect(dao.execute(targets, values, calldatas, descriptionHash))
+        .to.emit(bridge, "ConfigUpdated");
+
+      expect(await dao.state(proposalId)).to.equal(7); // Executed
+      expect((await bridge.config()).feeBasisPoints).to.equal(60);
+    });
+
+    it("Should not queue a proposal that missed quorum", async function () {
+      const fixture = await loadFixture(deployGovernanceFixture);
+      const { dao, token } = fixture;
+
+      // 1 of ~1000 tokens is below the 4% quorum
+      const small = (await ethers.getSigners())[5];
+      await token.mint(small.address, ethers.parseEther("1"));
+      await token.connect(small).delegate(small.address);
+      const { proposal, proposalId } = await proposeUpdateConfig(fixture, 50);
+
+      await mine((await dao.votingDelay()) + 1n);
+      await dao.connect(small).castVote(proposalId, 1);
+      await mine(await dao.votingPeriod());
+
+      expect(await dao.state(proposalId)).to.equal(3); // Defeated
+      await expect(
+        dao.queue(proposal.targets, proposal.values, proposal.calldatas, proposal.descriptionHash)
+      ).to.be.revertedWithCustomError(dao, "GovernorUnexpectedProposalState");
+    });
+
+    it("Should only let the DAO schedule on the timelock", async function () {
+      const { bridge, timelock, owner } = await loadFixture(deployGovernanceFixture);
+      const calldata = bridge.interface.encodeFunctionData("setTreasury", [owner.address]);
+
+      await expect(
+        timelock.connect(owner).schedule(
+          await bridge.getAddress(), 0n, calldata, ethers.ZeroHash, ethers.ZeroHash, minDelay
+        )
+      ).to.be.revertedWithCustomError(timelock, "AccessControlUnauthorizedAccount");
+    });
+  });
+  describe("Upgrade authority", function () {
+    // A DAO still administered by the account that initialized it, as left by
+    // a deployment that has not been migrated yet.
+    async function deployAdministeredDAOFixture() {
+      const [owner, alice, bob] = await ethers.getSigners();
+      const { token } = await deployGovernanceFixture();
+
+      const timelock = await upgrades.deployProxy(
+        await ethers.getContractFactory("BridgeTimelock"),
+        [minDelay, [], [ethers.ZeroAddress], owner.address],
+        { initializer: "initialize" }
+      ) as unknown as BridgeTimelock;
+      const dao = await upgrades.deployProxy(
+        await ethers.getContractFactory("BridgeDAO"),
+        [await token.getAddress(), await timelock.getAddress()],
+        { initializer: "initialize" }
+      ) as unknown as BridgeDAO;
+      await dao.waitForDeployment();
+
+      return { dao, owner, alice, bob };
+    }
+
+    async function newImplementation() {
+      const implementation = await (await ethers.getContractFactory("BridgeDAO")).deploy();
+      return implementation.getAddress();
+    }
+
+    it("Should leave a governance deployment without an admin", async function () {
+      const { dao, owner } = await loadFixture(deployGovernanceFixture);
+
+      expect(await dao.admin()).to.equal(ethers.ZeroAddress);
+      await expect(
+        dao.connect(owner).upgradeToAndCall(await newImplementation(), "0x")
+      ).to.be.revertedWithCustomError(dao, "GovernorOnlyExecutor");
+    });
+
+    it("Should upgrade the DAO through a proposal executed by the timelock", async function () {
+      const { dao, voter } = await loadFixture(deployGovernanceFixture);
+      const daoAddress = await dao.getAddress();
+      const implementation = await newImplementation();
+
+      const targets = [daoAddress];
+      const values = [0n];
+      const calldatas = [dao.interface.encodeFunctionData("upgradeToAndCall", [implementation, "0x"])];
+      const description = "Upgrade BridgeDAO";
+      const descriptionHash = ethers.id(description);
+
+      await dao.connect(voter).propose(targets, values, calldatas, description);
+      const proposalId = await dao.hashProposal(targets, values, calldatas, descriptionHash);
+      await mine((await dao.votingDelay()) + 1n);
+      await dao.connect(voter).castVote(proposalId, 1);
+      await mine(await dao.votingPeriod());
+      await dao.queue(targets, values, calldatas, descriptionHash);
+      await time.increase(minDelay);
+
+      await expect(dao.execute(targets, values, calldatas, descriptionHash))
+        .to.emit(dao, "Upgraded")
+        .withArgs(implementation);
+      expect(await upgrades.erc1967.getImplementationAddress(daoAddress)).to.equal(implementation);
+    });
+
+    it("Should let the admin upgrade until it renounces", async function () {
+      const { dao, owner } = await loadFixture(deployAdministeredDAOFixture);
+      expect(await dao.admin()).to.equal(owner.address);
+
+      await dao.connect(owner).upgradeToAndCall(await newImplementation(), "0x");
+
+      await expect(dao.connect(owner).renounceAdmin())
+        .to.emit(dao, "AdminTransferred")
+        .withArgs(owner.address, ethers.ZeroAddress);
+      await expect(
+        dao.connect(owner).upgradeToAndCall(await newImplementation(), "0x")
+      ).to.be.revertedWithCustomError(dao, "GovernorOnlyExecutor");
+    });
+
+    it("Should hand the admin role over in two steps", async function () {
+      const { dao, owner, alice, bob } = await loadFixture(deployAdministeredDAOFixture);
+
+      await expect(dao.connect(alice).transferAdmin(alice.address)).to.be.revertedWith("Only admin");
+      await expect(dao.connect(owner).transferAdmin(alice.address))
+        .to.emit(dao, "AdminTransferStarted")
+        .withArgs(owner.address, alice.address);
+      expect(await dao.pendingAdmin()).to.equal(alice.address);
+      expect(await dao.admin()).to.equal(owner.address);
+
+      await expect(dao.connect(bob).acceptAdmin()).to.be.revertedWith("Only pending admin");
+      await expect(dao.connect(alice).acceptAdmin())
+        .to.emit(dao, "AdminTransferred")
+        .withArgs(owner.address, alice.address);
+      expect(await dao.admin()).to.equal(alice.address);
+      expect(await dao.pendingAdmin()).to.equal(ethers.ZeroAddress);
+
+      await expect(
+        dao.connect(owner).upgradeToAndCall(await newImplementation(), "0x")
+      ).to.be.revertedWithCustomError(dao, "GovernorOnlyExecutor");
+      await dao.connect(alice).upgradeToAndCall(await newImplementation(), "0x");
+    });
+
+    it("Should only let governance revoke the admin", async function () {
+      const { dao, owner } = await loadFixture(deployAdministeredDAOFixture);
+      await expect(dao.connect(owner).revokeAdmin())
+        .to.be.revertedWithCustomError(dao, "GovernorOnlyExecutor");
+    });
+
+    it("Should migrate the admin away with the migration helper", async function () {
+      const { dao, owner } = await loadFixture(deployAdministeredDAOFixture);
+      const daoAddress = await dao.getAddress();
+
+      const result = await migrateDAOAdmin(hre, daoAddress);
+      expect(result.upgradedImplementation).to.be.undefined;
+      expect(result.previousAdmin).to.equal(owner.address);
+      expect(result.admin).to.equal(ethers.ZeroAddress);
+
+      await expect(
+        dao.connect(owner).upgradeToAndCall(await newImplementation(), "0x")
+      ).to.be.revertedWithCustomError(dao, "GovernorOnlyExecutor");
+    });
+
+    it("Should start a handover with the migration helper", async function () {
+      const { dao, owner, alice } = await loadFixture(deployAdministeredDAOFixture);
+
+      const result = await migrateDAOAdmin(hre, await dao.getAddress(), alice.address);
+      expect(result.admin).to.equal(owner.address);
+      expect(result.pendingAdmin).to.equal(alice.address);
+    });
+  });
+});
@@ -0,0 +1,217 @@
+import { expect } from "chai";
+import hre from "hardhat";
+const { ethers, upgrades } = hre;
+import { BridgeDAO, BridgeGovernanceToken, BridgeTimelock } from "../typechain-types";
+import { loadFixture, mine } from "@nomicfoundation/hardhat-network-helpers";
+
+describe("BridgeGovernanceToken", function () {
+  const initialSupply = ethers.parseEther("1000");
+
+  async function deployTokenFixture() {
+    const [owner, holder, alice, bob] = await ethers.getSigners();
+
+    const token = await upgrades.deployProxy(
+      await ethers.getContractFactory("BridgeGovernanceToken"),
+      [owner.address, holder.address, initialSupply],
+      { initializer: "initialize" }
+    ) as unknown as BridgeGovernanceToken;
+    await token.waitForDeployment();
+    await token.grantRole(await token.MINTER_ROLE(), owner.address);
+
+    const timelock = await upgrades.deployProxy(
+      await ethers.getContractFactory("BridgeTimelock"),
+      [2n * 24n * 60n * 60n, [], [ethers.ZeroAddress], owner.address],
+      { initializer: "initialize" }
+    ) as unknown as BridgeTimelock;
+    const dao = await upgrades.deployProxy(
+      await ethers.getContractFactory("BridgeDAO"),
+      [await token.getAddress(), await timelock.getAddress()],
+      { initializer: "initialize" }
+    ) as unknown as BridgeDAO;
+    await dao.waitForDeployment();
+
+    return { token, timelock, dao, owner, holder, alice, bob };
+  }
+
+  describe("Initialization", function () {
+    it("Should mint the initial supply to the holder", async function () {
+      const { token, owner, holder } = await loadFixture(deployTokenFixture);
+      expect(await token.name()).to.equal("Bridge Governance");
+      expect(await token.symbol()).to.equal("BGOV");
+      expect(await token.totalSupply()).to.equal(initialSupply);
+      expect(await token.balanceOf(holder.address)).to.equal(initialSupply);
+      expect(await token.hasRole(await token.DEFAULT_ADMIN_ROLE(), owner.address)).to.be.true;
+    });
+
+    it("Should only let MINTER_ROLE mint", async function () {
+      const { token, alice } = await loadFixture(deployTokenFixture);
+      await expect(
+        token.connect(alice).mint(alice.address, 1n)
+      ).to.be.revertedWithCustomError(token, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should only let the admin upgrade", async function () {
+      const { token, alice } = await loadFixture(deployTokenFixture);
+      const implementation = await (await ethers.getContractFactory("BridgeGovernanceToken")).deploy();
+      await expect(
+        token.connect(alice).upgradeToAndCall(await implementation.getAddress(), "0x")
+      ).to.be.revertedWithCustomError(token, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Delegation", function () {
+    it("Should only count delegated balances as votes", async function () {
+      const { token, holder } = await loadFixture(deployTokenFixture);
+      expect(await token.getVotes(holder.address)).to.equal(0);
+
+      await expect(token.connect(holder).delegate(holder.address))
+        .to.emit(token, "DelegateChanged")
+        .withArgs(holder.address, ethers.ZeroAddress, holder.address);
+      expect(await token.getVotes(holder.address)).to.equal(initialSupply);
+    });
+
+    it("Should move votes with transfers and redelegation", async function () {
+      const { token, holder, alice, bob } = await loadFixture(deployTokenFixture);
+      await token.connect(holder).delegate(holder.address);
+      await token.connect(alice).delegate(alice.address);
+
+      const amount = ethers.parseEther("100");
+      await token.connect(holder).transfer(alice.address, amount);
+      expect(await token.getVotes(holder.address)).to.equal(initialSupply - amount);
+      expect(await token.getVotes(alice.address)).to.equal(amount);
+
+      await token.connect(alice).delegate(bob.address);
+      expect(await token.getVotes(alice.address)).to.equal(0);
+      expect(await token.getVotes(bob.address)).to.equal(amount);
+    });
+
+    it("Should accept delegation by signature", async function () {
+      const { token, holder, alice } = await loadFixture(deployTokenFixture);
+      const domain = await token.eip712Domain();
+      const expiry = BigInt(2 ** 40);
+      const nonce = await token.nonces(holder.address);
+
+      const signature = ethers.Signature.from(
+        await holder.signTypedData(
+          {
+            name: domain.name,
+            version: domain.version,
+            chainId: domain.chainId,
+            verifyingContract: domain.verifyingContract,
+          },
+          {
+            Delegation: [
+              { name: "delegatee", type: "address" },
+              { name: "nonce", type: "uint256" },
+              { name: "expiry", type: "uint256" },
+            ],
+          },
+          { delegatee: alice.address, nonce, expiry }
+        )
+      );
+
+      await token.connect(alice).delegateBySig(
+        alice.address, nonce, expiry, signature.v, signature.r, signature.s
+      );
+      expect(await token.delegates(holder.address)).to.equal(alice.address);
+      expect(await token.getVotes(alice.address)).to.equal(initialSupply);
+    });
+
+    it("Should keep past votes and supply in checkpoints", async function () {
+      const { token, holder, alice } = await loadFixture(deployTokenFixture);
+      await token.connect(holder).delegate(holder.address);
+      const before = await token.clock();
+
+      await mine();
+      await token.mint(alice.address, ethers.parseEther("500"));
+      await token.connect(holder).transfer(alice.address, ethers.parseEther("200"));
+      await mine();
+
+      expect(await token.getPastVotes(holder.address, before)).to.equal(initialSupply);
+      expect(await token.getPastTotalSupply(before)).to.equal(initialSupply);
+      expect(await token.getVotes(holder.address)).to.equal(ethers.parseEther("800"));
+      expect(await token.totalSupply()).to.equal(ethers.parseEther("1500"));
+    });
+  });
+
+  describe("Clock", function () {
+    it("Should use block numbers for the token and the DAO", async function () {
+      const { token, dao } = await loadFixture(deployTokenFixture);
+      const block = await ethers.provider.getBlockNumber();
+
+      expect(await token.clock()).to.equal(block);
+      expect(await token.CLOCK_MODE()).to.equal("mode=blocknumber&from=default");
+      expect(await dao.clock()).to.equal(block);
+      expect(await dao.CLOCK_MODE()).to.equal(await token.CLOCK_MODE());
+    });
+  });
+
+  describe("Quorum", function () {
+    async function proposeAndVote(
+      fixture: Awaited<ReturnType<typeof deployTokenFixture>>,
+      voter: Awaited<ReturnType<typeof ethers.getSigners>>[number],
+      description: string
+    ) {
+      const { dao, timelock } = fixture;
+      const targets = [await timelock.getAddress()];
+      const values = [0n];
+      const calldatas = [timelock.interface.encodeFunctionData("updateDelay", [3n * 24n * 60n * 60n])];
+
+      await dao.connect(voter).propose(targets, values, calldatas, description);
+      const proposalId = await dao.hashProposal(targets, values, calldatas, ethers.id(description));
+
+      await mine((await dao.votingDelay()) + 1n);
+      await dao.connect(voter).castVote(proposalId, 1);
+      await mine(await dao.votingPeriod());
+      return proposalId;
+    }
+
+    it("Should require 4% of the past total supply", async function () {
+      const { dao, token } = await loadFixture(deployTokenFixture);
+      const timepoint = await token.clock();
+      await mine();
+
+      expect(await dao["quorumNumerator()"]()).to.equal(4);
+      expect(await dao.quorumDenominator()).to.equal(100);
+      expect(await dao.quorum(timepoint)).to.equal((initialSupply * 4n) / 100n);
+    });
+
+    it("Should not count supply minted after the timepoint", async function () {
+      const { dao, token, alice } = await loadFixture(deployTokenFixture);
+      const timepoint = await token.clock();
+      await mine();
+      await token.mint(alice.address, initialSupply);
+      await mine();
+
+      expect(await dao.quorum(timepoint)).to.equal((initialSupply * 4n) / 100n);
+      expect(await dao.quorum((await token.clock()) - 1n)).to.equal((initialSupply * 2n * 4n) / 100n);
+    });
+
+    it("Should pass a proposal whose votes reach quorum exactly", async function () {
+      const fixture = await loadFixture(deployTokenFixture);
+      const { dao, token, holder, alice } = fixture;
+      await token.connect(holder).transfer(alice.address, (initialSupply * 4n) / 100n);
+      await token.connect(alice).delegate(alice.address);
+
+      const proposalId = await proposeAndVote(fixture, alice, "Raise timelock delay");
+      expect(await dao.state(proposalId)).to.equal(4); // Succeeded
+    });
+
+    it("Should defeat a proposal one vote short of quorum", async function () {
+      const fixture = await loadFixture(deployTokenFixture);
+      const { dao, token, holder, alice } = fixture;
+      await token.connect(holder).transfer(alice.address, (initialSupply * 4n) / 100n - 1n);
+      await token.connect(alice).delegate(alice.address);
+
+      const proposalId = await proposeAndVote(fixture, alice, "Raise timelock delay");
+      expect(await dao.state(proposalId)).to.equal(3); // Defeated
+    });
+
+    it("Should only let governance change the quorum fraction", async function () {
+      const { dao, owner } = await loadFixture(deployTokenFixture);
+      await expect(
+        dao.connect(owner).updateQuorumNumerator(10)
+      ).to.be.revertedWithCustomError(dao, "GovernorOnlyExecutor");
+    });
+  });
+});
@@ -0,0 +1,292 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { createRequire } from "module";
+
+// The relayer is a CommonJS package; load it through require so ts-node
+// compiles it on the fly.
+const require = createRequire(import.meta.url);
+const { CheckpointStore } =
+  require("../relayer/src/checkpointStore") as typeof import("../relayer/src/checkpointStore");
+
+describe("Relayer checkpoint store", function () {
+  const LOG = { blockNumber: 100, blockHash: "0x" + "ab".repeat(32), txHash: "0x" + "cd".repeat(32) };
+  const TRANSFER_ID = "0x" + "AA".repeat(32);
+
+  let dir: string;
+  let file: string;
+
+  beforeEach(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "relayer-store-"));
+    file = path.join(dir, "state.json");
+  });
+
+  afterEach(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe("Checkpoint", function () {
+    it("Should seed a new store and keep the checkpoint on reopen", async function () {
+      const opened = await CheckpointStore.open(file, async () => 42);
+      expect(opened.created).to.equal(true);
+      expect(opened.store.lastProcessedBlock).to.equal(42);
+
+      opened.store.setLastProcessedBlock(50);
+      opened.store.setLastProcessedBlock(45);
+      expect(opened.store.lastProcessedBlock).to.equal(50);
+
+      const reopened = await CheckpointStore.open(file, async () => {
+        throw new Error("seed must not be consulted for an existing store");
+      });
+      expect(reopened.created).to.equal(false);
+      expect(reopened.store.lastProcessedBlock).to.equal(50);
+      expect(fs.existsSync(`${file}.tmp`)).to.equal(false);
+    });
+
+    it("Should reject an unrecognised store file", async function () {
+      fs.writeFileSync(file, JSON.stringify({ version: 2, lastProcessedBlock: 1 }));
+
+      let error: Error | undefined;
+      await CheckpointStore.open(file, async () => 0).catch((err) => (error = err));
+      expect(error?.message).to.match(/Unrecognised checkpoint store format/);
+    });
+  });
+
+  describe("Payout ledger", function () {
+    it("Should record a transfer once, keyed case-insensitively", async function () {
+      const { store } = await CheckpointStore.open(file, async () => 0);
+
+      const first = store.recordDetected(TRANSFER_ID, LOG);
+      const again = store.recordDetected(TRANSFER_ID.toLowerCase(), { ...LOG, blockNumber: 200 });
+
+      expect(first.status).to.equal("detected");
+      expect(again.blockNumber).to.equal(100);
+      expect(store.getTransfer(TRANSFER_ID)?.transferId).to.equal(TRANSFER_ID.toLowerCase());
+    });
+
+    it("Should walk a transfer through the payout states", async function () {
+      const { store } = await CheckpointStore.open(file, async () => 0);
+      store.recordDetected(TRANSFER_ID, LOG);
+
+      store.transition(TRANSFER_ID, "payout_sent", { payoutSeqno: 7, payoutValidUntil: 1000 });
+      store.transition(TRANSFER_ID, "payout_confirmed", { tonTxId: "ff".repeat(32), tonLt: "123" });
+      const done = store.transition(TRANSFER_ID, "polygon_confirmed", { polygonTxHash: "0x01" });
+
+      expect(done.status).to.equal("polygon_confirmed");
+      expect(done.payoutSeqno).to.equal(7);
+      expect(done.tonLt).to.equal("123");
+      expect(store.listTransfers(["detected", "payout_sent", "payout_confirmed"])).to.be.empty;
+    });
+
+    it("Should fall back to detected when a sent payout did not go out", async function () {
+      const { store } = await CheckpointStore.open(file, async () => 0);
+      store.recordDetected(TRANSFER_ID, LOG);
+      store.transition(TRANSFER_ID, "payout_sent", { payoutSeqno: 7 });
+
+      const retried = store.transition(TRANSFER_ID, "detected", { lastError: "expired" });
+      expect(retried.status).to.equal("detected");
+      expect(retried.lastError).to.equal("expired");
+    });
+
+    it("Should confirm a payout another relayer recorded without sending one", async function () {
+      const { store } = await CheckpointStore.open(file, async () => 0);
+      store.recordDetected(TRANSFER_ID, LOG);
+
+      const adopted = store.transition(TRANSFER_ID, "payout_confirmed", {
+        tonTxId: "ab".repeat(32),
+        tonLt: "42",
+        payoutWallet: "EQPeerWallet",
+      });
+      expect(adopted.status).to.equal("payout_confirmed");
+      expect(adopted.payoutWallet).to.equal("EQPeerWallet");
+      expect(adopted.payoutSeqno).to.be.undefined;
+    });
+
+    it("Should reject transitions the ledger forbids", async function () {
+      const { store } = await CheckpointStore.open(file, async () => 0);
+      store.recordDetected(TRANSFER_ID, LOG);
+
+      expect(() => store.transition(TRANSFER_ID, "polygon_confirmed")).to.throw(
+        /Illegal ledger transition detected -> polygon_confirmed/
+      );
+      expect(() => store.transition(TRANSFER_ID, "payout_bounced")).to.throw(/Illegal ledger transition/);
+
+      store.transition(TRANSFER_ID, "refunded");
+      expect(() => store.transition(TRANSFER_ID, "reorged")).to.throw(/refunded -> reorged/);
+      expect(() => store.transition("0x" + "00".repeat(32), "payout_sent")).to.throw(/Unknown transfer/);
+    });
+
+    it("Should list pending transfers in block order from a given block", async function () {
+      const { store } = await CheckpointStore.open(file, async () => 0);
+      store.recordDetected("0x03", { ...LOG, blockNumber: 30 });
+      store.recordDetected("0x01", { ...LOG, blockNumber: 10 });
+      store.recordDetected("0x02", { ...LOG, blockNumber: 20 });
+      store.transition("0x02", "skipped");
+
+      expect(store.listTransfers(["detected"]).map((r) => r.transferId)).to.deep.equal(["0x01", "0x03"]);
+      expect(store.listTransfers(["detected"], 20).map((r) => r.transferId)).to.deep.equal(["0x03"]);
+    });
+
+    it("Should reload the ledger from disk", async function () {
+      const { store } = await CheckpointStore.open(file, async () => 0);
+      store.recordDetected(TRANSFER_ID, LOG);
+      store.transition(TRANSFER_ID, "payout_sent", { payoutSeqno: 7 });
+      store.updateTransfer(TRANSFER_ID, { attempts: 2 });
+
+      const { store: reopened } = await CheckpointStore.open(file, async () => 0);
+      const record = reopened.getTransfer(TRANSFER_ID)!;
+      expect(record.status).to.equal("payout_sent");
+      expect(record.payoutSeqno).to.equal(7);
+      expect(record.attempts).to.equal(2);
+
+      // The reloaded record still obeys the ledger.
+      expect(() => reopened.transition(TRANSFER_ID, "polygon_confirmed")).to.throw(/Illegal ledger transition/);
+      reopened.transition(TRANSFER_ID, "payout_confirmed");
+    });
+
+    it("Should migrate processed/failed statuses from older stores", async function () {
+      fs.writeFileSync(
+        file,
+        JSON.stringify({
+          version: 1,
+          lastProcessedBlock: 5,
+          transfers: {
+            "0x01": { transferId: "0x01", blockNumber: 1, txHash: "0x", status: "processed", attempts: 1, updatedAt: "" },
+            "0x02": { transferId: "0x02", blockNumber: 2, txHash: "0x", status: "failed", attempts: 3, updatedAt: "" },
+          },
+        })
+      );
+
+      const { store } = await CheckpointStore.open(file, async () => 0);
+      expect(store.getTransfer("0x01")?.status).to.equal("polygon_confirmed");
+      expect(store.getTransfer("0x02")?.status).to.equal("detected");
+      expect(store.listBurns(["detected"])).to.be.empty;
+    });
+  });
+
+  describe("Burns and deposits", function () {
+    it("Should walk a burn through its payout states and reload it", async function () {
+      const { store } = await CheckpointStore.open(file, async () => 0);
+      const burnId = `${LOG.txHash}:3`;
+      store.recordBurn({
+        burnId,
+        txHash: LOG.txHash,
+        blockNumber: LOG.blockNumber,
+        blockHash: LOG.blockHash,
+        from: "0x0000000000000000000000000000000000000002",
+        amount: "1000000000",
+        tonRecipient: "EQ-recipient",
+      });
+
+      store.transitionBurn(burnId, "payout_sent", { payoutSeqno: 1 });
+      expect(() => store.transitionBurn(burnId, "invalid")).to.throw(/Illegal burn transition payout_sent -> invalid/);
+      store.transitionBurn(burnId, "paid", { tonLt: "9" });
+
+      const { store: reopened } = await CheckpointStore.open(file, async () => 0);
+      expect(reopened.getBurn(burnId)?.status).to.equal("paid");
+      expect(reopened.listBurns(["detected", "payout_sent"])).to.be.empty;
+    });
+
+    it("Should keep terminal deposits terminal", async function () {
+      const { store } = await CheckpointStore.open(file, async () => 0);
+      store.recordDeposit({
+        tonTxHash: "AB".repeat(32),
+        lt: "10",
+        sender: "EQ-sender",
+        amountNano: "1000000000",
+        comment: "0x0000000000000000000000000000000000000002",
+        kind: "mint",
+        status: "detected",
+        seenAtMcSeqno: 1,
+      });
+
+      store.updateDeposit("ab".repeat(32), { status: "minted", polygonTxHash: "0x01" });
+      expect(() => store.updateDeposit("AB".repeat(32), { status: "detected" })).to.throw(
+        /already minted; cannot move to detected/
+      );
+
+      const { store: reopened } = await CheckpointStore.open(file, async () => 0);
+      expect(reopened.getDeposit("AB".repeat(32))?.status).to.equal("minted");
+    });
+  });
+
+  describe("Archive", function () {
+    const SECOND_ID = "0x" + "BB".repeat(32);
+    const THIRD_ID = "0x" + "CC".repeat(32);
+
+    function confirm(store: import("../relayer/src/checkpointStore").CheckpointStore, transferId: string) {
+      store.recordDetected(transferId, LOG);
+      store.transition(transferId, "payout_sent");
+      store.transition(transferId, "payout_confirmed");
+      return store.transition(transferId, "polygon_confirmed");
+    }
+
+    it("Should move finished entries past the retention window to the archive file", async function () {
+      const { store } = await CheckpointStore.open(file, async () => 0);
+      confirm(store, TRANSFER_ID);
+      // Paid, then its log was reorged away: an operator still needs it.
+      confirm(store, SECOND_ID);
+      store.transition(SECOND_ID, "reorged", { paidBeforeReorg: true });
+      store.recordDetected(THIRD_ID, LOG);
+      const later = new Date(Date.now() + 1000);
+
+      // The log is still within reach of the reorg sweep.
+      expect(store.archiveFinished(later, LOG.blockNumber)).to.equal(0);
+      // Settled too recently.
+      expect(store.archiveFinished(new Date(0), LOG.blockNumber + 1)).to.equal(0);
+
+      expect(store.archiveFinished(later, LOG.blockNumber + 1)).to.equal(1);
+      expect(store.getTransfer(TRANSFER_ID)).to.be.undefined;
+      expect(store.getTransfer(SECOND_ID)?.status).to.equal("reorged");
+      expect(store.getTransfer(THIRD_ID)?.status).to.equal("detected");
+
+      const archived = fs.readFileSync(`${file}.archive.jsonl`, "utf-8").trim().split("\n").map((l) => JSON.parse(l));
+      expect(archived).to.have.length(1);
+      expect(archived[0].kind).to.equal("transfer");
+      expect(archived[0].record.transferId).to.equal(TRANSFER_ID.toLowerCase());
+      expect(archived[0].record.status).to.equal("polygon_confirmed");
+
+      const { store: reopened } = await CheckpointStore.open(file, async () => 0);
+      expect(reopened.getTransfer(TRANSFER_ID)).to.be.undefined;
+      expect(reopened.listTransfers(["detected"]).map((r) => r.transferId)).to.deep.equal([THIRD_ID.toLowerCase()]);
+    });
+
+    it("Should archive settled burns and deposits but keep bounced payouts", async function () {
+      const { store } = await CheckpointStore.open(file, async () => 0);
+      for (const logIndex of [1, 2]) {
+        store.recordBurn({
+          burnId: `${LOG.txHash}:${logIndex}`,
+          txHash: LOG.txHash,
+          blockNumber: LOG.blockNumber,
+          blockHash: LOG.blockHash,
+          from: "0x0000000000000000000000000000000000000002",
+          amount: "1000000000",
+          tonRecipient: "EQ-recipient",
+        });
+        store.transitionBurn(`${LOG.txHash}:${logIndex}`, "payout_sent");
+      }
+      store.transitionBurn(`${LOG.txHash}:1`, "paid");
+      store.transitionBurn(`${LOG.txHash}:2`, "payout_bounced");
+      store.recordDeposit({
+        tonTxHash: "AB".repeat(32),
+        lt: "10",
+        sender: "EQ-sender",
+        amountNano: "1000000000",
+        comment: "0x0000000000000000000000000000000000000002",
+        kind: "mint",
+        status: "detected",
+        seenAtMcSeqno: 1,
+      });
+      store.updateDeposit("AB".repeat(32), { status: "minted" });
+
+      expect(store.archiveFinished(new Date(Date.now() + 1000), LOG.blockNumber + 1)).to.equal(2);
+      expect(store.getBurn(`${LOG.txHash}:1`)).to.be.undefined;
+      expect(store.getBurn(`${LOG.txHash}:2`)?.status).to.equal("payout_bounced");
+      expect(store.getDeposit("AB".repeat(32))).to.be.undefined;
+
+      const kinds = fs.readFileSync(`${file}.archive.jsonl`, "utf-8").trim().split("\n").map((l) => JSON.parse(l).kind);
+      expect(kinds).to.deep.equal(["burn", "deposit"]);
+    });
+  });
+});
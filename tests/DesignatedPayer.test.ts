@@ -0,0 +1,130 @@
+import { expect } from "chai";
+import hre from "hardhat";
+const { ethers, upgrades } = hre;
+import { PolygonBridge } from "../typechain-types";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { createRequire } from "module";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+// The relayer is a CommonJS package; load it through require so ts-node
+// compiles it on the fly.
+const require = createRequire(import.meta.url);
+const { designatedPayer, getDesignatedPayer } =
+  require("../relayer/src/payer") as typeof import("../relayer/src/payer");
+const { CheckpointStore } =
+  require("../relayer/src/checkpointStore") as typeof import("../relayer/src/checkpointStore");
+
+describe("Relayer designated payer", function () {
+  async function deployBridgeFixture() {
+    const [owner, relayer2, relayer3, relayer4] = await ethers.getSigners();
+
+    const PolygonBridgeFactory = await ethers.getContractFactory("PolygonBridge");
+    const config = {
+      minBridgeAmount: ethers.parseEther("0.1"),
+      maxBridgeAmount: ethers.parseEther("1000"),
+      feeBasisPoints: 30,
+      relayerThreshold: 1,
+      enabled: true
+    };
+
+    const bridge = await upgrades.deployProxy(
+      PolygonBridgeFactory,
+      [owner.address, owner.address, config, [owner.address, relayer2.address, relayer3.address]],
+      { initializer: "initialize" }
+    ) as unknown as PolygonBridge;
+    await bridge.waitForDeployment();
+
+    return { bridge, owner, relayer2, relayer3, relayer4 };
+  }
+
+  const ids = Array.from({ length: 60 }, (_, i) => ethers.id(`transfer-${i}`));
+
+  it("Should pick the same payer whatever the order or case of the set", async function () {
+    const { owner, relayer2, relayer3 } = await loadFixture(deployBridgeFixture);
+    const set = [owner.address, relayer2.address, relayer3.address];
+    const shuffled = [set[2].toLowerCase(), set[0], set[1].toLowerCase()];
+
+    for (const id of ids) {
+      const payer = designatedPayer(id, set);
+      expect(set).to.include(payer);
+      expect(designatedPayer(id, shuffled)).to.equal(payer);
+      expect(designatedPayer(id.toUpperCase().replace("0X", "0x"), set)).to.equal(payer);
+    }
+  });
+
+  it("Should spread payouts over every relayer", async function () {
+    const { owner, relayer2, relayer3 } = await loadFixture(deployBridgeFixture);
+    const set = [owner.address, relayer2.address, relayer3.address];
+
+    const payers = new Set(ids.map((id) => designatedPayer(id, set)));
+    expect(payers.size).to.equal(3);
+    expect(designatedPayer(ids[0], [relayer2.address])).to.equal(relayer2.address);
+  });
+
+  it("Should reject an empty relayer set", async function () {
+    expect(() => designatedPayer(ids[0], [])).to.throw("PolygonBridge has no relayers");
+  });
+
+  async function openStore() {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "relayer-payer-"));
+    const file = path.join(dir, "state.json");
+    const { store } = await CheckpointStore.open(file, async () => 0);
+    return { dir, file, store };
+  }
+
+  it("Should use the relayer set at the block of the event", async function () {
+    const { bridge, owner, relayer2, relayer3, relayer4 } = await loadFixture(deployBridgeFixture);
+    const set = [owner.address, relayer2.address, relayer3.address];
+    const { dir, file, store } = await openStore();
+    try {
+      store.seedRelayerSet(10, await bridge.getRelayers());
+      store.recordRelayerSetChange({ blockNumber: 12, logIndex: 3, relayer: relayer4.address, added: true });
+      // Changes up to the seed block are already in the seed set.
+      store.recordRelayerSetChange({ blockNumber: 10, logIndex: 0, relayer: owner.address, added: false });
+
+      // Find ids whose payer changes once a fourth relayer joins.
+      const moved = ids.filter(
+        (id) => designatedPayer(id, set) !== designatedPayer(id, [...set, relayer4.address])
+      );
+      expect(moved).to.not.be.empty;
+
+      for (const id of moved) {
+        // Events in the block that changed the set still use the old set.
+        expect(getDesignatedPayer(store, id, 5)).to.equal(designatedPayer(id, set));
+        expect(getDesignatedPayer(store, id, 12)).to.equal(designatedPayer(id, set));
+        expect(getDesignatedPayer(store, id, 13)).to.equal(designatedPayer(id, [...set, relayer4.address]));
+      }
+
+      const { store: reopened } = await CheckpointStore.open(file, async () => 0);
+      expect(reopened.relayersAt()).to.have.members(
+        [...set, relayer4.address].map((r) => r.toLowerCase())
+      );
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("Should hand a removed payer's transfers to the current set", async function () {
+    const { owner, relayer2, relayer3, relayer4 } = await loadFixture(deployBridgeFixture);
+    const set = [owner.address, relayer2.address, relayer3.address];
+    const { dir, store } = await openStore();
+    try {
+      store.seedRelayerSet(10, set);
+      // relayer3 is rotated out for relayer4.
+      store.recordRelayerSetChange({ blockNumber: 20, logIndex: 0, relayer: relayer3.address, added: false });
+      store.recordRelayerSetChange({ blockNumber: 20, logIndex: 1, relayer: relayer4.address, added: true });
+      const current = [owner.address, relayer2.address, relayer4.address];
+
+      for (const id of ids) {
+        const payer = designatedPayer(id, set);
+        expect(getDesignatedPayer(store, id, 15)).to.equal(
+          payer === relayer3.address ? designatedPayer(id, current) : payer
+        );
+      }
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,408 @@
+import { expect } from "chai";
+import hre from "hardhat";
+const { ethers, upgrades } = hre;
+import { BridgeDAO, BridgeGovernanceToken, PolygonBridge, WrappedTON } from "../typechain-types";
+import { loadFixture, mine, time } from "@nomicfoundation/hardhat-network-helpers";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { createRequire } from "module";
+
+// Load the TypeScript helpers through require so ts-node compiles them on the fly.
+const require = createRequire(import.meta.url);
+const { deployGovernance } =
+  require("../scripts/helpers/governance") as typeof import("../scripts/helpers/governance");
+const {
+  buildAction,
+  buildProposal,
+  buildProposalFromSpec,
+  describeProposal,
+  grantRoleAction,
+  pauseAction,
+  setSupportedTokenAction,
+  setTokenConfigAction,
+  updateConfigAction,
+  upgradeToAndCallAction,
+} = require("../scripts/helpers/proposals") as typeof import("../scripts/helpers/proposals");
+const { simulateProposal } =
+  require("../scripts/helpers/simulation") as typeof import("../scripts/helpers/simulation");
+
+describe("Governance proposals", function () {
+  const minDelay = 2n * 24n * 60n * 60n;
+
+  async function deployFixture() {
+    const [owner, relayer, voter] = await ethers.getSigners();
+
+    const wrappedTON = await upgrades.deployProxy(
+      await ethers.getContractFactory("WrappedTON"),
+      [owner.address, ethers.ZeroAddress],
+      { initializer: "initialize" }
+    ) as unknown as WrappedTON;
+    const bridge = await upgrades.deployProxy(
+      await ethers.getContractFactory("PolygonBridge"),
+      [owner.address, await wrappedTON.getAddress(), {
+        minBridgeAmount: ethers.parseEther("0.1"),
+        maxBridgeAmount: ethers.parseEther("1000"),
+        feeBasisPoints: 30,
+        relayerThreshold: 1,
+        enabled: true
+      }, [relayer.address]],
+      { initializer: "initialize" }
+    ) as unknown as PolygonBridge;
+    await wrappedTON.updateBridge(await bridge.getAddress());
+
+    const token = await upgrades.deployProxy(
+      await ethers.getContractFactory("BridgeGovernanceToken"),
+      [owner.address, voter.address, ethers.parseEther("1000")],
+      { initializer: "initialize" }
+    ) as unknown as BridgeGovernanceToken;
+    await token.connect(voter).delegate(voter.address);
+
+    const addresses = await deployGovernance(hre, {
+      bridge: await bridge.getAddress(),
+      wrappedTON: await wrappedTON.getAddress(),
+      token: await token.getAddress(),
+      minDelay,
+    });
+    const dao = await ethers.getContractAt(
+      "BridgeDAO", addresses.bridgeDAOProxy
+    ) as unknown as BridgeDAO;
+
+    const deployment = {
+      polygonBridgeProxy: await bridge.getAddress(),
+      wrappedTONProxy: await wrappedTON.getAddress(),
+      ...addresses,
+    };
+    return { bridge, wrappedTON, dao, deployment, owner, relayer, voter };
+  }
+
+  async function runTask(name: string, args: Record<string, unknown>) {
+    const output: string[] = [];
+    const log = console.log;
+    console.log = (...parts: unknown[]) => { output.push(parts.join(" ")); };
+    try {
+      await hre.run(name, args);
+    } finally {
+      console.log = log;
+    }
+    return output.join("\n");
+  }
+
+  function writeProposal(spec: unknown) {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "gov-")), "proposal.json");
+    fs.writeFileSync(file, JSON.stringify(spec));
+    return file;
+  }
+
+  function configSpec(overrides: Record<string, unknown> = {}) {
+    return {
+      minBridgeAmount: ethers.parseEther("0.1").toString(),
+      maxBridgeAmount: ethers.parseEther("1000").toString(),
+      feeBasisPoints: 40,
+      relayerThreshold: 1,
+      enabled: true,
+      ...overrides,
+    };
+  }
+
+  describe("Action builders", function () {
+    it("Should encode the same calldata as the contracts", async function () {
+      const { bridge, wrappedTON, relayer } = await loadFixture(deployFixture);
+      const bridgeAddress = await bridge.getAddress();
+      const config = {
+        minBridgeAmount: ethers.parseEther("1"),
+        maxBridgeAmount: ethers.parseEther("500"),
+        feeBasisPoints: 40n,
+        relayerThreshold: 1n,
+        enabled: true,
+      };
+
+      expect(updateConfigAction(bridgeAddress, config).calldata).to.equal(
+        bridge.interface.encodeFunctionData("updateConfig", [config])
+      );
+      const tokenConfig = {
+        minAmount: ethers.parseUnits("1", 6),
+        maxAmount: ethers.parseUnits("5000", 6),
+        feeBasisPoints: 10n,
+        decimals: 6n,
+        enabled: true,
+      };
+      expect(setTokenConfigAction(bridgeAddress, relayer.address, tokenConfig).calldata).to.equal(
+        bridge.interface.encodeFunctionData("setTokenConfig", [relayer.address, tokenConfig])
+      );
+      expect(setSupportedTokenAction(bridgeAddress, ethers.ZeroAddress, false).calldata).to.equal(
+        bridge.interface.encodeFunctionData("setSupportedToken", [ethers.ZeroAddress, false])
+      );
+      expect(grantRoleAction(bridgeAddress, "RELAYER_ROLE", relayer.address).calldata).to.equal(
+        bridge.interface.encodeFunctionData("grantRole", [await bridge.RELAYER_ROLE(), relayer.address])
+      );
+      expect(pauseAction(await wrappedTON.getAddress()).calldata).to.equal(
+        wrappedTON.interface.encodeFunctionData("pause")
+      );
+      expect(upgradeToAndCallAction(bridgeAddress, relayer.address).calldata).to.equal(
+        bridge.interface.encodeFunctionData("upgradeToAndCall", [relayer.address, "0x"])
+      );
+    });
+
+    it("Should resolve target aliases from the deployment record", async function () {
+      const { deployment, relayer } = await loadFixture(deployFixture);
+
+      const action = buildAction(
+        { type: "grantRole", target: "wrappedTON", role: "PAUSER_ROLE", account: relayer.address },
+        deployment
+      );
+      expect(action.target).to.equal(deployment.wrappedTONProxy);
+      expect(buildAction({ type: "pause" }, deployment).target).to.equal(deployment.polygonBridgeProxy);
+
+      const polConfig = buildAction(
+        { type: "setTokenConfig", token: "POL", config: {
+          minAmount: "1", maxAmount: "2", feeBasisPoints: 40, decimals: 18, enabled: true,
+        } },
+        deployment
+      );
+      expect(polConfig.target).to.equal(deployment.polygonBridgeProxy);
+      expect(polConfig.calldata).to.equal(setTokenConfigAction(deployment.polygonBridgeProxy, ethers.ZeroAddress, {
+        minAmount: 1n, maxAmount: 2n, feeBasisPoints: 40n, decimals: 18n, enabled: true,
+      }).calldata);
+
+      expect(() => buildAction({ type: "pause", target: "treasury" }, deployment))
+        .to.throw("Unknown target treasury");
+      expect(() => buildAction(
+        { type: "grantRole", role: "OWNER_ROLE", account: relayer.address }, deployment
+      )).to.throw("Unknown role OWNER_ROLE");
+    });
+
+    it("Should decode every action into readable lines", async function () {
+      const { bridge, deployment, relayer } = await loadFixture(deployFixture);
+      const bridgeAddress = await bridge.getAddress();
+      const reinit = bridge.interface.encodeFunctionData("setSupportedToken", [ethers.ZeroAddress, true]);
+
+      const proposal = buildProposal([
+        updateConfigAction(bridgeAddress, {
+          minBridgeAmount: ethers.parseEther("0.1"),
+          maxBridgeAmount: ethers.parseEther("1000"),
+          feeBasisPoints: 40n,
+          relayerThreshold: 1n,
+          enabled: true,
+        }),
+        grantRoleAction(deployment.wrappedTONProxy, "DEFAULT_ADMIN_ROLE", relayer.address),
+        upgradeToAndCallAction(bridgeAddress, relayer.address, reinit),
+        { target: bridgeAddress, value: 0n, calldata: "0xdeadbeef" },
+      ], "Mixed proposal");
+
+      const text = describeProposal(proposal, {
+        [bridgeAddress]: "PolygonBridge",
+        [deployment.wrappedTONProxy]: "WrappedTON",
+      }).join("\n");
+
+      expect(text).to.contain(`1. PolygonBridge (${bridgeAddress})`);
+      expect(text).to.contain("feeBasisPoints:  40 (0.4%)");
+      expect(text).to.contain("minBridgeAmount: 100000000000000000 (0.1 POL)");
+      expect(text).to.contain(`2. WrappedTON (${deployment.wrappedTONProxy})`);
+      expect(text).to.contain("role: DEFAULT_ADMIN_ROLE");
+      expect(text).to.contain("data: setSupportedToken(token: 0x0000000000000000000000000000000000000000, supported: true)");
+      expect(text).to.contain("unknown call 0xdeadbeef (4 bytes)");
+    });
+
+    it("Should build, decode and apply the example fee proposal", async function () {
+      const { deployment } = await loadFixture(deployFixture);
+      const spec = JSON.parse(
+        fs.readFileSync(path.join(hre.config.paths.root, "proposals", "example-fee.json"), "utf-8")
+      );
+      const proposal = buildProposalFromSpec(spec, deployment);
+
+      const text = describeProposal(proposal).join("\n");
+      expect(text).to.contain("setTokenConfig(");
+      expect(text).to.contain("token:          POL (native)");
+      expect(text).to.contain("minAmount:      100000000000000000 (0.1 POL)");
+      expect(text).to.contain("feeBasisPoints: 40 (0.4%)");
+
+      const result = await simulateProposal(hre, proposal, deployment, { smoke: "none" });
+      expect(result.actions.every((a) => a.ok)).to.be.true;
+      expect(result.diffs).to.deep.include({
+        section: "config", key: "feeBasisPoints", before: "30", after: "40",
+      });
+    });
+  });
+
+  describe("Tasks", function () {
+    it("Should take updateConfig from propose to execute", async function () {
+      const { bridge, dao, deployment, voter } = await loadFixture(deployFixture);
+      const file = writeProposal({
+        description: "Raise the bridge fee to 40 bps",
+        actions: [{ type: "updateConfig", target: deployment.polygonBridgeProxy, config: configSpec() }],
+      });
+      const args = { proposal: file, dao: deployment.bridgeDAOProxy };
+
+      const dryRun = await runTask("gov:propose", { ...args, dryRun: true });
+      expect(dryRun).to.contain("updateConfig(");
+      expect(dryRun).to.contain("feeBasisPoints:  40 (0.4%)");
+      expect(await runTask("gov:status", args)).to.contain("not proposed yet");
+
+      // Tasks sign with the first account; hand it the votes
+      const [owner] = await ethers.getSigners();
+      await (await ethers.getContractAt("BridgeGovernanceToken", deployment.governanceToken))
+        .connect(voter).delegate(owner.address);
+
+      expect(await runTask("gov:propose", args)).to.contain("Proposed in");
+      await mine((await dao.votingDelay()) + 1n);
+      expect(await runTask("gov:status", args)).to.contain("Active");
+
+      expect(await runTask("gov:vote", { ...args, support: "for", reason: "fees cover gas" }))
+        .to.contain("Voted for");
+      await mine(await dao.votingPeriod());
+      const succeeded = await runTask("gov:status", args);
+      expect(succeeded).to.contain("Succeeded");
+      expect(succeeded).to.match(/For:\s+1000\.0/);
+
+      expect(await runTask("gov:queue", args)).to.contain("Queued in");
+      expect(await runTask("gov:status", args)).to.contain("ETA:");
+      await time.increase(minDelay);
+      expect(await runTask("gov:execute", args)).to.contain("Executed in");
+
+      expect(await runTask("gov:status", args)).to.contain("Executed");
+      expect((await bridge.config()).feeBasisPoints).to.equal(40);
+    });
+
+    it("Should reject an unknown vote option", async function () {
+      const { deployment } = await loadFixture(deployFixture);
+      await expect(
+        hre.run("gov:vote", { proposal: "missing.json", dao: deployment.bridgeDAOProxy, support: "yes" })
+      ).to.be.rejectedWith("--support must be for, against or abstain");
+    });
+  });
+  describe("Simulation", function () {
+    it("Should diff config, roles and implementations and revert afterwards", async function () {
+      const { bridge, deployment, voter } = await loadFixture(deployFixture);
+      const bridgeAddress = await bridge.getAddress();
+      const oldImplementation = await upgrades.erc1967.getImplementationAddress(bridgeAddress);
+      const newImplementation = await (await ethers.getContractFactory("PolygonBridge")).deploy();
+
+      const proposal = buildProposal([
+        updateConfigAction(bridgeAddress, {
+          minBridgeAmount: ethers.parseEther("0.1"),
+          maxBridgeAmount: ethers.parseEther("1000"),
+          feeBasisPoints: 40n,
+          relayerThreshold: 1n,
+          enabled: true,
+        }),
+        grantRoleAction(deployment.wrappedTONProxy, "PAUSER_ROLE", voter.address),
+        upgradeToAndCallAction(bridgeAddress, await newImplementation.getAddress()),
+      ], "Fee, pauser and bridge upgrade");
+
+      const result = await simulateProposal(hre, proposal, deployment, { smoke: "roundtrip" });
+
+      expect(result.actions.every((a) => a.ok)).to.be.true;
+      expect(result.diffs).to.deep.include({
+        section: "config", key: "feeBasisPoints", before: "30", after: "40",
+      });
+      expect(result.diffs).to.deep.include({
+        section: "tokens", key: "POL.feeBasisPoints", before: "30", after: "40",
+      });
+      expect(result.diffs).to.deep.include({
+        section: "roles", key: `WrappedTON.PAUSER_ROLE(${voter.address})`, before: "false", after: "true",
+      });
+      expect(result.diffs).to.deep.include({
+        section: "implementations",
+        key: "PolygonBridge",
+        before: oldImplementation,
+        after: await newImplementation.getAddress(),
+      });
+      expect(result.smoke.map((step) => step.name)).to.deep.equal([
+        "bridgeToTON", "confirmTransfer", "confirmRelease",
+      ]);
+      expect(result.smoke.every((step) => step.ok)).to.be.true;
+
+      // Nothing sticks to the chain
+      expect((await bridge.config()).feeBasisPoints).to.equal(30);
+      expect(await upgrades.erc1967.getImplementationAddress(bridgeAddress)).to.equal(oldImplementation);
+    });
+
+    it("Should report reverting actions by error name", async function () {
+      const { bridge, deployment, voter } = await loadFixture(deployFixture);
+      const proposal = buildProposal([
+        setSupportedTokenAction(await bridge.getAddress(), voter.address, true),
+      ], "Enable an unconfigured token");
+
+      const result = await simulateProposal(hre, proposal, deployment, { smoke: "none" });
+      expect(result.actions[0]).to.deep.equal({
+        target: await bridge.getAddress(), ok: false, error: "TokenNotConfigured",
+      });
+      expect(result.diffs).to.deep.equal([]);
+      expect(result.smoke).to.deep.equal([]);
+    });
+
+    it("Should stop at the first reverting action and apply none of the batch", async function () {
+      const { bridge, deployment, voter } = await loadFixture(deployFixture);
+      const bridgeAddress = await bridge.getAddress();
+      const proposal = buildProposal([
+        updateConfigAction(bridgeAddress, {
+          minBridgeAmount: ethers.parseEther("0.1"),
+          maxBridgeAmount: ethers.parseEther("1000"),
+          feeBasisPoints: 40n,
+          relayerThreshold: 1n,
+          enabled: true,
+        }),
+        setSupportedTokenAction(bridgeAddress, voter.address, true),
+        pauseAction(bridgeAddress),
+      ], "Fee, bad token and pause");
+
+      const result = await simulateProposal(hre, proposal, deployment, { smoke: "roundtrip" });
+      expect(result.actions).to.deep.equal([
+        { target: bridgeAddress, ok: true },
+        { target: bridgeAddress, ok: false, error: "TokenNotConfigured" },
+        { target: bridgeAddress, ok: false, error: "not run, action 2 reverted" },
+      ]);
+      expect(result.diffs).to.deep.equal([]);
+      expect(result.smoke).to.deep.equal([]);
+      expect((await bridge.config()).feeBasisPoints).to.equal(30);
+      expect(await bridge.paused()).to.be.false;
+    });
+
+    it("Should print the diff and smoke test from gov:simulate", async function () {
+      const { deployment } = await loadFixture(deployFixture);
+      const file = writeProposal({
+        description: "Raise the bridge fee to 40 bps",
+        actions: [{ type: "updateConfig", target: deployment.polygonBridgeProxy, config: configSpec() }],
+      });
+
+      // The task reads addresses from the record; give it this fixture's
+      const output = await runSimulation(deployment, { proposal: file, smokeAmount: "2" });
+      expect(output).to.contain("feeBasisPoints:  40 (0.4%)");
+      expect(output).to.contain("[config] feeBasisPoints: 30 -> 40");
+      expect(output).to.contain("bridgeToTON: 2.0 POL sent, 1.992 net");
+      expect(output).to.contain("confirmRelease: 1.992 POL released back to the sender");
+    });
+
+    it("Should fail gov:simulate when the smoke test breaks", async function () {
+      const { deployment } = await loadFixture(deployFixture);
+      const file = writeProposal({
+        description: "Disable the bridge",
+        actions: [{
+          type: "updateConfig",
+          target: deployment.polygonBridgeProxy,
+          config: configSpec({ feeBasisPoints: 30, enabled: false }),
+        }],
+      });
+
+      await expect(runSimulation(deployment, { proposal: file }))
+        .to.be.rejectedWith("Simulation failed");
+    });
+
+    async function runSimulation(
+      deployment: Record<string, string>,
+      args: Record<string, unknown>
+    ) {
+      const { chainId } = await ethers.provider.getNetwork();
+      const record = path.join(hre.config.paths.root, "deployments", `${hre.network.name}-${chainId}.json`);
+      const saved = fs.existsSync(record) ? fs.readFileSync(record) : undefined;
+      fs.writeFileSync(record, JSON.stringify(deployment));
+      try {
+        return await runTask("gov:simulate", { smoke: "roundtrip", ...args });
+      } finally {
+        if (saved) fs.writeFileSync(record, saved);
+        else fs.unlinkSync(record);
+      }
+    }
+  });
+});
@@ -0,0 +1,271 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { createRequire } from "module";
+
+// The relayer is a CommonJS package; load it through require so ts-node
+// compiles it on the fly.
+const require = createRequire(import.meta.url);
+const { LogScanner } =
+  require("../relayer/src/logScanner") as typeof import("../relayer/src/logScanner");
+const { CheckpointStore } =
+  require("../relayer/src/checkpointStore") as typeof import("../relayer/src/checkpointStore");
+
+type Range = { from: number; to: number };
+
+const FILTER = { address: "0x0000000000000000000000000000000000000001", topics: [] };
+
+// getLogs stub that records every requested range. `respond` decides the
+// outcome: throw to reject, return a delay (ms) to resolve after it.
+function stubProvider(respond: (range: Range) => number | void) {
+  const requests: Range[] = [];
+  const provider = {
+    async getLogs(filter: { fromBlock: number; toBlock: number }) {
+      const range = { from: filter.fromBlock, to: filter.toBlock };
+      requests.push(range);
+      const delay = respond(range) ?? 0;
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      return [] as any[];
+    },
+  };
+  return { provider: provider as any, requests };
+}
+
+function span(range: Range): number {
+  return range.to - range.from + 1;
+}
+
+describe("Relayer log scanner", function () {
+  let log: typeof console.log;
+
+  beforeEach(function () {
+    // LogScanner reports every shrink on the console.
+    log = console.log;
+    console.log = () => {};
+  });
+
+  afterEach(function () {
+    console.log = log;
+  });
+
+  describe("Chunk sizing", function () {
+    it("Should halve the chunk on range errors down to the minimum", async function () {
+      const { provider, requests } = stubProvider((range) => {
+        if (span(range) > 10) throw new Error("block range too large");
+      });
+      const scanner = new LogScanner(provider, FILTER, {
+        chunkSize: 100,
+        minChunkSize: 10,
+        concurrency: 1,
+      });
+
+      const seen: Range[] = [];
+      await scanner.scan(0, 29, async (_logs, range) => {
+        seen.push(range);
+      });
+
+      expect(requests.slice(0, 5).map(span)).to.deep.equal([30, 15, 10, 10, 10]);
+      expect(scanner.currentChunkSize).to.equal(10);
+      expect(seen).to.deep.equal([
+        { from: 0, to: 9 },
+        { from: 10, to: 19 },
+        { from: 20, to: 29 },
+      ]);
+    });
+
+    it("Should give up once a minimum-size range is still rejected", async function () {
+      const { provider } = stubProvider(() => {
+        throw new Error("query returned more than 10000 results");
+      });
+      const scanner = new LogScanner(provider, FILTER, {
+        chunkSize: 40,
+        minChunkSize: 10,
+        concurrency: 1,
+      });
+
+      let error: Error | undefined;
+      await scanner.scan(0, 99, async () => {}).catch((err) => (error = err));
+
+      expect(error?.message).to.equal("eth_getLogs still rejected for 10-block range [0, 9]");
+      expect(scanner.currentChunkSize).to.equal(10);
+    });
+
+    it("Should grow the chunk back after a run of successes", async function () {
+      let rejected = false;
+      const { provider, requests } = stubProvider((range) => {
+        if (!rejected && span(range) > 50) {
+          rejected = true;
+          throw new Error("block range too large");
+        }
+      });
+      const scanner = new LogScanner(provider, FILTER, {
+        chunkSize: 100,
+        minChunkSize: 10,
+        concurrency: 1,
+      });
+
+      await scanner.scan(0, 799, async () => {});
+
+      // One rejected 100-block request, eight 50-block chunks, then back to 100.
+      expect(requests.map(span)).to.deep.equal([100, 50, 50, 50, 50, 50, 50, 50, 50, 100, 100, 100, 100]);
+      expect(scanner.currentChunkSize).to.equal(100);
+    });
+
+    it("Should never grow past the configured chunk size", async function () {
+      const { provider, requests } = stubProvider(() => {});
+      const scanner = new LogScanner(provider, FILTER, {
+        chunkSize: 10,
+        minChunkSize: 5,
+        concurrency: 1,
+      });
+
+      await scanner.scan(0, 199, async () => {});
+
+      expect(requests.every((range) => span(range) === 10)).to.equal(true);
+      expect(scanner.currentChunkSize).to.equal(10);
+    });
+  });
+
+  describe("Rate limits", function () {
+    it("Should retry a rate-limited range without shrinking the chunk", async function () {
+      let throttled = 2;
+      const { provider, requests } = stubProvider(() => {
+        if (throttled-- > 0) throw new Error("rate limit exceeded");
+      });
+      const scanner = new LogScanner(provider, FILTER, {
+        chunkSize: 50,
+        minChunkSize: 10,
+        concurrency: 1,
+        rateLimitBackoffMs: 1,
+      });
+
+      const seen: Range[] = [];
+      await scanner.scan(0, 99, async (_logs, range) => {
+        seen.push(range);
+      });
+
+      expect(requests.map(span)).to.deep.equal([50, 50, 50, 50]);
+      expect(scanner.currentChunkSize).to.equal(50);
+      expect(seen).to.deep.equal([
+        { from: 0, to: 49 },
+        { from: 50, to: 99 },
+      ]);
+    });
+
+    it("Should give up once the rate limit outlasts the retries", async function () {
+      const { provider, requests } = stubProvider(() => {
+        throw new Error("429 Too Many Requests: limit exceeded");
+      });
+      const scanner = new LogScanner(provider, FILTER, {
+        chunkSize: 50,
+        minChunkSize: 10,
+        concurrency: 1,
+        rateLimitRetries: 2,
+        rateLimitBackoffMs: 1,
+      });
+
+      let error: Error | undefined;
+      await scanner.scan(0, 99, async () => {}).catch((err) => (error = err));
+
+      expect(error?.message).to.equal("429 Too Many Requests: limit exceeded");
+      expect(requests.map(span)).to.deep.equal([50, 50, 50]);
+      expect(scanner.currentChunkSize).to.equal(50);
+    });
+  });
+
+  describe("Ordering and checkpoints", function () {
+    it("Should hand chunks to the callback in block order with concurrency > 1", async function () {
+      // Later chunks resolve first.
+      const { provider, requests } = stubProvider((range) => 30 - range.from / 10);
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const counting = {
+        async getLogs(filter: any) {
+          inFlight++;
+          maxInFlight = Math.max(maxInFlight, inFlight);
+          try {
+            return await provider.getLogs(filter);
+          } finally {
+            inFlight--;
+          }
+        },
+      };
+      const scanner = new LogScanner(counting as any, FILTER, {
+        chunkSize: 10,
+        minChunkSize: 1,
+        concurrency: 3,
+      });
+
+      const seen: number[] = [];
+      await scanner.scan(0, 59, async (_logs, range) => {
+        seen.push(range.from);
+      });
+
+      expect(seen).to.deep.equal([0, 10, 20, 30, 40, 50]);
+      expect(maxInFlight).to.equal(3);
+      expect(requests).to.have.length(6);
+    });
+
+    it("Should refetch chunks planned after a rejected one", async function () {
+      let rejected = false;
+      const { provider, requests } = stubProvider((range) => {
+        if (!rejected && range.from === 10) {
+          rejected = true;
+          throw new Error("block range too large");
+        }
+      });
+      const scanner = new LogScanner(provider, FILTER, {
+        chunkSize: 10,
+        minChunkSize: 1,
+        concurrency: 3,
+      });
+
+      const seen: Range[] = [];
+      await scanner.scan(0, 29, async (_logs, range) => {
+        seen.push(range);
+      });
+
+      // [20, 29] was fetched alongside the rejected chunk but only handed
+      // over after [10, 19] was fetched again in halves.
+      expect(seen).to.deep.equal([
+        { from: 0, to: 9 },
+        { from: 10, to: 14 },
+        { from: 15, to: 19 },
+        { from: 20, to: 24 },
+        { from: 25, to: 29 },
+      ]);
+      expect(requests.filter((range) => range.from === 20)).to.have.length(2);
+    });
+
+    it("Should not advance the checkpoint past a failed chunk", async function () {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), "relayer-scan-"));
+      try {
+        const { store } = await CheckpointStore.open(path.join(dir, "state.json"), async () => -1);
+        const { provider } = stubProvider((range) => {
+          if (range.from === 20) throw new Error("connection reset");
+        });
+        const scanner = new LogScanner(provider, FILTER, {
+          chunkSize: 10,
+          minChunkSize: 1,
+          concurrency: 3,
+        });
+
+        let error: Error | undefined;
+        await scanner
+          .scan(0, 49, async (_logs, range) => {
+            store.setLastProcessedBlock(range.to);
+          })
+          .catch((err) => (error = err));
+
+        expect(error?.message).to.equal("connection reset");
+        expect(store.lastProcessedBlock).to.equal(19);
+
+        const { store: reopened } = await CheckpointStore.open(path.join(dir, "state.json"), async () => 0);
+        expect(reopened.lastProcessedBlock).to.equal(19);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+});
@@ -0,0 +1,259 @@
+import { expect } from "chai";
+import hre from "hardhat";
+const { ethers, upgrades } = hre;
+import { PolygonBridge, WrappedTON } from "../typechain-types";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { createRequire } from "module";
+
+// The relayer is a CommonJS package; load it through require so ts-node
+// compiles it on the fly.
+const require = createRequire(import.meta.url);
+const { processTransfer, flushConfirmations } =
+  require("../relayer/src/payouts") as typeof import("../relayer/src/payouts");
+const { processBurn, recordBurnLog } =
+  require("../relayer/src/burns") as typeof import("../relayer/src/burns");
+const { CheckpointStore } =
+  require("../relayer/src/checkpointStore") as typeof import("../relayer/src/checkpointStore");
+const { installFakeTon, payoutTo, tonAddress } =
+  require("./helpers/fakeTon") as typeof import("./helpers/fakeTon");
+
+// Drives transfers and burns through the relayer's payout ledger against the
+// in-process hardhat node, with the TON side stubbed (see helpers/fakeTon.ts).
+describe("Relayer payouts", function () {
+  const recipient = tonAddress(1);
+  let ton: ReturnType<typeof installFakeTon>;
+  let dir: string;
+  let log: typeof console.log;
+
+  beforeEach(function () {
+    // The payout path reports every step on the console.
+    log = console.log;
+    console.log = () => {};
+    ton = installFakeTon();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "relayer-payouts-"));
+  });
+
+  afterEach(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+    ton.restore();
+    console.log = log;
+  });
+
+  async function deployFixture() {
+    const [owner, user] = await ethers.getSigners();
+
+    // The owner mints wTON directly, standing in for the bridge.
+    const wrappedTON = await upgrades.deployProxy(
+      await ethers.getContractFactory("WrappedTON"),
+      [owner.address, owner.address],
+      { initializer: "initialize" }
+    ) as unknown as WrappedTON;
+    const bridge = await upgrades.deployProxy(
+      await ethers.getContractFactory("PolygonBridge"),
+      [owner.address, await wrappedTON.getAddress(), {
+        minBridgeAmount: ethers.parseEther("0.1"),
+        maxBridgeAmount: ethers.parseEther("1000"),
+        feeBasisPoints: 30,
+        relayerThreshold: 1,
+        enabled: true
+      }, [owner.address]],
+      { initializer: "initialize" }
+    ) as unknown as PolygonBridge;
+
+    return { bridge, wrappedTON, owner, user };
+  }
+
+  async function openStore(relayer: string) {
+    const { store } = await CheckpointStore.open(path.join(dir, "state.json"), async () => 0);
+    store.seedRelayerSet(0, [relayer]);
+    return store;
+  }
+
+  async function setup() {
+    const fixture = await loadFixture(deployFixture);
+    const store = await openStore(fixture.owner.address);
+    const scanHead = { confirmations: 0, blockTag: "latest" as const };
+    const ctx = {
+      bridge: fixture.bridge as any,
+      provider: ethers.provider,
+      store,
+      relayerAddress: fixture.owner.address,
+      scanHead,
+      reorgLookback: 100,
+      relayerTonWallets: {},
+      rates: { [ethers.ZeroAddress]: ethers.parseEther("1") },
+    };
+    const burnCtx = {
+      wrappedTON: fixture.wrappedTON as any,
+      relayerAddress: fixture.owner.address,
+      provider: ethers.provider,
+      store,
+      scanHead,
+    };
+    return { ...fixture, store, ctx, burnCtx };
+  }
+
+  async function detectTransfer(
+    { bridge, user, store }: Awaited<ReturnType<typeof setup>>,
+    amount = ethers.parseEther("1")
+  ) {
+    const tx = await bridge.connect(user).bridgeToTON(recipient, ethers.ZeroAddress, amount, { value: amount });
+    const receipt = await tx.wait();
+    const transferId = receipt!.logs
+      .map((l) => bridge.interface.parseLog(l))
+      .find((parsed) => parsed?.name === "BridgeInitiated")!.args.transferId as string;
+    store.recordDetected(transferId, {
+      blockNumber: receipt!.blockNumber,
+      blockHash: receipt!.blockHash,
+      txHash: receipt!.hash,
+    });
+    return transferId;
+  }
+
+  describe("Transfers", function () {
+    it("Should pay a detected transfer on TON and confirm it on Polygon", async function () {
+      const env = await setup();
+      const transferId = await detectTransfer(env);
+
+      await processTransfer(env.ctx, transferId);
+
+      // 1 POL less the 0.3% fee, at 1 TON per POL.
+      expect(ton.sent.map((p) => p.coins)).to.deep.equal([997_000_000n]);
+      const record = env.store.getTransfer(transferId)!;
+      expect(record.status).to.equal("polygon_confirmed");
+      expect(record.attempts).to.equal(1);
+      expect(record.tonTxId).to.equal(ton.transactions[0].hash().toString("hex"));
+
+      const t = await env.bridge.getTransfer(transferId);
+      expect(t.completed).to.be.true;
+      expect(t.tonTxHash).to.equal("0x" + record.tonTxId);
+    });
+
+    it("Should keep a sent payout pending while its message may still land", async function () {
+      const env = await setup();
+      const transferId = await detectTransfer(env);
+      env.store.transition(transferId, "payout_sent", {
+        attempts: 1,
+        payoutSeqno: 0,
+        payoutValidUntil: Math.floor(Date.now() / 1000) + 60,
+      });
+
+      await processTransfer(env.ctx, transferId);
+
+      expect(env.store.getTransfer(transferId)!.status).to.equal("payout_sent");
+      expect(ton.sent).to.be.empty;
+    });
+
+    it("Should resend a payout whose message expired unprocessed", async function () {
+      const env = await setup();
+      const transferId = await detectTransfer(env);
+      env.store.transition(transferId, "payout_sent", {
+        attempts: 1,
+        payoutSeqno: 0,
+        payoutValidUntil: Math.floor(Date.now() / 1000) - 120,
+      });
+      // Hold the resend so the ledger stops right after going back to detected.
+      await env.bridge.pause();
+
+      await processTransfer(env.ctx, transferId);
+
+      const held = env.store.getTransfer(transferId)!;
+      expect(held.status).to.equal("detected");
+      expect(held.payoutSeqno).to.be.undefined;
+      expect(held.lastError).to.equal("Bridge paused");
+      expect(ton.sent).to.be.empty;
+
+      await env.bridge.unpause();
+      await processTransfer(env.ctx, transferId);
+
+      const paid = env.store.getTransfer(transferId)!;
+      expect(paid.status).to.equal("polygon_confirmed");
+      expect(paid.attempts).to.equal(2);
+      expect(ton.sent.map((p) => p.seqno)).to.deep.equal([0]);
+    });
+
+    it("Should age batched confirmations from when they were queued", async function () {
+      const env = await setup();
+      const ctx = { ...env.ctx, confirmBatch: { maxSize: 10, maxAgeMs: 50 } };
+      const transferId = await detectTransfer(env);
+
+      await processTransfer(ctx, transferId);
+      expect(env.store.getTransfer(transferId)!.status).to.equal("payout_confirmed");
+
+      await new Promise((resolve) => setTimeout(resolve, 60));
+      // A failed attempt touches the record but does not restart its wait.
+      env.store.updateTransfer(transferId, { lastError: "RPC timeout" });
+      await flushConfirmations(ctx);
+
+      expect(env.store.getTransfer(transferId)!.status).to.equal("polygon_confirmed");
+      expect((await env.bridge.getTransfer(transferId)).completed).to.be.true;
+    });
+
+    it("Should record a payout the recipient bounced for review", async function () {
+      const env = await setup();
+      const transferId = await detectTransfer(env);
+      ton.recipientBounces = true;
+      ton.onSend = (payout) => ton.process({ ...payout, bounce: true });
+
+      await processTransfer(env.ctx, transferId);
+
+      expect(env.store.getTransfer(transferId)!.status).to.equal("payout_bounced");
+      expect((await env.bridge.getTransfer(transferId)).completed).to.be.false;
+    });
+  });
+
+  describe("Burns", function () {
+    async function burn(env: Awaited<ReturnType<typeof setup>>, amount: bigint, tonRecipient = recipient) {
+      await env.wrappedTON.mint(env.user.address, amount, ethers.id(`deposit-${tonRecipient}-${amount}`));
+      const receipt = await (await env.wrappedTON.connect(env.user).burnForBridge(amount, tonRecipient)).wait();
+      const burnLog = receipt!.logs.find(
+        (l) => env.wrappedTON.interface.parseLog(l)?.name === "TokensBurned"
+      )!;
+      return recordBurnLog(env.burnCtx, burnLog as any)!;
+    }
+
+    it("Should pay a wTON burn out 1:1 in TON", async function () {
+      const env = await setup();
+      const record = await burn(env, 1_500_000_000n);
+
+      await processBurn(env.burnCtx, record.burnId);
+
+      expect(ton.sent.map((p) => p.coins)).to.deep.equal([1_500_000_000n]);
+      const paid = env.store.getBurn(record.burnId)!;
+      expect(paid.status).to.equal("paid");
+      expect(paid.tonTxId).to.equal(ton.transactions[0].hash().toString("hex"));
+    });
+
+    it("Should settle a sent burn payout from the wallet history", async function () {
+      const env = await setup();
+      const record = await burn(env, 2_000_000_000n);
+      env.store.transitionBurn(record.burnId, "payout_sent", {
+        attempts: 1,
+        payoutSeqno: 0,
+        payoutValidUntil: Math.floor(Date.now() / 1000) + 60,
+      });
+      // The message went out before the restart and has landed since.
+      const tx = ton.process(payoutTo(recipient, 2_000_000_000n));
+
+      await processBurn(env.burnCtx, record.burnId);
+
+      const paid = env.store.getBurn(record.burnId)!;
+      expect(paid.status).to.equal("paid");
+      expect(paid.tonTxId).to.equal(tx.hash().toString("hex"));
+      expect(ton.sent).to.be.empty;
+    });
+
+    it("Should not pay a burn to an invalid TON address", async function () {
+      const env = await setup();
+      const record = await burn(env, 1_000_000_000n, "not-a-ton-address");
+
+      await processBurn(env.burnCtx, record.burnId);
+
+      expect(env.store.getBurn(record.burnId)!.status).to.equal("invalid");
+      expect(ton.sent).to.be.empty;
+    });
+  });
+});
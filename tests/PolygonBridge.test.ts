@@ -2,9 +2,26 @@ import { expect } from "chai";
 import hre from "hardhat";
 const { ethers, upgrades } = hre;
 import { PolygonBridge, WrappedTON } from "../typechain-types";
-import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs.js";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { createRequire } from "module";
+
+// Load the TypeScript helper through require so ts-node compiles it on the fly.
+const require = createRequire(import.meta.url);
+const { signPermit } =
+  require("../scripts/helpers/permit") as typeof import("../scripts/helpers/permit");
+const { buildBridgeIntent, signBridgeIntent } =
+  require("../scripts/helpers/intent") as typeof import("../scripts/helpers/intent");
+const { signTransferAttestation, collectSignatures } =
+  require("../relayer/src/attestations") as typeof import("../relayer/src/attestations");
+const { initializedVersion, upgradeBridge } =
+  require("../scripts/helpers/upgrade") as typeof import("../scripts/helpers/upgrade");
 
 describe("PolygonBridge", function () {
+  // TON payout the relayers attest to when confirming a transfer
+  const tonTxHash = ethers.id("ton-payout");
+  const tonLt = 47000000000001n;
+
   async function deployBridgeFixture() {
     const [owner, relayer, user] = await ethers.getSigners();
 
@@ -29,7 +46,7 @@ describe("PolygonBridge", function () {
 
     const bridge = await upgrades.deployProxy(
       PolygonBridgeFactory,
-      [owner.address, owner.address, config],
+      [owner.address, owner.address, config, [relayer.address]],
       { initializer: "initialize" }
     ) as unknown as PolygonBridge;
     await bridge.waitForDeployment();
@@ -37,10 +54,6 @@ describe("PolygonBridge", function () {
     // Update wrappedTON to use actual bridge
     await wrappedTON.updateBridge(await bridge.getAddress());
 
-    // Grant relayer role
-    const RELAYER_ROLE = await bridge.RELAYER_ROLE();
-    await bridge.grantRole(RELAYER_ROLE, relayer.address);
-
     return { bridge, wrappedTON, owner, relayer, user };
   }
 
@@ -63,6 +76,33 @@ describe("PolygonBridge", function () {
       const { bridge } = await loadFixture(deployBridgeFixture);
       expect(await bridge.supportedTokens(ethers.ZeroAddress)).to.be.true;
     });
+
+    it("Should enroll the initial relayers and bound the threshold by them", async function () {
+      const { bridge, owner, relayer, user } = await loadFixture(deployBridgeFixture);
+      expect(await bridge.getRelayers()).to.deep.equal([relayer.address]);
+
+      const PolygonBridgeFactory = await ethers.getContractFactory("PolygonBridge");
+      const config = {
+        minBridgeAmount: ethers.parseEther("0.1"),
+        maxBridgeAmount: ethers.parseEther("1000"),
+        feeBasisPoints: 30,
+        relayerThreshold: 2,
+        enabled: true
+      };
+      const deploy = (threshold: number, relayers: string[]) =>
+        upgrades.deployProxy(
+          PolygonBridgeFactory,
+          [owner.address, owner.address, { ...config, relayerThreshold: threshold }, relayers],
+          { initializer: "initialize" }
+        );
+
+      await expect(deploy(0, [relayer.address]))
+        .to.be.revertedWithCustomError(bridge, "InvalidThreshold");
+      await expect(deploy(2, [relayer.address]))
+        .to.be.revertedWithCustomError(bridge, "InvalidThreshold");
+      const twoOfTwo = await deploy(2, [relayer.address, user.address]);
+      expect((await twoOfTwo.getFunction("config")()).relayerThreshold).to.equal(2);
+    });
   });
 
   describe("Bridging", function () {
@@ -179,12 +219,1307 @@ describe("PolygonBridge", function () {
         const transferId = parsed?.args[0];
 
         await expect(
-          bridge.connect(relayer).confirmTransfer(transferId)
+          bridge.connect(relayer).confirmTransfer(transferId, tonTxHash, tonLt)
         ).to.emit(bridge, "BridgeConfirmed");
 
         const transfer = await bridge.getTransfer(transferId);
         expect(transfer.confirmations).to.equal(1);
       }
     });
+
+    async function twoRelayerFixture() {
+      const fixture = await deployBridgeFixture();
+      const [, , , relayer2] = await ethers.getSigners();
+      await fixture.bridge.grantRole(await fixture.bridge.RELAYER_ROLE(), relayer2.address);
+      await fixture.bridge.updateConfig({
+        minBridgeAmount: ethers.parseEther("0.1"),
+        maxBridgeAmount: ethers.parseEther("1000"),
+        feeBasisPoints: 30,
+        relayerThreshold: 2,
+        enabled: true
+      });
+
+      const amount = ethers.parseEther("1");
+      const tx = await fixture.bridge.connect(fixture.user).bridgeToTON(
+        "EQD4test",
+        ethers.ZeroAddress,
+        amount,
+        { value: amount }
+      );
+      const receipt = await tx.wait();
+      let transferId = "";
+      for (const log of receipt!.logs) {
+        const parsed = fixture.bridge.interface.parseLog(log);
+        if (parsed?.name === "BridgeInitiated") transferId = parsed.args[0];
+      }
+      return { ...fixture, relayer2, transferId };
+    }
+
+    it("Should record the TON payout with the confirmations", async function () {
+      const { bridge, relayer, relayer2, transferId } = await loadFixture(twoRelayerFixture);
+
+      await expect(bridge.connect(relayer).confirmTransfer(transferId, tonTxHash, tonLt))
+        .to.emit(bridge, "BridgeConfirmed")
+        .withArgs(transferId, relayer.address, tonTxHash, tonLt);
+      await expect(bridge.connect(relayer2).confirmTransfer(transferId, tonTxHash, tonLt))
+        .to.emit(bridge, "BridgeCompleted")
+        .withArgs(transferId, tonTxHash, tonLt);
+
+      const transfer = await bridge.getTransfer(transferId);
+      expect(transfer.tonTxHash).to.equal(tonTxHash);
+      expect(transfer.tonLt).to.equal(tonLt);
+      expect(transfer.completed).to.be.true;
+    });
+
+    it("Should require relayers to agree on the TON payout", async function () {
+      const { bridge, relayer, relayer2, transferId } = await loadFixture(twoRelayerFixture);
+      await bridge.connect(relayer).confirmTransfer(transferId, tonTxHash, tonLt);
+
+      await expect(
+        bridge.connect(relayer2).confirmTransfer(transferId, ethers.id("other-payout"), tonLt)
+      ).to.be.revertedWithCustomError(bridge, "PayoutMismatch");
+      await expect(
+        bridge.connect(relayer2).confirmTransfer(transferId, tonTxHash, tonLt + 1n)
+      ).to.be.revertedWithCustomError(bridge, "PayoutMismatch");
+    });
+
+    it("Should reject confirmations without a TON transaction hash", async function () {
+      const { bridge, relayer, transferId } = await loadFixture(twoRelayerFixture);
+
+      await expect(
+        bridge.connect(relayer).confirmTransfer(transferId, ethers.ZeroHash, tonLt)
+      ).to.be.revertedWithCustomError(bridge, "InvalidTonPayout");
+    });
+
+    describe("Batch confirmation", function () {
+      async function batchFixture() {
+        const fixture = await deployBridgeFixture();
+        const transferIds: string[] = [];
+        for (let i = 0; i < 3; i++) {
+          const amount = ethers.parseEther("1");
+          const tx = await fixture.bridge.connect(fixture.user).bridgeToTON(
+            "EQD4test",
+            ethers.ZeroAddress,
+            amount,
+            { value: amount }
+          );
+          const receipt = await tx.wait();
+          for (const log of receipt!.logs) {
+            const parsed = fixture.bridge.interface.parseLog(log);
+            if (parsed?.name === "BridgeInitiated") transferIds.push(parsed.args[0]);
+          }
+        }
+        const batch = transferIds.map((transferId, i) => ({
+          transferId,
+          tonTxHash: ethers.id(`ton-payout-${i}`),
+          tonLt: tonLt + BigInt(i)
+        }));
+        return { ...fixture, transferIds, batch };
+      }
+
+      it("Should confirm every transfer in the batch", async function () {
+        const { bridge, relayer, batch } = await loadFixture(batchFixture);
+
+        const tx = bridge.connect(relayer).confirmTransfers(batch);
+        for (const c of batch) {
+          await expect(tx)
+            .to.emit(bridge, "BridgeCompleted")
+            .withArgs(c.transferId, c.tonTxHash, c.tonLt);
+        }
+        expect(await bridge.connect(relayer).confirmTransfers.staticCall(batch)).to.equal(0);
+      });
+
+      it("Should skip completed transfers instead of reverting", async function () {
+        const { bridge, relayer, batch } = await loadFixture(batchFixture);
+        await bridge.connect(relayer).confirmTransfer(batch[1].transferId, batch[1].tonTxHash, batch[1].tonLt);
+
+        expect(await bridge.connect(relayer).confirmTransfers.staticCall(batch)).to.equal(2);
+        await expect(bridge.connect(relayer).confirmTransfers(batch))
+          .to.emit(bridge, "BridgeCompleted").withArgs(batch[2].transferId, batch[2].tonTxHash, batch[2].tonLt);
+        expect((await bridge.getTransfer(batch[0].transferId)).completed).to.be.true;
+      });
+
+      it("Should stop the batch when the circuit breaker trips", async function () {
+        const { bridge, relayer, batch } = await loadFixture(batchFixture);
+        await bridge.setVolumeCaps(ethers.ZeroAddress, ethers.parseEther("1.5"), 0);
+
+        await expect(bridge.connect(relayer).confirmTransfers(batch))
+          .to.emit(bridge, "CircuitBreakerTripped");
+        expect((await bridge.getTransfer(batch[0].transferId)).completed).to.be.true;
+        expect((await bridge.getTransfer(batch[1].transferId)).completed).to.be.false;
+        expect((await bridge.getTransfer(batch[2].transferId)).completed).to.be.false;
+        expect(await bridge.paused()).to.be.true;
+      });
+
+      it("Should only allow relayers to confirm batches", async function () {
+        const { bridge, user, batch } = await loadFixture(batchFixture);
+        await expect(bridge.connect(user).confirmTransfers(batch))
+          .to.be.revertedWithCustomError(bridge, "AccessControlUnauthorizedAccount");
+      });
+    });
+
+    describe("Signed attestations", function () {
+      async function attest(bridge: PolygonBridge, signers: any[], transferId: string) {
+        const payout = { transferId, tonTxHash, tonLt: tonLt.toString(), payoutWallet: "" };
+        const attestations = [];
+        for (const signer of signers) {
+          attestations.push(await signTransferAttestation(signer, bridge as any, payout));
+        }
+        return collectSignatures(bridge as any, attestations, payout);
+      }
+
+      it("Should complete a transfer from one bundle of relayer signatures", async function () {
+        const { bridge, relayer, relayer2, user, transferId } = await loadFixture(twoRelayerFixture);
+        const signatures = await attest(bridge, [relayer, relayer2], transferId);
+
+        // Anyone may submit the bundle
+        await expect(
+          bridge.connect(user).confirmTransferWithSignatures(transferId, tonTxHash, tonLt, signatures)
+        )
+          .to.emit(bridge, "BridgeConfirmed").withArgs(transferId, relayer.address, tonTxHash, tonLt)
+          .and.to.emit(bridge, "BridgeConfirmed").withArgs(transferId, relayer2.address, tonTxHash, tonLt)
+          .and.to.emit(bridge, "BridgeCompleted").withArgs(transferId, tonTxHash, tonLt);
+
+        const transfer = await bridge.getTransfer(transferId);
+        expect(transfer.confirmations).to.equal(2);
+        expect(transfer.completed).to.be.true;
+      });
+
+      it("Should count relayers that already confirmed on-chain", async function () {
+        const { bridge, relayer, relayer2, transferId } = await loadFixture(twoRelayerFixture);
+        await bridge.connect(relayer).confirmTransfer(transferId, tonTxHash, tonLt);
+
+        const signatures = await attest(bridge, [relayer2], transferId);
+        await expect(
+          bridge.confirmTransferWithSignatures(transferId, tonTxHash, tonLt, signatures)
+        ).to.emit(bridge, "BridgeCompleted");
+      });
+
+      it("Should require the threshold of distinct relayer signatures", async function () {
+        const { bridge, relayer, relayer2, user, transferId } = await loadFixture(twoRelayerFixture);
+        const [single] = await attest(bridge, [relayer], transferId);
+
+        await expect(
+          bridge.confirmTransferWithSignatures(transferId, tonTxHash, tonLt, [single])
+        ).to.be.revertedWithCustomError(bridge, "InsufficientSignatures");
+        await expect(
+          bridge.confirmTransferWithSignatures(transferId, tonTxHash, tonLt, [single, single])
+        ).to.be.revertedWithCustomError(bridge, "InvalidSignerOrder");
+
+        const sorted = await attest(bridge, [relayer, relayer2], transferId);
+        await expect(
+          bridge.confirmTransferWithSignatures(transferId, tonTxHash, tonLt, [...sorted].reverse())
+        ).to.be.revertedWithCustomError(bridge, "InvalidSignerOrder");
+
+        // collectSignatures drops non-relayers, so sign the outsider directly
+        const payout = { transferId, tonTxHash, tonLt: tonLt.toString(), payoutWallet: "" };
+        const outsider = await signTransferAttestation(user, bridge as any, payout);
+        const bundle = [
+          { signer: relayer.address, signature: single },
+          { signer: outsider.signer, signature: outsider.signature }
+        ].sort((a, b) => (BigInt(a.signer) < BigInt(b.signer) ? -1 : 1));
+        await expect(
+          bridge.confirmTransferWithSignatures(
+            transferId,
+            tonTxHash,
+            tonLt,
+            bundle.map((entry) => entry.signature)
+          )
+        ).to.be.revertedWithCustomError(bridge, "InvalidSignature");
+      });
+
+      it("Should reject signatures over a different payout", async function () {
+        const { bridge, relayer, relayer2, transferId } = await loadFixture(twoRelayerFixture);
+        const signatures = await attest(bridge, [relayer, relayer2], transferId);
+
+        await expect(
+          bridge.confirmTransferWithSignatures(transferId, ethers.id("other-payout"), tonLt, signatures)
+        ).to.be.reverted;
+      });
+    });
+  });
+
+  describe("Relayer set", function () {
+    const baseConfig = {
+      minBridgeAmount: ethers.parseEther("0.1"),
+      maxBridgeAmount: ethers.parseEther("1000"),
+      feeBasisPoints: 30,
+      relayerThreshold: 1,
+      enabled: true
+    };
+
+    it("Should track relayers added through grantRole and addRelayer", async function () {
+      const { bridge, relayer } = await loadFixture(deployBridgeFixture);
+      const [, , , relayer2] = await ethers.getSigners();
+
+      await expect(bridge.addRelayer(relayer2.address))
+        .to.emit(bridge, "RelayerAdded").withArgs(relayer2.address);
+      expect(await bridge.getRelayers()).to.deep.equal([relayer.address, relayer2.address]);
+      expect(await bridge.relayerCount()).to.equal(2);
+      expect(await bridge.hasRole(await bridge.RELAYER_ROLE(), relayer2.address)).to.be.true;
+
+      await expect(bridge.addRelayer(relayer2.address))
+        .to.be.revertedWithCustomError(bridge, "RelayerExists");
+    });
+
+    it("Should keep the threshold between one and the relayer count", async function () {
+      const { bridge } = await loadFixture(deployBridgeFixture);
+
+      await expect(bridge.updateConfig({ ...baseConfig, relayerThreshold: 2 }))
+        .to.be.revertedWithCustomError(bridge, "InvalidThreshold");
+      await expect(bridge.updateConfig({ ...baseConfig, relayerThreshold: 0 }))
+        .to.be.revertedWithCustomError(bridge, "InvalidThreshold");
+      await expect(bridge.updateConfig(baseConfig)).to.emit(bridge, "ConfigUpdated");
+    });
+
+    it("Should not remove relayers below the threshold", async function () {
+      const { bridge, relayer } = await loadFixture(deployBridgeFixture);
+      const [, , , relayer2] = await ethers.getSigners();
+      await bridge.addRelayer(relayer2.address);
+      await bridge.updateConfig({ ...baseConfig, relayerThreshold: 2 });
+
+      await expect(bridge.removeRelayer(relayer.address))
+        .to.be.revertedWithCustomError(bridge, "InvalidThreshold");
+      await expect(bridge.revokeRole(await bridge.RELAYER_ROLE(), relayer.address))
+        .to.be.revertedWithCustomError(bridge, "InvalidThreshold");
+      await expect(
+        bridge.connect(relayer).renounceRole(await bridge.RELAYER_ROLE(), relayer.address)
+      ).to.be.revertedWithCustomError(bridge, "InvalidThreshold");
+
+      await bridge.updateConfig(baseConfig);
+      await expect(bridge.removeRelayer(relayer.address))
+        .to.emit(bridge, "RelayerRemoved").withArgs(relayer.address);
+      expect(await bridge.getRelayers()).to.deep.equal([relayer2.address]);
+      expect(await bridge.hasRole(await bridge.RELAYER_ROLE(), relayer.address)).to.be.false;
+    });
+
+    it("Should rotate a relayer without changing the count", async function () {
+      const { bridge, relayer } = await loadFixture(deployBridgeFixture);
+      const [, , , replacement] = await ethers.getSigners();
+
+      await expect(bridge.rotateRelayer(relayer.address, replacement.address))
+        .to.emit(bridge, "RelayerAdded").withArgs(replacement.address)
+        .and.to.emit(bridge, "RelayerRemoved").withArgs(relayer.address);
+      expect(await bridge.getRelayers()).to.deep.equal([replacement.address]);
+
+      await expect(bridge.rotateRelayer(relayer.address, replacement.address))
+        .to.be.revertedWithCustomError(bridge, "RelayerNotFound");
+    });
+
+    it("Should only let the admin manage relayers", async function () {
+      const { bridge, user } = await loadFixture(deployBridgeFixture);
+      await expect(bridge.connect(user).addRelayer(user.address))
+        .to.be.revertedWithCustomError(bridge, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Config validation", function () {
+    const validConfig = {
+      minBridgeAmount: ethers.parseEther("0.1"),
+      maxBridgeAmount: ethers.parseEther("1000"),
+      feeBasisPoints: 30,
+      relayerThreshold: 1,
+      enabled: true
+    };
+
+    it("Should emit ConfigUpdated for an accepted config", async function () {
+      const { bridge } = await loadFixture(deployBridgeFixture);
+      const newConfig = { ...validConfig, feeBasisPoints: 80, maxBridgeAmount: ethers.parseEther("500") };
+
+      await expect(bridge.updateConfig(newConfig))
+        .to.emit(bridge, "ConfigUpdated")
+        .withArgs([newConfig.minBridgeAmount, newConfig.maxBridgeAmount, 80, 1, true]);
+      expect((await bridge.config()).feeBasisPoints).to.equal(80);
+    });
+
+    it("Should reject a minimum above the maximum", async function () {
+      const { bridge } = await loadFixture(deployBridgeFixture);
+      await expect(
+        bridge.updateConfig({ ...validConfig, minBridgeAmount: ethers.parseEther("1001") })
+      ).to.be.revertedWithCustomError(bridge, "InvalidAmountRange");
+    });
+
+    it("Should reject fees above the cap", async function () {
+      const { bridge } = await loadFixture(deployBridgeFixture);
+      expect(await bridge.MAX_FEE_BASIS_POINTS()).to.equal(500);
+
+      await expect(bridge.updateConfig({ ...validConfig, feeBasisPoints: 10000 }))
+        .to.be.revertedWithCustomError(bridge, "FeeTooHigh");
+    });
+
+    it("Should bound how far the fee moves in one update", async function () {
+      const { bridge } = await loadFixture(deployBridgeFixture);
+
+      // 30 -> 81 bps is one step too far; 30 -> 80 -> 130 is fine
+      await expect(bridge.updateConfig({ ...validConfig, feeBasisPoints: 81 }))
+        .to.be.revertedWithCustomError(bridge, "FeeChangeTooLarge");
+      await bridge.updateConfig({ ...validConfig, feeBasisPoints: 80 });
+      await expect(bridge.updateConfig({ ...validConfig, feeBasisPoints: 130 }))
+        .to.emit(bridge, "ConfigUpdated");
+      await expect(bridge.updateConfig({ ...validConfig, feeBasisPoints: 0 }))
+        .to.be.revertedWithCustomError(bridge, "FeeChangeTooLarge");
+    });
+
+    it("Should reject a zero relayer threshold", async function () {
+      const { bridge } = await loadFixture(deployBridgeFixture);
+      await expect(bridge.updateConfig({ ...validConfig, relayerThreshold: 0 }))
+        .to.be.revertedWithCustomError(bridge, "InvalidThreshold");
+    });
+
+    it("Should apply the same rules to token configs", async function () {
+      const { bridge } = await loadFixture(deployBridgeFixture);
+      const polConfig = {
+        minAmount: ethers.parseEther("0.1"),
+        maxAmount: ethers.parseEther("1000"),
+        feeBasisPoints: 30,
+        decimals: 18,
+        enabled: true
+      };
+
+      await expect(bridge.setTokenConfig(ethers.ZeroAddress, { ...polConfig, minAmount: ethers.parseEther("2000") }))
+        .to.be.revertedWithCustomError(bridge, "InvalidAmountRange");
+      await expect(bridge.setTokenConfig(ethers.ZeroAddress, { ...polConfig, feeBasisPoints: 501 }))
+        .to.be.revertedWithCustomError(bridge, "FeeTooHigh");
+      await expect(bridge.setTokenConfig(ethers.ZeroAddress, { ...polConfig, feeBasisPoints: 100 }))
+        .to.be.revertedWithCustomError(bridge, "FeeChangeTooLarge");
+
+      // A new token starts anywhere under the cap
+      await expect(bridge.setTokenConfig(ethers.Wallet.createRandom().address, { ...polConfig, feeBasisPoints: 500 }))
+        .to.emit(bridge, "TokenConfigUpdated");
+    });
+
+    it("Should apply updateConfig limits and fee to POL", async function () {
+      const { bridge, user } = await loadFixture(deployBridgeFixture);
+      const newConfig = { ...validConfig, minBridgeAmount: ethers.parseEther("1"), feeBasisPoints: 40 };
+
+      await expect(bridge.updateConfig(newConfig))
+        .to.emit(bridge, "TokenConfigUpdated")
+        .withArgs(ethers.ZeroAddress, [ethers.parseEther("1"), validConfig.maxBridgeAmount, 40, 18, true]);
+
+      await expect(bridge.connect(user).bridgeToTON("EQD4test", ethers.ZeroAddress, ethers.parseEther("0.5"), {
+        value: ethers.parseEther("0.5")
+      })).to.be.revertedWithCustomError(bridge, "InsufficientAmount");
+      await expect(bridge.connect(user).bridgeToTON("EQD4test", ethers.ZeroAddress, ethers.parseEther("2"), {
+        value: ethers.parseEther("2")
+      })).to.emit(bridge, "BridgeInitiated")
+        .withArgs(anyValue, user.address, ethers.ZeroAddress, ethers.parseEther("1.992"), "EQD4test", ethers.parseEther("0.008"));
+    });
+
+    it("Should mirror the POL token config into config", async function () {
+      const { bridge } = await loadFixture(deployBridgeFixture);
+      await bridge.setTokenConfig(ethers.ZeroAddress, {
+        minAmount: ethers.parseEther("0.5"),
+        maxAmount: ethers.parseEther("50"),
+        feeBasisPoints: 20,
+        decimals: 18,
+        enabled: true
+      });
+
+      const config = await bridge.config();
+      expect(config.minBridgeAmount).to.equal(ethers.parseEther("0.5"));
+      expect(config.maxBridgeAmount).to.equal(ethers.parseEther("50"));
+      expect(config.feeBasisPoints).to.equal(20);
+      expect(config.relayerThreshold).to.equal(1);
+
+      // The fee-change bound is measured from the live POL fee.
+      await expect(bridge.updateConfig({ ...validConfig, feeBasisPoints: 80 }))
+        .to.be.revertedWithCustomError(bridge, "FeeChangeTooLarge");
+    });
+  });
+
+  describe("Releases", function () {
+    const tonTxHash = ethers.id("ton-release-1");
+
+    async function lockedBridgeFixture() {
+      const fixture = await deployBridgeFixture();
+      const { bridge, owner, user } = fixture;
+      const amount = ethers.parseEther("10");
+
+      await bridge.connect(user).bridgeToTON(
+        "EQD4test",
+        ethers.ZeroAddress,
+        amount,
+        { value: amount }
+      );
+
+      // Second relayer, threshold 2
+      const [, , , relayer2, recipient] = await ethers.getSigners();
+      await bridge.grantRole(await bridge.RELAYER_ROLE(), relayer2.address);
+      const config = await bridge.config();
+      await bridge.connect(owner).updateConfig({
+        minBridgeAmount: config.minBridgeAmount,
+        maxBridgeAmount: config.maxBridgeAmount,
+        feeBasisPoints: config.feeBasisPoints,
+        relayerThreshold: 2,
+        enabled: config.enabled
+      });
+
+      return { ...fixture, relayer2, recipient };
+    }
+
+    it("Should track locked liquidity net of fees", async function () {
+      const { bridge } = await loadFixture(lockedBridgeFixture);
+      // 10 POL minus the 0.3% fee
+      expect(await bridge.lockedLiquidity(ethers.ZeroAddress)).to.equal(ethers.parseEther("9.97"));
+    });
+
+    it("Should only release once the relayer threshold is reached", async function () {
+      const { bridge, relayer, relayer2, recipient } = await loadFixture(lockedBridgeFixture);
+      const amount = ethers.parseEther("2");
+
+      await expect(
+        bridge.connect(relayer).confirmRelease(tonTxHash, ethers.ZeroAddress, recipient.address, amount)
+      ).to.emit(bridge, "ReleaseConfirmed")
+        .and.not.to.emit(bridge, "ReleaseExecuted");
+      expect((await bridge.getRelease(tonTxHash)).executed).to.be.false;
+
+      const release = bridge.connect(relayer2).confirmRelease(
+        tonTxHash, ethers.ZeroAddress, recipient.address, amount
+      );
+      await expect(release).to.emit(bridge, "ReleaseExecuted")
+        .withArgs(tonTxHash, ethers.ZeroAddress, recipient.address, amount);
+      await expect(release).to.changeEtherBalances([bridge, recipient], [-amount, amount]);
+
+      expect(await bridge.lockedLiquidity(ethers.ZeroAddress)).to.equal(ethers.parseEther("7.97"));
+    });
+
+    it("Should reject a second confirmation from the same relayer", async function () {
+      const { bridge, relayer, recipient } = await loadFixture(lockedBridgeFixture);
+      const amount = ethers.parseEther("1");
+
+      await bridge.connect(relayer).confirmRelease(tonTxHash, ethers.ZeroAddress, recipient.address, amount);
+
+      await expect(
+        bridge.connect(relayer).confirmRelease(tonTxHash, ethers.ZeroAddress, recipient.address, amount)
+      ).to.be.revertedWithCustomError(bridge, "AlreadyConfirmed");
+    });
+
+    it("Should reject confirmations that disagree on the release", async function () {
+      const { bridge, relayer, relayer2, recipient } = await loadFixture(lockedBridgeFixture);
+
+      await bridge.connect(relayer).confirmRelease(
+        tonTxHash, ethers.ZeroAddress, recipient.address, ethers.parseEther("1")
+      );
+
+      await expect(
+        bridge.connect(relayer2).confirmRelease(
+          tonTxHash, ethers.ZeroAddress, recipient.address, ethers.parseEther("5")
+        )
+      ).to.be.revertedWithCustomError(bridge, "ReleaseMismatch");
+    });
+
+    it("Should never release the same TON transaction twice", async function () {
+      const { bridge, owner, relayer, relayer2, recipient } = await loadFixture(lockedBridgeFixture);
+      const amount = ethers.parseEther("1");
+
+      await bridge.connect(relayer).confirmRelease(tonTxHash, ethers.ZeroAddress, recipient.address, amount);
+      await bridge.connect(relayer2).confirmRelease(tonTxHash, ethers.ZeroAddress, recipient.address, amount);
+
+      // Not even a fresh relayer can replay it
+      await bridge.grantRole(await bridge.RELAYER_ROLE(), owner.address);
+      await expect(
+        bridge.connect(owner).confirmRelease(tonTxHash, ethers.ZeroAddress, recipient.address, amount)
+      ).to.be.revertedWithCustomError(bridge, "AlreadyReleased");
+    });
+
+    it("Should not release more than the locked liquidity", async function () {
+      const { bridge, relayer, relayer2, recipient } = await loadFixture(lockedBridgeFixture);
+      const amount = ethers.parseEther("9.98");
+
+      await bridge.connect(relayer).confirmRelease(tonTxHash, ethers.ZeroAddress, recipient.address, amount);
+
+      await expect(
+        bridge.connect(relayer2).confirmRelease(tonTxHash, ethers.ZeroAddress, recipient.address, amount)
+      ).to.be.revertedWithCustomError(bridge, "InsufficientLiquidity");
+      expect((await bridge.getRelease(tonTxHash)).executed).to.be.false;
+    });
+
+    it("Should only allow relayers to confirm releases", async function () {
+      const { bridge, user } = await loadFixture(lockedBridgeFixture);
+
+      await expect(
+        bridge.connect(user).confirmRelease(tonTxHash, ethers.ZeroAddress, user.address, 1)
+      ).to.be.revertedWithCustomError(bridge, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Fees", function () {
+    async function feesFixture() {
+      const fixture = await deployBridgeFixture();
+      const amount = ethers.parseEther("10");
+
+      await fixture.bridge.connect(fixture.user).bridgeToTON(
+        "EQD4test",
+        ethers.ZeroAddress,
+        amount,
+        { value: amount }
+      );
+
+      const [, , , treasury] = await ethers.getSigners();
+      return { ...fixture, treasury };
+    }
+
+    it("Should accrue fees separately from principal", async function () {
+      const { bridge } = await loadFixture(feesFixture);
+      expect(await bridge.accruedFees(ethers.ZeroAddress)).to.equal(ethers.parseEther("0.03"));
+      expect(await bridge.lockedLiquidity(ethers.ZeroAddress)).to.equal(ethers.parseEther("9.97"));
+    });
+
+    it("Should withdraw fees", async function () {
+      const { bridge, owner, treasury } = await loadFixture(feesFixture);
+      const amount = ethers.parseEther("0.01");
+
+      const withdrawal = bridge.connect(owner).withdrawFees(ethers.ZeroAddress, treasury.address, amount);
+      await expect(withdrawal).to.emit(bridge, "FeesWithdrawn")
+        .withArgs(ethers.ZeroAddress, treasury.address, amount);
+      await expect(withdrawal).to.changeEtherBalances([bridge, treasury], [-amount, amount]);
+
+      expect(await bridge.accruedFees(ethers.ZeroAddress)).to.equal(ethers.parseEther("0.02"));
+      expect(await bridge.lockedLiquidity(ethers.ZeroAddress)).to.equal(ethers.parseEther("9.97"));
+    });
+
+    it("Should send fees to the treasury by default", async function () {
+      const { bridge, owner, treasury } = await loadFixture(feesFixture);
+      const amount = ethers.parseEther("0.03");
+
+      await expect(
+        bridge.connect(owner).withdrawFees(ethers.ZeroAddress, ethers.ZeroAddress, amount)
+      ).to.be.revertedWithCustomError(bridge, "InvalidRecipient");
+
+      await expect(bridge.connect(owner).setTreasury(treasury.address))
+        .to.emit(bridge, "TreasuryUpdated")
+        .withArgs(ethers.ZeroAddress, treasury.address);
+
+      await expect(
+        bridge.connect(owner).withdrawFees(ethers.ZeroAddress, ethers.ZeroAddress, amount)
+      ).to.changeEtherBalance(treasury, amount);
+    });
+
+    it("Should never withdraw principal", async function () {
+      const { bridge, owner } = await loadFixture(feesFixture);
+
+      await expect(
+        bridge.connect(owner).withdrawFees(ethers.ZeroAddress, owner.address, ethers.parseEther("0.03") + 1n)
+      ).to.be.revertedWithCustomError(bridge, "InsufficientFees");
+    });
+
+    it("Should only allow the fee manager to withdraw", async function () {
+      const { bridge, user } = await loadFixture(feesFixture);
+
+      await expect(
+        bridge.connect(user).withdrawFees(ethers.ZeroAddress, user.address, 1)
+      ).to.be.revertedWithCustomError(bridge, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Refunds", function () {
+    const expiry = 7 * 24 * 60 * 60;
+    const amount = ethers.parseEther("10");
+    // 0.3% bridge fee
+    const fee = ethers.parseEther("0.03");
+    const net = amount - fee;
+
+    async function refundFixture() {
+      const fixture = await deployBridgeFixture();
+      await fixture.bridge.setRefundPolicy(expiry, false);
+
+      const tx = await fixture.bridge.connect(fixture.user).bridgeToTON(
+        "EQD4test",
+        ethers.ZeroAddress,
+        amount,
+        { value: amount }
+      );
+      const receipt = await tx.wait();
+      let transferId = "";
+      for (const log of receipt!.logs) {
+        const parsed = fixture.bridge.interface.parseLog(log);
+        if (parsed?.name === "BridgeInitiated") transferId = parsed.args[0];
+      }
+      const { timestamp } = await fixture.bridge.getTransfer(transferId);
+      return { ...fixture, transferId, expiresAt: timestamp + BigInt(expiry) };
+    }
+
+    it("Should not refund before the expiry window has passed", async function () {
+      const { bridge, user, transferId, expiresAt } = await loadFixture(refundFixture);
+      await time.increaseTo(expiresAt - 10n);
+
+      expect(await bridge.isRefundable(transferId)).to.be.false;
+      await expect(bridge.connect(user).refund(transferId))
+        .to.be.revertedWithCustomError(bridge, "RefundNotAvailable");
+    });
+
+    it("Should refund the net amount to the sender after expiry", async function () {
+      const { bridge, user, transferId, expiresAt } = await loadFixture(refundFixture);
+      await time.increaseTo(expiresAt);
+      expect(await bridge.isRefundable(transferId)).to.be.true;
+
+      const tx = bridge.connect(user).refund(transferId);
+      await expect(tx)
+        .to.emit(bridge, "BridgeRefunded")
+        .withArgs(transferId, user.address, ethers.ZeroAddress, net);
+      await expect(tx).to.changeEtherBalances([user, bridge], [net, -net]);
+
+      expect((await bridge.getTransfer(transferId)).refunded).to.be.true;
+      expect(await bridge.lockedLiquidity(ethers.ZeroAddress)).to.equal(0);
+      expect(await bridge.accruedFees(ethers.ZeroAddress)).to.equal(fee);
+    });
+
+    it("Should also return the fee when the policy says so", async function () {
+      const { bridge, user, transferId, expiresAt } = await loadFixture(refundFixture);
+      await bridge.setRefundPolicy(expiry, true);
+      await time.increaseTo(expiresAt);
+
+      await expect(bridge.connect(user).refund(transferId))
+        .to.changeEtherBalances([user, bridge], [amount, -amount]);
+      expect(await bridge.accruedFees(ethers.ZeroAddress)).to.equal(0);
+    });
+
+    it("Should block confirmations and repeated refunds once refunded", async function () {
+      const { bridge, relayer, user, transferId, expiresAt } = await loadFixture(refundFixture);
+      await time.increaseTo(expiresAt);
+      await bridge.connect(user).refund(transferId);
+
+      await expect(bridge.connect(relayer).confirmTransfer(transferId, tonTxHash, tonLt))
+        .to.be.revertedWithCustomError(bridge, "AlreadyRefunded");
+      await expect(bridge.connect(user).refund(transferId))
+        .to.be.revertedWithCustomError(bridge, "AlreadyRefunded");
+    });
+
+    it("Should not refund completed transfers or pay anyone but the sender", async function () {
+      const { bridge, relayer, owner, user, transferId, expiresAt } = await loadFixture(refundFixture);
+      await time.increaseTo(expiresAt);
+
+      await expect(bridge.connect(owner).refund(transferId))
+        .to.be.revertedWithCustomError(bridge, "NotTransferSender");
+
+      await bridge.connect(relayer).confirmTransfer(transferId, tonTxHash, tonLt);
+      expect(await bridge.isRefundable(transferId)).to.be.false;
+      await expect(bridge.connect(user).refund(transferId))
+        .to.be.revertedWithCustomError(bridge, "AlreadyCompleted");
+    });
+
+    it("Should not refund a transfer once a relayer has confirmed its payout", async function () {
+      const { bridge, relayer, user, transferId, expiresAt } = await loadFixture(refundFixture);
+      const [, , , relayer2] = await ethers.getSigners();
+      await bridge.addRelayer(relayer2.address);
+      await bridge.updateConfig({
+        minBridgeAmount: ethers.parseEther("0.1"),
+        maxBridgeAmount: ethers.parseEther("1000"),
+        feeBasisPoints: 30,
+        relayerThreshold: 2,
+        enabled: true
+      });
+
+      await bridge.connect(relayer).confirmTransfer(transferId, tonTxHash, tonLt);
+      await time.increaseTo(expiresAt);
+
+      expect((await bridge.getTransfer(transferId)).completed).to.be.false;
+      expect(await bridge.isRefundable(transferId)).to.be.false;
+      await expect(bridge.connect(user).refund(transferId))
+        .to.be.revertedWithCustomError(bridge, "RefundNotAvailable");
+    });
+
+    it("Should hold refunds while paused so a paid transfer can still be confirmed", async function () {
+      const { bridge, owner, relayer, user, transferId, expiresAt } = await loadFixture(refundFixture);
+      // Paid on TON, but the bridge is paused before the relayer confirms.
+      await bridge.connect(owner).pause();
+      await time.increaseTo(expiresAt);
+
+      expect(await bridge.isRefundable(transferId)).to.be.false;
+      await expect(bridge.connect(user).refund(transferId))
+        .to.be.revertedWithCustomError(bridge, "RefundNotAvailable");
+
+      await bridge.connect(owner).unpause();
+      await bridge.connect(relayer).confirmTransfer(transferId, tonTxHash, tonLt);
+      await expect(bridge.connect(user).refund(transferId))
+        .to.be.revertedWithCustomError(bridge, "AlreadyCompleted");
+    });
+
+    it("Should keep refunds disabled while the expiry is zero", async function () {
+      const { bridge, user, transferId, expiresAt } = await loadFixture(refundFixture);
+      await bridge.setRefundPolicy(0, false);
+      await time.increaseTo(expiresAt + 1000n);
+
+      await expect(bridge.connect(user).refund(transferId))
+        .to.be.revertedWithCustomError(bridge, "RefundNotAvailable");
+    });
+  });
+
+  describe("Token registry", function () {
+    const usdcConfig = {
+      minAmount: ethers.parseUnits("1", 6),
+      maxAmount: ethers.parseUnits("5000", 6),
+      feeBasisPoints: 10,
+      decimals: 6,
+      enabled: true
+    };
+
+    async function registryFixture() {
+      const fixture = await deployBridgeFixture();
+      const MockERC20Factory = await ethers.getContractFactory("MockERC20");
+      const usdc = await MockERC20Factory.deploy("USD Coin", "USDC", 6);
+      await usdc.waitForDeployment();
+      await usdc.mint(fixture.user.address, ethers.parseUnits("10000", 6));
+      return { ...fixture, usdc };
+    }
+
+    it("Should seed native POL from the initial config", async function () {
+      const { bridge } = await loadFixture(registryFixture);
+      const polConfig = await bridge.getTokenConfig(ethers.ZeroAddress);
+      expect(polConfig.minAmount).to.equal(ethers.parseEther("0.1"));
+      expect(polConfig.maxAmount).to.equal(ethers.parseEther("1000"));
+      expect(polConfig.feeBasisPoints).to.equal(30);
+      expect(polConfig.decimals).to.equal(18);
+      expect(polConfig.enabled).to.be.true;
+      expect(await bridge.getConfiguredTokens()).to.deep.equal([ethers.ZeroAddress]);
+    });
+
+    it("Should configure a token with its own limits and fee", async function () {
+      const { bridge, usdc, user } = await loadFixture(registryFixture);
+      const token = await usdc.getAddress();
+
+      await expect(bridge.setTokenConfig(token, usdcConfig))
+        .to.emit(bridge, "TokenConfigUpdated")
+        .and.to.emit(bridge, "TokenSupported").withArgs(token, true);
+      expect(await bridge.supportedTokens(token)).to.be.true;
+      expect(await bridge.getConfiguredTokens()).to.deep.equal([ethers.ZeroAddress, token]);
+
+      const amount = ethers.parseUnits("100", 6);
+      await usdc.connect(user).approve(await bridge.getAddress(), amount);
+      await expect(bridge.connect(user).bridgeToTON("EQD4test", token, amount))
+        .to.emit(bridge, "BridgeInitiated");
+
+      // 0.1% fee in USDC units
+      expect(await bridge.accruedFees(token)).to.equal(ethers.parseUnits("0.1", 6));
+      expect(await bridge.lockedLiquidity(token)).to.equal(ethers.parseUnits("99.9", 6));
+    });
+
+    it("Should enforce per-token limits", async function () {
+      const { bridge, usdc, user } = await loadFixture(registryFixture);
+      const token = await usdc.getAddress();
+      await bridge.setTokenConfig(token, usdcConfig);
+      await usdc.connect(user).approve(await bridge.getAddress(), ethers.MaxUint256);
+
+      await expect(
+        bridge.connect(user).bridgeToTON("EQD4test", token, ethers.parseUnits("0.5", 6))
+      ).to.be.revertedWithCustomError(bridge, "InsufficientAmount");
+      await expect(
+        bridge.connect(user).bridgeToTON("EQD4test", token, ethers.parseUnits("5001", 6))
+      ).to.be.revertedWithCustomError(bridge, "ExceedsMaxAmount");
+    });
+
+    it("Should toggle configured tokens with setSupportedToken", async function () {
+      const { bridge, usdc, user } = await loadFixture(registryFixture);
+      const token = await usdc.getAddress();
+
+      await expect(bridge.setSupportedToken(token, true))
+        .to.be.revertedWithCustomError(bridge, "TokenNotConfigured");
+
+      await bridge.setTokenConfig(token, usdcConfig);
+      await expect(bridge.setSupportedToken(token, false))
+        .to.emit(bridge, "TokenSupported").withArgs(token, false);
+
+      const disabled = await bridge.getTokenConfig(token);
+      expect(disabled.enabled).to.be.false;
+      expect(disabled.maxAmount).to.equal(usdcConfig.maxAmount);
+
+      await expect(
+        bridge.connect(user).bridgeToTON("EQD4test", token, ethers.parseUnits("10", 6))
+      ).to.be.revertedWithCustomError(bridge, "UnsupportedToken");
+    });
+
+    it("Should only allow the admin to configure tokens", async function () {
+      const { bridge, usdc, user } = await loadFixture(registryFixture);
+
+      await expect(
+        bridge.connect(user).setTokenConfig(await usdc.getAddress(), usdcConfig)
+      ).to.be.revertedWithCustomError(bridge, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Volume caps", function () {
+    async function bridgeAndGetId(bridge: PolygonBridge, user: any, amount: bigint) {
+      const tx = await bridge.connect(user).bridgeToTON(
+        "EQD4test",
+        ethers.ZeroAddress,
+        amount,
+        { value: amount }
+      );
+      const receipt = await tx.wait();
+      for (const log of receipt!.logs) {
+        const parsed = bridge.interface.parseLog(log);
+        if (parsed?.name === "BridgeInitiated") return parsed.args[0] as string;
+      }
+      throw new Error("BridgeInitiated not emitted");
+    }
+
+    async function cappedBridgeFixture() {
+      const fixture = await deployBridgeFixture();
+      // 10 POL out and 5 POL in per rolling day
+      await fixture.bridge.setVolumeCaps(
+        ethers.ZeroAddress,
+        ethers.parseEther("10"),
+        ethers.parseEther("5")
+      );
+      return fixture;
+    }
+
+    it("Should report remaining capacity", async function () {
+      const { bridge, user, relayer } = await loadFixture(cappedBridgeFixture);
+      // 6 POL minus the 0.3% fee
+      const transferId = await bridgeAndGetId(bridge, user, ethers.parseEther("6"));
+      await bridge.connect(relayer).confirmTransfer(transferId, tonTxHash, tonLt);
+
+      expect(await bridge.remainingOutboundCapacity(ethers.ZeroAddress))
+        .to.equal(ethers.parseEther("10") - ethers.parseEther("5.982"));
+      expect(await bridge.remainingInboundCapacity(ethers.ZeroAddress))
+        .to.equal(ethers.parseEther("5"));
+      expect(await bridge.remainingOutboundCapacity(await bridge.wrappedTON()))
+        .to.equal(ethers.MaxUint256);
+    });
+
+    it("Should trip the circuit breaker when the outbound cap is exceeded", async function () {
+      const { bridge, user, relayer } = await loadFixture(cappedBridgeFixture);
+      const first = await bridgeAndGetId(bridge, user, ethers.parseEther("6"));
+      const second = await bridgeAndGetId(bridge, user, ethers.parseEther("6"));
+
+      await bridge.connect(relayer).confirmTransfer(first, tonTxHash, tonLt);
+      await expect(bridge.connect(relayer).confirmTransfer(second, tonTxHash, tonLt))
+        .to.emit(bridge, "CircuitBreakerTripped")
+        .withArgs(ethers.ZeroAddress, true, ethers.parseEther("5.982"))
+        .and.not.to.emit(bridge, "BridgeConfirmed");
+
+      expect(await bridge.paused()).to.be.true;
+      expect(await bridge.circuitBreakerTripped()).to.be.true;
+      expect((await bridge.getTransfer(second)).completed).to.be.false;
+      expect(await bridge.hasConfirmed(second, relayer.address)).to.be.false;
+    });
+
+    it("Should record the payout of a confirmation that trips the breaker", async function () {
+      const { bridge, user, relayer } = await loadFixture(cappedBridgeFixture);
+      await bridge.setRefundPolicy(60, false);
+      const first = await bridgeAndGetId(bridge, user, ethers.parseEther("6"));
+      const second = await bridgeAndGetId(bridge, user, ethers.parseEther("6"));
+
+      await bridge.connect(relayer).confirmTransfer(first, tonTxHash, tonLt);
+      await bridge.connect(relayer).confirmTransfer(second, tonTxHash, tonLt);
+
+      const transfer = await bridge.getTransfer(second);
+      expect(transfer.confirmations).to.equal(0);
+      expect(transfer.tonTxHash).to.equal(tonTxHash);
+      expect(transfer.tonLt).to.equal(tonLt);
+
+      // The TON payout went out, so the sender cannot also get a refund.
+      await time.increase(61);
+      expect(await bridge.isRefundable(second)).to.be.false;
+      await expect(bridge.connect(user).refund(second))
+        .to.be.revertedWithCustomError(bridge, "RefundNotAvailable");
+    });
+
+    it("Should trip the circuit breaker when the inbound cap is exceeded", async function () {
+      const { bridge, user, relayer } = await loadFixture(cappedBridgeFixture);
+      await bridgeAndGetId(bridge, user, ethers.parseEther("10"));
+      const tonTxHash = ethers.id("ton-release-big");
+
+      await expect(
+        bridge.connect(relayer).confirmRelease(tonTxHash, ethers.ZeroAddress, user.address, ethers.parseEther("6"))
+      ).to.emit(bridge, "CircuitBreakerTripped")
+        .withArgs(ethers.ZeroAddress, false, ethers.parseEther("6"))
+        .and.not.to.emit(bridge, "ReleaseExecuted");
+
+      expect(await bridge.paused()).to.be.true;
+      expect((await bridge.getRelease(tonTxHash)).confirmations).to.equal(0);
+    });
+
+    it("Should stay paused until an admin resets the breaker", async function () {
+      const { bridge, user, relayer } = await loadFixture(cappedBridgeFixture);
+      const first = await bridgeAndGetId(bridge, user, ethers.parseEther("6"));
+      const second = await bridgeAndGetId(bridge, user, ethers.parseEther("6"));
+      await bridge.connect(relayer).confirmTransfer(first, tonTxHash, tonLt);
+      await bridge.connect(relayer).confirmTransfer(second, tonTxHash, tonLt);
+
+      await expect(bridge.unpause())
+        .to.be.revertedWithCustomError(bridge, "CircuitBreakerActive");
+      await expect(bridge.connect(relayer).confirmTransfer(second, tonTxHash, tonLt))
+        .to.be.revertedWithCustomError(bridge, "EnforcedPause");
+      await expect(bridge.connect(user).resetCircuitBreaker())
+        .to.be.revertedWithCustomError(bridge, "AccessControlUnauthorizedAccount");
+
+      await expect(bridge.resetCircuitBreaker()).to.emit(bridge, "CircuitBreakerReset");
+      expect(await bridge.paused()).to.be.false;
+
+      await expect(bridge.connect(relayer).confirmTransfer(second, tonTxHash, tonLt))
+        .to.emit(bridge, "BridgeCompleted");
+    });
+
+    it("Should refill capacity over the rolling window", async function () {
+      const { bridge, user, relayer } = await loadFixture(cappedBridgeFixture);
+      const first = await bridgeAndGetId(bridge, user, ethers.parseEther("6"));
+      const second = await bridgeAndGetId(bridge, user, ethers.parseEther("6"));
+      await bridge.connect(relayer).confirmTransfer(first, tonTxHash, tonLt);
+
+      await time.increase(12 * 60 * 60);
+      // Half the window has passed, so half the cap is available again
+      expect(await bridge.remainingOutboundCapacity(ethers.ZeroAddress))
+        .to.be.closeTo(ethers.parseEther("9.018"), ethers.parseEther("0.001"));
+
+      await expect(bridge.connect(relayer).confirmTransfer(second, tonTxHash, tonLt))
+        .to.emit(bridge, "BridgeCompleted");
+      expect(await bridge.paused()).to.be.false;
+    });
+  });
+
+  describe("Permit", function () {
+    async function permitFixture() {
+      const fixture = await deployBridgeFixture();
+      const MockERC20PermitFactory = await ethers.getContractFactory("MockERC20Permit");
+      const token = await MockERC20PermitFactory.deploy("Mysterium", "MYST");
+      await token.waitForDeployment();
+      await token.mint(fixture.user.address, ethers.parseEther("100"));
+
+      await fixture.bridge.setTokenConfig(await token.getAddress(), {
+        minAmount: ethers.parseEther("1"),
+        maxAmount: ethers.parseEther("50"),
+        feeBasisPoints: 30,
+        decimals: 18,
+        enabled: true
+      });
+
+      const deadline = BigInt(await time.latest()) + 3600n;
+      return { ...fixture, token, deadline };
+    }
+
+    it("Should bridge with a permit instead of an approval", async function () {
+      const { bridge, token, user, deadline } = await loadFixture(permitFixture);
+      const tokenAddress = await token.getAddress();
+      const bridgeAddress = await bridge.getAddress();
+      const amount = ethers.parseEther("10");
+
+      const { v, r, s } = await signPermit(user, tokenAddress, bridgeAddress, amount, deadline);
+
+      await expect(
+        bridge.connect(user).bridgeToTONWithPermit("EQD4test", tokenAddress, amount, deadline, v, r, s)
+      ).to.emit(bridge, "BridgeInitiated")
+        .withArgs(anyValue, user.address, tokenAddress, ethers.parseEther("9.97"), "EQD4test", ethers.parseEther("0.03"));
+
+      expect(await token.balanceOf(bridgeAddress)).to.equal(amount);
+      expect(await token.nonces(user.address)).to.equal(1);
+    });
+
+    it("Should still bridge when the permit was front-run", async function () {
+      const { bridge, token, user, owner, deadline } = await loadFixture(permitFixture);
+      const tokenAddress = await token.getAddress();
+      const bridgeAddress = await bridge.getAddress();
+      const amount = ethers.parseEther("10");
+
+      const { v, r, s } = await signPermit(user, tokenAddress, bridgeAddress, amount, deadline);
+      // Someone else submits the permit first
+      await token.connect(owner).permit(user.address, bridgeAddress, amount, deadline, v, r, s);
+
+      await expect(
+        bridge.connect(user).bridgeToTONWithPermit("EQD4test", tokenAddress, amount, deadline, v, r, s)
+      ).to.emit(bridge, "BridgeInitiated");
+    });
+
+    it("Should reject an invalid permit", async function () {
+      const { bridge, token, user, owner, deadline } = await loadFixture(permitFixture);
+      const tokenAddress = await token.getAddress();
+      const amount = ethers.parseEther("10");
+
+      // Signed by the wrong account
+      const { v, r, s } = await signPermit(owner, tokenAddress, await bridge.getAddress(), amount, deadline);
+
+      await expect(
+        bridge.connect(user).bridgeToTONWithPermit("EQD4test", tokenAddress, amount, deadline, v, r, s)
+      ).to.be.revertedWithCustomError(bridge, "PermitFailed");
+    });
+
+    it("Should reject native POL", async function () {
+      const { bridge, user, deadline } = await loadFixture(permitFixture);
+
+      await expect(
+        bridge.connect(user).bridgeToTONWithPermit(
+          "EQD4test", ethers.ZeroAddress, ethers.parseEther("1"), deadline, 27, ethers.ZeroHash, ethers.ZeroHash
+        )
+      ).to.be.revertedWithCustomError(bridge, "UnsupportedToken");
+    });
+  });
+
+  describe("Bridge intents", function () {
+    const noPermit = { deadline: 0, v: 0, r: ethers.ZeroHash, s: ethers.ZeroHash };
+
+    async function intentFixture() {
+      const fixture = await deployBridgeFixture();
+      const MockERC20PermitFactory = await ethers.getContractFactory("MockERC20Permit");
+      const token = await MockERC20PermitFactory.deploy("Mysterium", "MYST");
+      await token.waitForDeployment();
+
+      // A user with tokens but no POL
+      const sender = ethers.Wallet.createRandom().connect(ethers.provider);
+      await token.mint(sender.address, ethers.parseEther("100"));
+
+      await fixture.bridge.setTokenConfig(await token.getAddress(), {
+        minAmount: ethers.parseEther("1"),
+        maxAmount: ethers.parseEther("50"),
+        feeBasisPoints: 30,
+        decimals: 18,
+        enabled: true
+      });
+
+      const [, , , submitter] = await ethers.getSigners();
+      const bridgeAddress = await fixture.bridge.getAddress();
+      const intent = await buildBridgeIntent(bridgeAddress, ethers.provider, {
+        sender: sender.address,
+        token: await token.getAddress(),
+        amount: ethers.parseEther("10"),
+        tonRecipient: "EQD4test",
+        maxRelayerFee: ethers.parseEther("0.5"),
+        deadline: BigInt(await time.latest()) + 3600n
+      });
+      const signature = await signBridgeIntent(sender, bridgeAddress, intent);
+      const permit = await signPermit(sender, intent.token, bridgeAddress, intent.amount, intent.deadline);
+
+      return { ...fixture, token, sender, submitter, intent, signature, permit };
+    }
+
+    it("Should bridge a signed intent and pay the submitter", async function () {
+      const { bridge, token, sender, submitter, intent, signature, permit } = await loadFixture(intentFixture);
+      const relayerFee = ethers.parseEther("0.2");
+
+      await expect(bridge.connect(submitter).bridgeWithIntent(intent, signature, relayerFee, permit))
+        .to.emit(bridge, "IntentExecuted").withArgs(sender.address, 0, submitter.address, relayerFee)
+        .and.to.emit(bridge, "BridgeInitiated")
+        // 9.8 bridged, minus the 0.3% bridge fee
+        .withArgs(anyValue, sender.address, intent.token, ethers.parseEther("9.7706"), "EQD4test", ethers.parseEther("0.0294"));
+
+      expect(await token.balanceOf(submitter.address)).to.equal(relayerFee);
+      expect(await token.balanceOf(sender.address)).to.equal(ethers.parseEther("90"));
+      expect(await bridge.intentNonces(sender.address)).to.equal(1);
+    });
+
+    it("Should use an existing allowance when no permit is given", async function () {
+      const { bridge, token, sender, submitter, intent, signature } = await loadFixture(intentFixture);
+      await submitter.sendTransaction({ to: sender.address, value: ethers.parseEther("1") });
+      await token.connect(sender).approve(await bridge.getAddress(), intent.amount);
+
+      await expect(bridge.connect(submitter).bridgeWithIntent(intent, signature, 0, noPermit))
+        .to.emit(bridge, "BridgeInitiated");
+    });
+
+    it("Should not replay an intent", async function () {
+      const { bridge, submitter, intent, signature, permit } = await loadFixture(intentFixture);
+      await bridge.connect(submitter).bridgeWithIntent(intent, signature, 0, permit);
+
+      await expect(bridge.connect(submitter).bridgeWithIntent(intent, signature, 0, permit))
+        .to.be.revertedWithCustomError(bridge, "InvalidNonce");
+    });
+
+    it("Should reject tampered intents", async function () {
+      const { bridge, submitter, intent, signature, permit } = await loadFixture(intentFixture);
+
+      await expect(
+        bridge.connect(submitter).bridgeWithIntent({ ...intent, tonRecipient: "EQAttacker" }, signature, 0, permit)
+      ).to.be.revertedWithCustomError(bridge, "InvalidSignature");
+    });
+
+    it("Should reject expired intents", async function () {
+      const { bridge, submitter, intent, signature, permit } = await loadFixture(intentFixture);
+      await time.increaseTo(intent.deadline + 1n);
+
+      await expect(bridge.connect(submitter).bridgeWithIntent(intent, signature, 0, permit))
+        .to.be.revertedWithCustomError(bridge, "IntentExpired");
+    });
+
+    it("Should cap the relayer fee at the signed maximum", async function () {
+      const { bridge, submitter, intent, signature, permit } = await loadFixture(intentFixture);
+
+      await expect(
+        bridge.connect(submitter).bridgeWithIntent(intent, signature, intent.maxRelayerFee + 1n, permit)
+      ).to.be.revertedWithCustomError(bridge, "RelayerFeeTooHigh");
+    });
+  });
+
+  describe("Fee-on-transfer and rebasing tokens", function () {
+    const fotConfig = {
+      minAmount: ethers.parseEther("1"),
+      maxAmount: ethers.parseEther("1000"),
+      feeBasisPoints: 100,
+      decimals: 18,
+      enabled: true
+    };
+
+    async function feeOnTransferFixture() {
+      const fixture = await deployBridgeFixture();
+      // Burns 2% of every transfer
+      const MockFeeOnTransferFactory = await ethers.getContractFactory("MockFeeOnTransferERC20");
+      const fot = await MockFeeOnTransferFactory.deploy("Deflationary", "DEFL", 200);
+      await fot.waitForDeployment();
+      await fot.mint(fixture.user.address, ethers.parseEther("1000"));
+
+      const token = await fot.getAddress();
+      await fixture.bridge.setTokenConfig(token, fotConfig);
+      await fot.connect(fixture.user).approve(await fixture.bridge.getAddress(), ethers.MaxUint256);
+      return { ...fixture, fot, token };
+    }
+
+    it("Should base fee and net amount on the tokens actually received", async function () {
+      const { bridge, fot, token, user } = await loadFixture(feeOnTransferFixture);
+      const amount = ethers.parseEther("100");
+
+      // 98 arrive; 1% bridge fee on that is 0.98
+      await expect(bridge.connect(user).bridgeToTON("EQD4test", token, amount))
+        .to.emit(bridge, "BridgeInitiated")
+        .withArgs(anyValue, user.address, token, ethers.parseEther("97.02"), "EQD4test", ethers.parseEther("0.98"));
+
+      expect(await bridge.lockedLiquidity(token)).to.equal(ethers.parseEther("97.02"));
+      expect(await bridge.accruedFees(token)).to.equal(ethers.parseEther("0.98"));
+      expect(await fot.balanceOf(await bridge.getAddress())).to.equal(
+        (await bridge.lockedLiquidity(token)) + (await bridge.accruedFees(token))
+      );
+    });
+
+    it("Should reject rebasing tokens with a clear reason", async function () {
+      const { bridge, token, user } = await loadFixture(feeOnTransferFixture);
+
+      await expect(bridge.setRebasingToken(token, true))
+        .to.emit(bridge, "RebasingTokenMarked").withArgs(token, true)
+        .and.to.emit(bridge, "TokenSupported").withArgs(token, false);
+      expect(await bridge.rebasingTokens(token)).to.be.true;
+
+      await expect(bridge.connect(user).bridgeToTON("EQD4test", token, ethers.parseEther("10")))
+        .to.be.revertedWithCustomError(bridge, "RebasingTokenUnsupported").withArgs(token);
+      await expect(bridge.setSupportedToken(token, true))
+        .to.be.revertedWithCustomError(bridge, "RebasingTokenUnsupported").withArgs(token);
+    });
+
+    it("Should only let the admin mark rebasing tokens", async function () {
+      const { bridge, token, user } = await loadFixture(feeOnTransferFixture);
+      await expect(bridge.connect(user).setRebasingToken(token, true))
+        .to.be.revertedWithCustomError(bridge, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Upgrades", function () {
+    // A proxy on the first implementation, like the one on Amoy, holding
+    // POL and an ERC-20 from transfers made before the upgrade, with a
+    // relayer granted RELAYER_ROLE directly.
+    async function legacyBridgeFixture() {
+      const [owner, relayer, user] = await ethers.getSigners();
+      const config = {
+        minBridgeAmount: ethers.parseEther("0.1"),
+        maxBridgeAmount: ethers.parseEther("1000"),
+        feeBasisPoints: 30,
+        relayerThreshold: 1,
+        enabled: true
+      };
+      const legacy = await upgrades.deployProxy(
+        await ethers.getContractFactory("PolygonBridgeV1"),
+        [owner.address, owner.address, config],
+        { initializer: "initialize", kind: "uups" }
+      );
+      await legacy.waitForDeployment();
+      const proxy = await legacy.getAddress();
+
+      await legacy.connect(user).getFunction("bridgeToTON")("EQD4test", ethers.ZeroAddress, ethers.parseEther("2"), {
+        value: ethers.parseEther("2")
+      });
+
+      const dai = await (await ethers.getContractFactory("MockERC20")).deploy("Dai", "DAI", 18);
+      await dai.mint(user.address, ethers.parseEther("100"));
+      await legacy.getFunction("setSupportedToken")(await dai.getAddress(), true);
+      await dai.connect(user).approve(proxy, ethers.parseEther("5"));
+      await legacy.connect(user).getFunction("bridgeToTON")("EQD4test", await dai.getAddress(), ethers.parseEther("5"));
+
+      await legacy.getFunction("grantRole")(await legacy.getFunction("RELAYER_ROLE")(), relayer.address);
+      return { proxy, owner, relayer, user, dai };
+    }
+
+    it("Should seed POL and its locked liquidity when upgrading a legacy proxy", async function () {
+      const { proxy, user } = await loadFixture(legacyBridgeFixture);
+      expect(await initializedVersion(hre, proxy)).to.equal(1n);
+
+      const result = await upgradeBridge(hre, proxy);
+      expect(result.upgraded).to.be.true;
+      expect(result.previousVersion).to.equal(1n);
+      expect(await initializedVersion(hre, proxy)).to.equal(2n);
+
+      const bridge = await ethers.getContractAt("PolygonBridge", proxy);
+      const pol = await bridge.getTokenConfig(ethers.ZeroAddress);
+      expect(pol.enabled).to.be.true;
+      expect(pol.minAmount).to.equal(ethers.parseEther("0.1"));
+      expect(pol.feeBasisPoints).to.equal(30);
+      expect(pol.decimals).to.equal(18);
+      expect(await bridge.lockedLiquidity(ethers.ZeroAddress)).to.equal(ethers.parseEther("2"));
+
+      await expect(bridge.connect(user).bridgeToTON("EQD4test", ethers.ZeroAddress, ethers.parseEther("1"), {
+        value: ethers.parseEther("1")
+      })).to.emit(bridge, "BridgeInitiated");
+      expect(await bridge.lockedLiquidity(ethers.ZeroAddress)).to.equal(ethers.parseEther("2.997"));
+    });
+
+    it("Should migrate legacy ERC-20s and relayers when upgrading a legacy proxy", async function () {
+      const { proxy, relayer, user, dai } = await loadFixture(legacyBridgeFixture);
+      const daiAddress = await dai.getAddress();
+
+      const result = await upgradeBridge(hre, proxy);
+      expect(result.legacyTokens).to.deep.equal([daiAddress]);
+      expect(result.legacyRelayers).to.deep.equal([relayer.address]);
+
+      const bridge = await ethers.getContractAt("PolygonBridge", proxy);
+      const daiConfig = await bridge.getTokenConfig(daiAddress);
+      expect(daiConfig.enabled).to.be.true;
+      expect(daiConfig.minAmount).to.equal(ethers.parseEther("0.1"));
+      expect(daiConfig.feeBasisPoints).to.equal(30);
+      expect(daiConfig.decimals).to.equal(18);
+      expect(await bridge.getConfiguredTokens()).to.deep.equal([ethers.ZeroAddress, daiAddress]);
+      expect(await bridge.lockedLiquidity(daiAddress)).to.equal(ethers.parseEther("5"));
+      expect(await bridge.getRelayers()).to.deep.equal([relayer.address]);
+
+      await dai.connect(user).approve(proxy, ethers.parseEther("1"));
+      await expect(bridge.connect(user).bridgeToTON("EQD4test", daiAddress, ethers.parseEther("1")))
+        .to.emit(bridge, "BridgeInitiated");
+      expect(await bridge.lockedLiquidity(daiAddress)).to.equal(ethers.parseEther("5.997"));
+    });
+
+    it("Should only enroll accounts that hold RELAYER_ROLE", async function () {
+      const { bridge, user } = await loadFixture(deployBridgeFixture);
+      await expect(bridge.initializeV2([], [user.address]))
+        .to.be.revertedWithCustomError(bridge, "RelayerNotFound");
+    });
+
+    it("Should run the migration only once", async function () {
+      const { proxy } = await loadFixture(legacyBridgeFixture);
+      await upgradeBridge(hre, proxy);
+      const bridge = await ethers.getContractAt("PolygonBridge", proxy);
+
+      await expect(bridge.initializeV2([], [])).to.be.revertedWithCustomError(bridge, "InvalidInitialization");
+      const again = await upgradeBridge(hre, proxy);
+      expect(again.previousVersion).to.equal(2n);
+      expect(again.data).to.equal("0x");
+    });
+
+    it("Should leave a current proxy's registry and liquidity alone", async function () {
+      const { bridge, user } = await loadFixture(deployBridgeFixture);
+      await bridge.connect(user).bridgeToTON("EQD4test", ethers.ZeroAddress, ethers.parseEther("1"), {
+        value: ethers.parseEther("1")
+      });
+      await bridge.setTokenConfig(ethers.ZeroAddress, {
+        minAmount: ethers.parseEther("0.2"),
+        maxAmount: ethers.parseEther("1000"),
+        feeBasisPoints: 30,
+        decimals: 18,
+        enabled: true
+      });
+
+      await bridge.initializeV2([], []);
+      expect((await bridge.getTokenConfig(ethers.ZeroAddress)).minAmount).to.equal(ethers.parseEther("0.2"));
+      expect(await bridge.lockedLiquidity(ethers.ZeroAddress)).to.equal(ethers.parseEther("0.997"));
+    });
+
+    it("Should only let the admin run the migration", async function () {
+      const { bridge, user } = await loadFixture(deployBridgeFixture);
+      await expect(bridge.connect(user).initializeV2([], []))
+        .to.be.revertedWithCustomError(bridge, "AccessControlUnauthorizedAccount");
+    });
   });
 });
@@ -0,0 +1,159 @@
+import { expect } from "chai";
+import hre from "hardhat";
+const { ethers, upgrades, network } = hre;
+import { PolygonBridge } from "../typechain-types";
+import { loadFixture, mine } from "@nomicfoundation/hardhat-network-helpers";
+import { createRequire } from "module";
+
+// The relayer is a CommonJS package; load it through require so ts-node
+// compiles it on the fly.
+const require = createRequire(import.meta.url);
+const { checkLogCanonical, getScanHead } =
+  require("../relayer/src/reorgGuard") as typeof import("../relayer/src/reorgGuard");
+
+// Exercises the relayer's reorg protection against the in-process hardhat
+// node, using evm_snapshot/evm_revert to drop blocks from the chain.
+describe("Relayer reorg guard", function () {
+  async function deployBridgeFixture() {
+    const [owner, user] = await ethers.getSigners();
+
+    const PolygonBridgeFactory = await ethers.getContractFactory("PolygonBridge");
+    const config = {
+      minBridgeAmount: ethers.parseEther("0.1"),
+      maxBridgeAmount: ethers.parseEther("1000"),
+      feeBasisPoints: 30,
+      relayerThreshold: 1,
+      enabled: true
+    };
+
+    const bridge = await upgrades.deployProxy(
+      PolygonBridgeFactory,
+      [owner.address, owner.address, config, [owner.address]],
+      { initializer: "initialize" }
+    ) as unknown as PolygonBridge;
+    await bridge.waitForDeployment();
+
+    return { bridge, owner, user };
+  }
+
+  async function bridgeAndGetLog(bridge: PolygonBridge, tx: Promise<any>) {
+    const receipt = await (await tx).wait();
+    const log = receipt!.logs.find(
+      (l: any) => bridge.interface.parseLog(l)?.name === "BridgeInitiated"
+    )!;
+    return {
+      txHash: receipt!.hash as string,
+      blockHash: receipt!.blockHash as string,
+      blockNumber: receipt!.blockNumber as number,
+      address: await bridge.getAddress(),
+      topics: [log.topics[0], log.topics[1]],
+    };
+  }
+
+  async function snapshot(): Promise<string> {
+    return network.provider.send("evm_snapshot", []);
+  }
+
+  async function revert(id: string) {
+    await network.provider.send("evm_revert", [id]);
+  }
+
+  describe("Scan head", function () {
+    it("Should stay the configured number of blocks behind latest", async function () {
+      await mine(20);
+      const latest = await ethers.provider.getBlockNumber();
+
+      const head = await getScanHead(ethers.provider, {
+        confirmations: 12,
+        blockTag: "latest",
+      });
+      expect(head).to.equal(latest - 12);
+    });
+
+    it("Should never go below genesis", async function () {
+      const head = await getScanHead(ethers.provider, {
+        confirmations: 1_000_000,
+        blockTag: "latest",
+      });
+      expect(head).to.equal(0);
+    });
+
+    it("Should scan up to the finalized tag when configured", async function () {
+      await mine(5);
+      const finalized = await ethers.provider.getBlock("finalized");
+
+      const head = await getScanHead(ethers.provider, {
+        confirmations: 12,
+        blockTag: "finalized",
+      });
+      expect(head).to.equal(finalized!.number);
+    });
+  });
+
+  describe("Canonical log checks", function () {
+    it("Should report a freshly mined log as canonical", async function () {
+      const { bridge, user } = await loadFixture(deployBridgeFixture);
+      const amount = ethers.parseEther("1");
+
+      const seen = await bridgeAndGetLog(
+        bridge,
+        bridge.connect(user).bridgeToTON("EQD4test", ethers.ZeroAddress, amount, { value: amount })
+      );
+
+      const status = await checkLogCanonical(ethers.provider, seen);
+      expect(status.kind).to.equal("canonical");
+    });
+
+    it("Should flag a log dropped by a reorg as missing", async function () {
+      const { bridge, user } = await loadFixture(deployBridgeFixture);
+      const amount = ethers.parseEther("1");
+
+      const snap = await snapshot();
+      const seen = await bridgeAndGetLog(
+        bridge,
+        bridge.connect(user).bridgeToTON("EQD4test", ethers.ZeroAddress, amount, { value: amount })
+      );
+
+      // Replace the block (and the ones after it) with a competing branch.
+      await revert(snap);
+      await mine(5);
+
+      const status = await checkLogCanonical(ethers.provider, seen);
+      expect(status.kind).to.equal("missing");
+    });
+
+    it("Should detect a log re-included in a different block", async function () {
+      const { bridge, user } = await loadFixture(deployBridgeFixture);
+      const amount = ethers.parseEther("1");
+
+      // Sign the deposit once so the very same transaction can be replayed
+      // on the competing branch.
+      const wallet = new ethers.Wallet(
+        ethers.Wallet.createRandom().privateKey,
+        ethers.provider
+      );
+      await user.sendTransaction({ to: wallet.address, value: ethers.parseEther("10") });
+      const request = await bridge
+        .connect(wallet)
+        .bridgeToTON.populateTransaction("EQD4test", ethers.ZeroAddress, amount, { value: amount });
+      const raw = await wallet.signTransaction(await wallet.populateTransaction(request));
+
+      const snap = await snapshot();
+      const seen = await bridgeAndGetLog(
+        bridge,
+        ethers.provider.broadcastTransaction(raw)
+      );
+
+      await revert(snap);
+      await mine(2);
+      await (await ethers.provider.broadcastTransaction(raw)).wait();
+
+      const status = await checkLogCanonical(ethers.provider, seen);
+      expect(status.kind).to.equal("moved");
+      if (status.kind === "moved") {
+        expect(status.blockHash).to.not.equal(seen.blockHash);
+        expect(status.blockNumber).to.be.greaterThan(seen.blockNumber);
+      }
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { createRequire } from "module";
+
+// The relayer is a CommonJS package; load it through require so ts-node
+// compiles it on the fly.
+const require = createRequire(import.meta.url);
+const { parseDepositComment } =
+  require("../relayer/src/tonDeposits") as typeof import("../relayer/src/tonDeposits");
+const { scaleGasFee, scalePayoutAmount, scaleReleaseAmount } =
+  require("../relayer/src/rates") as typeof import("../relayer/src/rates");
+
+describe("Relayer TON deposits", function () {
+  const recipient = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+  const token = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+  const ONE = ethers.parseUnits("1", 18);
+
+  describe("Comments", function () {
+    it("Should parse mint and release instructions", function () {
+      expect(parseDepositComment(` ${recipient.toLowerCase()} `)).to.deep.equal({
+        kind: "mint",
+        evmRecipient: recipient,
+      });
+      expect(parseDepositComment(`release:${recipient}`)).to.deep.equal({
+        kind: "release",
+        evmRecipient: recipient,
+        token: ethers.ZeroAddress,
+      });
+      expect(parseDepositComment(`RELEASE:${token}:${recipient}`)).to.deep.equal({
+        kind: "release",
+        evmRecipient: recipient,
+        token,
+      });
+    });
+
+    it("Should reject anything else", function () {
+      expect(parseDepositComment("hello")).to.equal(undefined);
+      expect(parseDepositComment(`release:${token}:${recipient}:${recipient}`)).to.equal(undefined);
+      expect(parseDepositComment("release:not-an-address")).to.equal(undefined);
+    });
+  });
+
+  describe("Release pricing", function () {
+    it("Should price 18-decimal tokens at the configured rate", function () {
+      expect(scaleReleaseAmount(1_500_000_000n, ONE, 18)).to.equal(ethers.parseEther("1.5"));
+      expect(scaleReleaseAmount(2_000_000_000n, ethers.parseUnits("0.25", 18), 18)).to.equal(
+        ethers.parseEther("0.5")
+      );
+    });
+
+    it("Should round down for tokens with fewer decimals than TON", function () {
+      // 1.234567891 TON -> 1.234567 of a 6-decimal token.
+      expect(scaleReleaseAmount(1_234_567_891n, ONE, 6)).to.equal(1_234_567n);
+      expect(scaleReleaseAmount(999n, ONE, 6)).to.equal(0n);
+      expect(scaleReleaseAmount(1_999_999_999n, ONE, 0)).to.equal(1n);
+    });
+
+    it("Should pay transfers out at the same rate, rounded down to nanoTON", function () {
+      const rate = ethers.parseUnits("4", 18);
+      // 10 tokens at 4 per TON -> 2.5 TON, which releases the 10 tokens again.
+      expect(scalePayoutAmount(ethers.parseEther("10"), rate, 18)).to.equal(2_500_000_000n);
+      expect(scaleReleaseAmount(2_500_000_000n, rate, 18)).to.equal(ethers.parseEther("10"));
+
+      // 18-decimal net amounts past the 9th decimal are dropped.
+      expect(scalePayoutAmount(ethers.parseEther("0.1230863299"), ONE, 18)).to.equal(123_086_329n);
+      expect(scalePayoutAmount(1_234_567n, ONE, 6)).to.equal(1_234_567_000n);
+    });
+
+    it("Should never pay out more TON than a round trip took in", function () {
+      const rate = ethers.parseUnits("3", 18);
+      for (const nano of [1n, 7n, 1_000_000_001n, 123_456_789_012n]) {
+        const tokens = scaleReleaseAmount(nano, rate, 6);
+        expect(scalePayoutAmount(tokens, rate, 6) <= nano).to.be.true;
+      }
+    });
+
+    it("Should convert gas paid in POL into the bridged token, rounded up", function () {
+      // 1 TON = 4 POL = 2 tokens, so 1 POL of gas costs 0.5 tokens.
+      const polRate = ethers.parseUnits("4", 18);
+      const tokenRate = ethers.parseUnits("2", 18);
+      expect(scaleGasFee(ethers.parseEther("1"), polRate, tokenRate, 18)).to.equal(ethers.parseEther("0.5"));
+      expect(scaleGasFee(ethers.parseEther("1"), polRate, tokenRate, 6)).to.equal(500_000n);
+      expect(scaleGasFee(1n, polRate, tokenRate, 6)).to.equal(1n);
+      expect(scaleGasFee(0n, polRate, tokenRate, 6)).to.equal(0n);
+    });
+  });
+});
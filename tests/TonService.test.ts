@@ -0,0 +1,105 @@
+import { expect } from "chai";
+import { createRequire } from "module";
+
+// The relayer is a CommonJS package; load it through require so ts-node
+// compiles it on the fly.
+const require = createRequire(import.meta.url);
+const { installFakeTon, payoutTo, tonAddress } =
+  require("./helpers/fakeTon") as typeof import("./helpers/fakeTon");
+const { getPayoutOutcome, toNanoFloor, verifyTonPayout } =
+  require("../relayer/src/tonService") as typeof import("../relayer/src/tonService");
+
+describe("Relayer TON service", function () {
+  describe("Amounts", function () {
+    it("Should round 18-decimal amounts down to the nanoTON", function () {
+      // A net POL amount after the fee, e.g. formatUnits(amount, 18).
+      expect(toNanoFloor("0.123086329912345678")).to.equal(123_086_329n);
+      expect(toNanoFloor("0.1230863299")).to.equal(123_086_329n);
+      expect(toNanoFloor("1.999999999999999999")).to.equal(1_999_999_999n);
+      expect(toNanoFloor("0.0000000009")).to.equal(0n);
+    });
+
+    it("Should take whole and short amounts as they are", function () {
+      expect(toNanoFloor("2")).to.equal(2_000_000_000n);
+      expect(toNanoFloor("2.5")).to.equal(2_500_000_000n);
+      expect(toNanoFloor("0.000000001")).to.equal(1n);
+    });
+  });
+
+  describe("Payout outcomes", function () {
+    const recipient = tonAddress(1);
+    const now = () => Math.floor(Date.now() / 1000);
+    let ton: ReturnType<typeof installFakeTon>;
+    let log: typeof console.log;
+
+    beforeEach(function () {
+      // The TON service reports every RPC connection on the console.
+      log = console.log;
+      console.log = () => {};
+      ton = installFakeTon();
+    });
+
+    afterEach(function () {
+      ton.restore();
+      console.log = log;
+    });
+
+    it("Should keep an unprocessed message pending until it expires", async function () {
+      ton.seqno = 4;
+      expect(await getPayoutOutcome({ seqno: 4, validUntil: now() + 60 }, recipient))
+        .to.deep.equal({ kind: "pending" });
+      expect(await getPayoutOutcome({ seqno: 4, validUntil: now() - 120 }, recipient))
+        .to.deep.equal({ kind: "expired" });
+    });
+
+    it("Should wait for the indexer once the seqno has moved", async function () {
+      ton.seqno = 5;
+      expect(await getPayoutOutcome({ seqno: 4, validUntil: now() - 120 }, recipient))
+        .to.deep.equal({ kind: "pending" });
+    });
+
+    it("Should report a landed payout with its transaction", async function () {
+      ton.seqno = 4;
+      const tx = ton.process(payoutTo(recipient, 1_000_000_000n));
+
+      expect(await getPayoutOutcome({ seqno: 4, validUntil: now() + 60 }, recipient)).to.deep.equal({
+        kind: "landed",
+        txHash: tx.hash().toString("hex"),
+        lt: tx.lt.toString(),
+      });
+    });
+
+    it("Should report a processed message that paid nothing as failed", async function () {
+      ton.seqno = 4;
+      ton.process();
+
+      const outcome = await getPayoutOutcome({ seqno: 4, validUntil: now() + 60 }, recipient);
+      expect(outcome.kind).to.equal("failed");
+      expect((outcome as { reason: string }).reason).to.equal("action phase failed (result code 37)");
+    });
+
+    it("Should report a payout the recipient bounced", async function () {
+      ton.seqno = 4;
+      ton.recipientBounces = true;
+      ton.process(payoutTo(recipient, 1_000_000_000n, true));
+
+      const outcome = await getPayoutOutcome({ seqno: 4, validUntil: now() + 60 }, recipient);
+      expect(outcome.kind).to.equal("bounced");
+    });
+
+    it("Should verify a peer payout only for the exact recipient and amount", async function () {
+      const tx = ton.process(payoutTo(recipient, 997_000_000n));
+      const peer = {
+        wallet: tonAddress(9, true),
+        txHash: "0x" + tx.hash().toString("hex"),
+        lt: tx.lt.toString(),
+      };
+
+      expect(await verifyTonPayout(peer, recipient, "0.997")).to.be.true;
+      expect(await verifyTonPayout(peer, recipient, "0.997000000999")).to.be.true;
+      expect(await verifyTonPayout(peer, recipient, "0.998")).to.be.false;
+      expect(await verifyTonPayout(peer, tonAddress(2), "0.997")).to.be.false;
+      expect(await verifyTonPayout({ ...peer, lt: "1" }, recipient, "0.997")).to.be.false;
+    });
+  });
+});
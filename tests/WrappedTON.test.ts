@@ -0,0 +1,64 @@
+import { expect } from "chai";
+import hre from "hardhat";
+const { ethers, upgrades } = hre;
+import { WrappedTON } from "../typechain-types";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+
+describe("WrappedTON", function () {
+  async function deployWrappedTONFixture() {
+    const [owner, minter, user] = await ethers.getSigners();
+
+    const WrappedTONFactory = await ethers.getContractFactory("WrappedTON");
+    const wrappedTON = await upgrades.deployProxy(
+      WrappedTONFactory,
+      [owner.address, minter.address],
+      { initializer: "initialize" }
+    ) as unknown as WrappedTON;
+    await wrappedTON.waitForDeployment();
+
+    return { wrappedTON, owner, minter, user };
+  }
+
+  describe("Minting", function () {
+    const tonTxHash = ethers.id("ton-deposit-1");
+
+    it("Should mint for a TON deposit", async function () {
+      const { wrappedTON, minter, user } = await loadFixture(deployWrappedTONFixture);
+      const amount = ethers.parseUnits("5", 9);
+
+      await expect(wrappedTON.connect(minter).mint(user.address, amount, tonTxHash))
+        .to.emit(wrappedTON, "TokensMinted")
+        .withArgs(user.address, amount, tonTxHash);
+
+      expect(await wrappedTON.balanceOf(user.address)).to.equal(amount);
+      expect(await wrappedTON.processedTonTx(tonTxHash)).to.be.true;
+    });
+
+    it("Should never mint the same TON transaction twice", async function () {
+      const { wrappedTON, minter, user } = await loadFixture(deployWrappedTONFixture);
+      const amount = ethers.parseUnits("5", 9);
+
+      await wrappedTON.connect(minter).mint(user.address, amount, tonTxHash);
+
+      await expect(
+        wrappedTON.connect(minter).mint(user.address, amount, tonTxHash)
+      ).to.be.revertedWith("TON tx already minted");
+    });
+
+    it("Should reject an empty TON tx hash", async function () {
+      const { wrappedTON, minter, user } = await loadFixture(deployWrappedTONFixture);
+
+      await expect(
+        wrappedTON.connect(minter).mint(user.address, 1, ethers.ZeroHash)
+      ).to.be.revertedWith("Invalid TON tx");
+    });
+
+    it("Should only allow the minter role to mint", async function () {
+      const { wrappedTON, user } = await loadFixture(deployWrappedTONFixture);
+
+      await expect(
+        wrappedTON.connect(user).mint(user.address, 1, tonTxHash)
+      ).to.be.revertedWithCustomError(wrappedTON, "AccessControlUnauthorizedAccount");
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import { createHash } from "crypto";
+import { createRequire } from "module";
+
+// An in-memory relayer TON wallet for the relayer's TON service: stubs the
+// wallet's getSeqno/sendTransfer and the TonClient history lookups, so
+// payouts can be driven without a TON RPC. The relayer has its own copies of
+// the @ton packages, so they are resolved from its package.
+const require = createRequire(new URL("../../relayer/package.json", import.meta.url));
+const { TonClient, WalletContractV4 } =
+  require("@ton/ton") as typeof import("../../relayer/node_modules/@ton/ton");
+const { Address, beginCell } =
+  require("@ton/core") as typeof import("../../relayer/node_modules/@ton/core");
+
+type TonAddress = InstanceType<typeof Address>;
+
+export interface FakePayout {
+  to: TonAddress;
+  coins: bigint;
+  bounce: boolean;
+}
+
+export interface FakeTonWallet {
+  seqno: number;
+  // Wallet transactions, newest first.
+  transactions: any[];
+  // Every message handed to sendTransfer, with the seqno it was signed for.
+  sent: (FakePayout & { seqno: number })[];
+  // Whether the recipient bounces bounceable payouts (tryLocateResultTx).
+  recipientBounces: boolean;
+  // What the wallet does with a sent message; processes it by default.
+  onSend: (payout: FakePayout, seqno: number) => void;
+  // Process the message signed with the current seqno, paying `payout` (or
+  // nothing, like a wallet out of funds).
+  process(payout?: FakePayout): any;
+  restore(): void;
+}
+
+/** A user-friendly TON address, non-bounceable unless asked for. */
+export function tonAddress(seed: number, bounceable = false): string {
+  return new Address(0, Buffer.alloc(32, seed)).toString({ bounceable });
+}
+
+/** A payout of `coins` nanoTON to `recipient`. */
+export function payoutTo(recipient: string, coins: bigint, bounce = false): FakePayout {
+  return { to: Address.parse(recipient), coins, bounce };
+}
+
+/**
+ * A wallet transaction that processed the external message signed with
+ * `seqno` (V4 body layout: signature | subwallet_id | valid_until | seqno).
+ */
+export function walletTransaction(seqno: number, lt: bigint, payout?: FakePayout) {
+  const hash = createHash("sha256").update(`ton-tx-${seqno}-${lt}`).digest();
+  const body = beginCell()
+    .storeBuffer(Buffer.alloc(64))
+    .storeUint(698983191, 32)
+    .storeUint(0, 32)
+    .storeUint(seqno, 32)
+    .endCell();
+  const outMessages = payout
+    ? [{
+        info: {
+          type: "internal",
+          dest: payout.to,
+          bounce: payout.bounce,
+          value: { coins: payout.coins },
+          createdLt: lt + 1n,
+        },
+      }]
+    : [];
+  return {
+    lt,
+    hash: () => hash,
+    inMessage: { info: { type: "external-in" }, body },
+    outMessages: { values: () => outMessages },
+    description: {
+      type: "generic",
+      aborted: false,
+      actionPhase: payout ? { success: true, resultCode: 0 } : { success: false, resultCode: 37 },
+    },
+  };
+}
+
+export function installFakeTon(): FakeTonWallet {
+  const wallet = WalletContractV4.prototype as any;
+  const client = TonClient.prototype as any;
+  const saved = {
+    getSeqno: wallet.getSeqno,
+    sendTransfer: wallet.sendTransfer,
+    getTransactions: client.getTransactions,
+    getTransaction: client.getTransaction,
+    tryLocateResultTx: client.tryLocateResultTx,
+    mnemonic: process.env.TON_MNEMONIC,
+  };
+  process.env.TON_MNEMONIC = Array(24).fill("abandon").join(" ");
+
+  let lt = 1_000n;
+  const fake: FakeTonWallet = {
+    seqno: 0,
+    transactions: [],
+    sent: [],
+    recipientBounces: false,
+    onSend: (payout) => fake.process(payout),
+    process(payout?: FakePayout) {
+      lt += 10n;
+      const tx = walletTransaction(fake.seqno, lt, payout);
+      fake.transactions.unshift(tx);
+      fake.seqno++;
+      return tx;
+    },
+    restore() {
+      Object.assign(wallet, { getSeqno: saved.getSeqno, sendTransfer: saved.sendTransfer });
+      Object.assign(client, {
+        getTransactions: saved.getTransactions,
+        getTransaction: saved.getTransaction,
+        tryLocateResultTx: saved.tryLocateResultTx,
+      });
+      if (saved.mnemonic === undefined) delete process.env.TON_MNEMONIC;
+      else process.env.TON_MNEMONIC = saved.mnemonic;
+    },
+  };
+
+  wallet.getSeqno = async () => fake.seqno;
+  wallet.sendTransfer = async (_provider: unknown, args: { seqno: number; messages: any[] }) => {
+    const { info } = args.messages[0];
+    const payout = { to: info.dest, coins: info.value.coins, bounce: info.bounce };
+    fake.sent.push({ ...payout, seqno: args.seqno });
+    fake.onSend(payout, args.seqno);
+  };
+  client.getTransactions = async () => fake.transactions;
+  client.getTransaction = async (_address: unknown, txLt: string, hash: string) =>
+    fake.transactions.find(
+      (tx) => tx.lt.toString() === txLt && tx.hash().toString("base64") === hash
+    ) ?? null;
+  client.tryLocateResultTx = async () => ({
+    description: fake.recipientBounces
+      ? { type: "generic", aborted: true, bouncePhase: { type: "ok" } }
+      : { type: "generic", aborted: false },
+  });
+  return fake;
+}